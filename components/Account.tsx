@@ -0,0 +1,71 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import { hasRole, type Role } from '../lib/roles';
+import type { Principal } from '../lib/auth';
+import type { AccountResponse } from '../pages/api/auth/me';
+
+interface AccountState {
+  /** Undefined until loaded, and while signed out */
+  account?: Principal;
+  /** Whether the signed-in account has at least `role` */
+  can: (role: Role) => boolean;
+}
+
+const AccountContext = createContext<AccountState>({ can: () => false });
+
+export const useAccount = () => useContext(AccountContext);
+
+/**
+ * Loads the signed-in account for every page, and sends the browser to the
+ * sign-in page whenever an API call answers 401.
+ */
+export const AccountProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const router = useRouter();
+  const [account, setAccount] = useState<Principal>();
+
+  useEffect(() => {
+    const interceptor = axios.interceptors.response.use(undefined, error => {
+      if (error.response?.status === 401 && window.location.pathname !== '/login') {
+        router.replace(`/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`);
+      }
+      return Promise.reject(error);
+    });
+    return () => axios.interceptors.response.eject(interceptor);
+  }, [router]);
+
+  useEffect(() => {
+    if (router.pathname === '/login') {
+      setAccount(undefined);
+      return;
+    }
+    axios.get<AccountResponse>('/api/auth/me')
+      .then(response => setAccount(response.data.account))
+      .catch(err => console.error('Error fetching account:', err));
+  }, [router.pathname]);
+
+  const can = (role: Role) => !!account && hasRole(account.role, role);
+  return <AccountContext.Provider value={{ account, can }}>{children}</AccountContext.Provider>;
+};
+
+/** Signed-in account and sign-out link, pinned to the top right corner. */
+export const AccountMenu: React.FC = () => {
+  const router = useRouter();
+  const { account, can } = useAccount();
+  if (!account || account.kind !== 'user') return null;
+
+  const signOut = async () => {
+    await axios.post('/api/auth/logout');
+    router.replace('/login');
+  };
+
+  return (
+    <div className="fixed top-3 right-3 z-10 flex items-center gap-3 bg-white/90 rounded-full shadow px-4 py-1 text-sm text-gray-600">
+      <span>{account.name}</span>
+      <span className="text-xs bg-gray-100 px-2 py-0.5 rounded-full">{account.role}</span>
+      {can('admin') && <Link href="/admin/access" className="text-indigo-600 hover:underline">Access</Link>}
+      <button onClick={signOut} className="text-indigo-600 hover:underline">Sign out</button>
+    </div>
+  );
+};
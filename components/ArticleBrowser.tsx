@@ -0,0 +1,238 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import CategoryBadge from './CategoryBadge';
+import CompanyLinks from './CompanyLinks';
+import { categoryColor, type CategoryDefinition } from '../lib/categories';
+import type { ListedArticle } from '../lib/articles';
+import { EXPORT_FORMATS } from '../lib/export';
+import NewArticlesBanner, { useNewArticles } from './NewArticles';
+import type { NewsSource } from '../lib/sources';
+import type { ArticlesResponse } from '../pages/api/articles';
+
+/** Filters set from outside, e.g. by clicking a chart; dates are local days. */
+export interface ArticlePreset {
+  /** Headline words */
+  q?: string;
+  topic?: string;
+  company?: string;
+  from?: string;
+  to?: string;
+}
+
+interface ArticleBrowserProps {
+  categories: CategoryDefinition[];
+  sources: NewsSource[];
+  preset?: ArticlePreset;
+}
+
+interface Filters {
+  q: string;
+  topic: string;
+  company: string;
+  source: string;
+  from: string;
+  to: string;
+  sort: 'published' | 'ingested';
+}
+
+const EMPTY_FILTERS: Filters = { q: '', topic: '', company: '', source: '', from: '', to: '', sort: 'published' };
+
+const inputClass = 'border border-gray-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Filterable, paginated list of stored articles backed by /api/articles
+const ArticleBrowser: React.FC<ArticleBrowserProps> = ({ categories, sources, preset }) => {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  // The filters of the listed articles, as opposed to the ones being edited
+  const [applied, setApplied] = useState<Filters>(EMPTY_FILTERS);
+  const [articles, setArticles] = useState<ListedArticle[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Ids of the articles that came in while the list was open
+  const [fresh, setFresh] = useState<Set<number>>(new Set());
+  const live = useNewArticles(toParams(applied));
+
+  useEffect(() => {
+    const next = { ...EMPTY_FILTERS, ...preset };
+    setFilters(next);
+    setFresh(new Set());
+    load(next);
+  }, [preset]);
+
+  const load = async (next: Filters, cursor?: string) => {
+    setLoading(true);
+    if (!cursor) setApplied(next);
+    try {
+      const params = toParams(next);
+      if (cursor) params.cursor = cursor;
+
+      const response = await axios.get<ArticlesResponse>('/api/articles', { params });
+      const page = response.data.articles || [];
+      setArticles(current => (cursor ? current.concat(page) : page));
+      setTotal(response.data.total || 0);
+      setNextCursor(response.data.nextCursor || null);
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+      if (!cursor) {
+        setArticles([]);
+        setTotal(0);
+        setNextCursor(null);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const update = (key: keyof Filters, value: string) => setFilters(current => ({ ...current, [key]: value }));
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setFresh(new Set());
+    load(filters);
+  };
+
+  const reset = () => {
+    setFilters(EMPTY_FILTERS);
+    setFresh(new Set());
+    load(EMPTY_FILTERS);
+  };
+
+  // Reloads the first page with the new articles marked
+  const showNew = () => {
+    setFresh(new Set(live.pending.map(article => article.id)));
+    live.clear();
+    load(applied);
+  };
+
+  return (
+    <div>
+      <form onSubmit={submit} className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+        <input
+          type="search"
+          value={filters.q}
+          onChange={e => update('q', e.target.value)}
+          placeholder="Search headlines"
+          className={`${inputClass} md:col-span-2`}
+        />
+        <select value={filters.topic} onChange={e => update('topic', e.target.value)} className={inputClass}>
+          <option value="">All topics</option>
+          {categories.map(category => (
+            <option key={category.name} value={category.name}>{category.name}</option>
+          ))}
+        </select>
+        <select value={filters.source} onChange={e => update('source', e.target.value)} className={inputClass}>
+          <option value="">All sources</option>
+          {sources.map(source => (
+            <option key={source.id} value={source.id}>{source.name}</option>
+          ))}
+        </select>
+        <input
+          value={filters.company}
+          onChange={e => update('company', e.target.value)}
+          placeholder="Company"
+          className={inputClass}
+        />
+        <label className="flex items-center gap-2 text-sm text-gray-500">
+          From
+          <input type="date" value={filters.from} onChange={e => update('from', e.target.value)} className={`${inputClass} flex-1`} />
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-500">
+          To
+          <input type="date" value={filters.to} onChange={e => update('to', e.target.value)} className={`${inputClass} flex-1`} />
+        </label>
+        <select value={filters.sort} onChange={e => update('sort', e.target.value)} className={inputClass}>
+          <option value="published">Newest published</option>
+          <option value="ingested">Newest ingested</option>
+        </select>
+        <div className="flex gap-2 md:col-span-4">
+          <button type="submit" className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors text-sm font-medium">
+            Apply
+          </button>
+          <button type="button" onClick={reset} className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition-colors text-sm font-medium">
+            Reset
+          </button>
+          <span className="ml-auto self-center text-sm text-gray-500">
+            {total} {total === 1 ? 'article' : 'articles'}
+            {total > 0 && (
+              <>
+                {' · Download '}
+                {EXPORT_FORMATS.map((format, index) => (
+                  <React.Fragment key={format}>
+                    {index > 0 && ' / '}
+                    <a href={`/api/export/articles?${new URLSearchParams({ ...toParams(applied), format })}`} className="text-indigo-600 hover:underline">
+                      {format.toUpperCase()}
+                    </a>
+                  </React.Fragment>
+                ))}
+              </>
+            )}
+          </span>
+        </div>
+      </form>
+
+      {error && <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 mb-4 text-sm">{error}</div>}
+
+      <NewArticlesBanner count={live.pending.length} onShow={showNew} />
+
+      <div className="divide-y">
+        {articles.map(article => (
+          <div key={article.id} className={`py-3 flex items-start justify-between gap-4 ${fresh.has(article.id) ? 'bg-indigo-50 -mx-2 px-2 rounded' : ''}`}>
+            <div>
+              <a
+                href={article.url || undefined}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium text-gray-800 hover:text-indigo-600"
+              >
+                {article.title}
+              </a>
+              <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                <CategoryBadge name={article.topic} color={categoryColor(article.topic, categories)} />
+                {article.source && <span>{article.source}</span>}
+                <span>
+                  {new Date(applied.sort === 'ingested' ? article.created_at : article.published_date).toLocaleString()}
+                </span>
+              </div>
+            </div>
+            {article.companies.length > 0 && <CompanyLinks companies={article.companies} className="text-xs" />}
+          </div>
+        ))}
+        {!loading && articles.length === 0 && !error && (
+          <p className="py-3 text-sm text-gray-500">No articles match these filters.</p>
+        )}
+      </div>
+
+      {nextCursor && (
+        <button
+          onClick={() => load(applied, nextCursor)}
+          disabled={loading}
+          className="w-full mt-4 bg-indigo-50 text-indigo-600 py-2 rounded-lg hover:bg-indigo-100 transition-colors text-sm font-medium disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Query parameters of /api/articles and /api/export/articles for the filters
+function toParams(filters: Filters): Record<string, string> {
+  const params: Record<string, string> = {};
+  (Object.keys(filters) as (keyof Filters)[]).forEach(key => {
+    if (filters[key]) params[key] = filters[key];
+  });
+  // Date inputs are calendar days in the user's timezone
+  if (filters.from) params.from = localDayStart(filters.from, 0);
+  if (filters.to) params.to = localDayStart(filters.to, 1);
+  return params;
+}
+
+// Midnight at the start of `day` (YYYY-MM-DD) plus `offset` days, local time
+function localDayStart(day: string, offset: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date + offset).toISOString();
+}
+
+export default ArticleBrowser;
@@ -0,0 +1,16 @@
+import React from 'react';
+
+interface CategoryBadgeProps {
+  name: string;
+  color: string;
+}
+
+// Colors come from the category taxonomy, so they are applied inline
+// rather than through Tailwind classes
+const CategoryBadge: React.FC<CategoryBadgeProps> = ({ name, color }) => (
+  <span className="badge" style={{ backgroundColor: `${color}1A`, color }}>
+    {name}
+  </span>
+);
+
+export default CategoryBadge;
@@ -0,0 +1,24 @@
+import React from 'react';
+import Link from 'next/link';
+
+interface CompanyLinksProps {
+  companies: string[];
+  className?: string;
+}
+
+// Each company links to its /companies/[name] page
+const CompanyLinks: React.FC<CompanyLinksProps> = ({ companies, className = '' }) => (
+  <span className="flex flex-wrap justify-end gap-1">
+    {companies.map(company => (
+      <Link
+        key={company}
+        href={`/companies/${encodeURIComponent(company)}`}
+        className={`text-sm text-gray-500 font-medium hover:text-tech-orange ${className}`}
+      >
+        {company}
+      </Link>
+    ))}
+  </span>
+);
+
+export default CompanyLinks;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import type { CompanyCount } from '../lib/analytics';
+import type { ArticlePreset } from './ArticleBrowser';
+
+interface CompanyRankingChartProps {
+  companies: CompanyCount[];
+  from: string;
+  to: string;
+  onDrill: (preset: ArticlePreset) => void;
+}
+
+const BAR_HEIGHT = 28;
+
+// Most mentioned companies, largest first; a bar lists the company's articles
+const CompanyRankingChart: React.FC<CompanyRankingChartProps> = ({ companies, from, to, onDrill }) => {
+  if (companies.length === 0) {
+    return <p className="text-sm text-gray-500">No company mentions in this period.</p>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={companies.length * BAR_HEIGHT + 40}>
+      <BarChart data={companies} layout="vertical" margin={{ left: 8 }}>
+        <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+        <YAxis type="category" dataKey="company" width={110} tick={{ fontSize: 12 }} />
+        <Tooltip />
+        <Bar
+          dataKey="count"
+          name="Articles"
+          fill="#6366F1"
+          className="cursor-pointer"
+          onClick={(_, index) => onDrill({ company: companies[index].company, from, to })}
+        />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default CompanyRankingChart;
@@ -0,0 +1,28 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { formatBucket, formatDay } from '../lib/calendar';
+import type { UsageSummary } from '../lib/usage';
+
+interface CreditUsageChartProps {
+  daily: UsageSummary['daily'];
+  /** Daily credit budget, drawn as a line when set */
+  budget: number | null;
+}
+
+// FireCrawl credits per UTC day of the month so far
+const CreditUsageChart: React.FC<CreditUsageChartProps> = ({ daily, budget }) => (
+  <ResponsiveContainer width="100%" height={200}>
+    <BarChart data={daily}>
+      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+      <XAxis dataKey="date" tickFormatter={date => formatBucket(date, 'day')} tick={{ fontSize: 12 }} />
+      <YAxis tick={{ fontSize: 12 }} width={40} />
+      <Tooltip labelFormatter={date => formatDay(String(date))} />
+      <Bar name="Credits" dataKey="credits" fill="#F97316" />
+      {budget !== null && (
+        <ReferenceLine y={budget} stroke="#DC2626" strokeDasharray="4 4" label={{ value: 'daily budget', fontSize: 11, fill: '#DC2626', position: 'insideTopRight' }} />
+      )}
+    </BarChart>
+  </ResponsiveContainer>
+);
+
+export default CreditUsageChart;
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import type { ListedArticle } from '../lib/articles';
+
+/**
+ * Follows /api/articles/events with the given filters (those of
+ * /api/articles) and collects the articles stored since the page
+ * connected. `clear` empties the list once the caller has shown them.
+ * The list starts over whenever the filters change.
+ */
+export function useNewArticles(params: Record<string, string> = {}): { pending: ListedArticle[]; clear: () => void } {
+  const [pending, setPending] = useState<ListedArticle[]>([]);
+  const search = new URLSearchParams(params).toString();
+
+  useEffect(() => {
+    setPending([]);
+    if (typeof EventSource === 'undefined') return;
+
+    // On a dropped connection EventSource reconnects by itself, resuming
+    // after the last article it received
+    const events = new EventSource(`/api/articles/events${search ? `?${search}` : ''}`);
+    events.addEventListener('articles', (e) => {
+      const { articles } = JSON.parse((e as MessageEvent).data) as { articles: ListedArticle[] };
+      setPending(current => {
+        const known = new Set(current.map(article => article.id));
+        return current.concat(articles.filter(article => !known.has(article.id)));
+      });
+    });
+    return () => events.close();
+  }, [search]);
+
+  return { pending, clear: () => setPending([]) };
+}
+
+interface NewArticlesBannerProps {
+  count: number;
+  /** What showing them does, e.g. "Show" or "Update charts" */
+  action?: string;
+  /** Stays at the top of the window while the page scrolls */
+  floating?: boolean;
+  onShow: () => void;
+}
+
+// Announces new articles without moving what the reader is looking at
+const NewArticlesBanner: React.FC<NewArticlesBannerProps> = ({ count, action = 'Show', floating, onShow }) => {
+  if (count === 0) return null;
+
+  return (
+    <div className={`flex justify-center mb-4 ${floating ? 'sticky top-4 z-10' : ''}`}>
+      <button
+        onClick={onShow}
+        className="bg-indigo-600 text-white px-5 py-2 rounded-full shadow-lg hover:bg-indigo-700 transition-colors text-sm font-medium"
+      >
+        ⬆ {count} new {count === 1 ? 'article' : 'articles'} · {action}
+      </button>
+    </div>
+  );
+};
+
+export default NewArticlesBanner;
@@ -1,58 +1,99 @@
-import React from 'react';
+import React, { useState } from 'react';
+import axios from 'axios';
 import type { Article } from '../pages/api/scrape';
+import type { BodyTextResponse } from '../pages/api/bodies/text';
+import type { ArticleSummary } from '../lib/bodies';
+import { markdownToText } from '../lib/summary';
+import ProvenanceBadge from './ProvenanceBadge';
+import CategoryBadge from './CategoryBadge';
+import CompanyLinks from './CompanyLinks';
 
 interface NewsCardProps {
   article: Article;
-  index: number;
+  /** Display name of the article's source */
+  sourceName: string;
+  /** Badge color of the article's category */
+  categoryColor: string;
+  /** The fetched article page, when the body stage is on */
+  body?: ArticleSummary;
+  /** Marks an article that arrived while the page was open */
+  highlighted?: boolean;
 }
 
-const NewsCard: React.FC<NewsCardProps> = ({ article, index }) => {
-  const getCategoryBadgeClass = (category: Article['category']) => {
-    const baseClass = 'badge ';
-    switch (category) {
-      case 'AI':
-        return baseClass + 'badge-ai';
-      case 'Funding':
-        return baseClass + 'badge-funding';
-      case 'Product':
-        return baseClass + 'badge-product';
-      case 'Regulation':
-        return baseClass + 'badge-regulation';
-      default:
-        return baseClass + 'badge-other';
+const NewsCard: React.FC<NewsCardProps> = ({ article, sourceName, categoryColor, body, highlighted }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [fullText, setFullText] = useState<string[] | null>(null);
+  const [textError, setTextError] = useState<string | null>(null);
+
+  // The full text is only loaded on request; lists carry just the summary
+  const loadFullText = async () => {
+    try {
+      const response = await axios.get<BodyTextResponse>('/api/bodies/text', { params: { url: article.url } });
+      setFullText(markdownToText(response.data.body?.markdown || '').split('\n\n'));
+    } catch (err: any) {
+      setTextError(err.response?.data?.error || err.message);
     }
   };
 
   return (
-    <div className="card hover:scale-105 transform transition-all duration-200">
+    <div className={`card ${highlighted ? 'ring-2 ring-indigo-400' : ''}`}>
       <div className="flex justify-between items-start mb-4">
-        <span className={getCategoryBadgeClass(article.category)}>
-          {article.category}
-        </span>
-        {article.company && (
-          <span className="text-sm text-gray-500 font-medium bg-gray-50 px-2 py-1 rounded">
-            {article.company}
-          </span>
+        <CategoryBadge name={article.category} color={categoryColor} />
+        {article.companies && article.companies.length > 0 && (
+          <CompanyLinks companies={article.companies} />
         )}
       </div>
-      
-      <h3 className="text-lg font-semibold text-gray-900 mb-3 leading-tight line-clamp-3">
-        {article.headline}
+
+      <h3 className="text-lg font-semibold text-gray-900 mb-3 leading-tight">
+        {article.url ? (
+          <a href={article.url} target="_blank" rel="noopener noreferrer" className="hover:text-tech-orange">
+            {article.headline}
+          </a>
+        ) : (
+          article.headline
+        )}
       </h3>
-      
+
+      {body?.summary && (
+        <div className="mb-3 text-sm text-gray-600">
+          <p className={expanded ? '' : 'line-clamp-3'}>{body.summary}</p>
+          {expanded && (
+            <div className="mt-2 space-y-2">
+              {fullText?.map((paragraph, index) => <p key={index}>{paragraph}</p>)}
+              {!fullText && !textError && (
+                <button onClick={loadFullText} className="text-tech-orange hover:underline">
+                  Read the full text ({body.reading_minutes} min)
+                </button>
+              )}
+              {textError && <p className="text-red-600">{textError}</p>}
+            </div>
+          )}
+          <button onClick={() => setExpanded(!expanded)} className="mt-1 text-xs text-gray-500 hover:text-gray-700">
+            {expanded ? 'Show less' : 'Show more'}
+          </button>
+        </div>
+      )}
+      {body?.status === 'pending' && (
+        <p className="mb-3 text-xs text-gray-400">Summary not fetched yet</p>
+      )}
+
       <div className="flex items-center justify-between text-sm text-gray-500">
         <div className="flex items-center">
           <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
-          <span>Just now</span>
+          <span>{article.publishedAt ? new Date(article.publishedAt).toLocaleString() : 'Just now'}</span>
+          {body?.reading_minutes && <span className="ml-2">· {body.reading_minutes} min read</span>}
+        </div>
+        <div className="flex items-center gap-2">
+          <ProvenanceBadge method={article.extractionMethod} />
+          <span className="text-xs bg-orange-50 text-orange-600 px-2 py-1 rounded">
+            {sourceName}
+          </span>
         </div>
-        <span className="text-xs bg-blue-50 text-blue-600 px-2 py-1 rounded">
-          #{index + 1}
-        </span>
       </div>
     </div>
   );
 };
 
-export default NewsCard; 
\ No newline at end of file
+export default NewsCard;
@@ -0,0 +1,36 @@
+import React from 'react';
+import type { ExtractionMethod } from '../pages/api/scrape';
+
+interface ProvenanceBadgeProps {
+  method: ExtractionMethod;
+}
+
+const labels: Record<ExtractionMethod, { text: string; className: string; title: string }> = {
+  extract: {
+    text: 'Live',
+    className: 'bg-emerald-50 text-emerald-700',
+    title: 'Structured extraction via FireCrawl',
+  },
+  markdown: {
+    text: 'Live (parsed)',
+    className: 'bg-sky-50 text-sky-700',
+    title: 'Parsed from the page markdown after structured extraction returned nothing',
+  },
+  mock: {
+    text: 'Demo',
+    className: 'bg-yellow-50 text-yellow-800',
+    title: 'Demo data. Not saved to the database',
+  },
+};
+
+const ProvenanceBadge: React.FC<ProvenanceBadgeProps> = ({ method }) => {
+  const label = labels[method] || labels.extract;
+
+  return (
+    <span className={`text-xs px-2 py-1 rounded ${label.className}`} title={label.title}>
+      {label.text}
+    </span>
+  );
+};
+
+export default ProvenanceBadge;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { formatBucket } from '../lib/calendar';
+import type { CompanySentiment, Granularity, TimelinePoint, TopicDistribution } from '../lib/analytics';
+import type { ArticlePreset } from './ArticleBrowser';
+
+interface SentimentChartProps {
+  timeline: TimelinePoint[];
+  companies: CompanySentiment[];
+  topics: TopicDistribution[];
+  granularity: Granularity;
+  onDrill: (preset: ArticlePreset) => void;
+}
+
+// Colors for company lines; topics use their category color
+const COMPANY_COLORS = ['#6366F1', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#06B6D4', '#EC4899', '#84CC16'];
+const MAX_COMPANY_LINES = 5;
+
+// Average sentiment per bucket, one line per watched company (or the most
+// mentioned ones when nothing is watched) or per topic. Clicking a legend
+// entry lists its articles.
+const SentimentChart: React.FC<SentimentChartProps> = ({ timeline, companies, topics, granularity, onDrill }) => {
+  const [mode, setMode] = useState<'companies' | 'topics'>('companies');
+  if (timeline.length === 0) return null;
+  const first = timeline[0];
+  const last = timeline[timeline.length - 1];
+
+  const watched = companies.filter(company => company.watched);
+  const charted = (watched.length > 0 ? watched : companies).slice(0, MAX_COMPANY_LINES);
+  const lines = mode === 'companies'
+    ? charted.map((company, index) => ({
+      name: company.company,
+      color: COMPANY_COLORS[index % COMPANY_COLORS.length],
+      value: (point: TimelinePoint) => point.companySentiment[company.company] ?? null,
+    }))
+    : topics.map(topic => ({
+      name: topic.topic,
+      color: topic.color,
+      value: (point: TimelinePoint) => point.topicSentiment[topic.topic] ?? null,
+    }));
+
+  return (
+    <div>
+      <div className="flex rounded-lg border border-gray-300 overflow-hidden w-fit mb-4">
+        {(['companies', 'topics'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setMode(option)}
+            className={`px-3 py-1 text-sm capitalize ${mode === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+      {lines.length === 0 ? (
+        <p className="text-sm text-gray-500">No scored articles in this period.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={280}>
+          <LineChart data={timeline}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="bucket" tickFormatter={bucket => formatBucket(bucket, granularity)} tick={{ fontSize: 12 }} />
+            <YAxis domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} tick={{ fontSize: 12 }} width={40} />
+            <ReferenceLine y={0} stroke="#9CA3AF" />
+            <Tooltip
+              labelFormatter={bucket => formatBucket(String(bucket), granularity)}
+              formatter={value => (typeof value === 'number' ? value.toFixed(2) : value)}
+            />
+            <Legend
+              className="cursor-pointer"
+              onClick={entry => onDrill(mode === 'companies'
+                ? { company: String(entry.value), from: first.from, to: last.to }
+                : { topic: String(entry.value), from: first.from, to: last.to })}
+            />
+            {lines.map(line => (
+              <Line
+                key={line.name}
+                type="monotone"
+                name={line.name}
+                dataKey={line.value}
+                stroke={line.color}
+                strokeWidth={2}
+                dot={false}
+                connectNulls
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
+
+export default SentimentChart;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Line, LineChart, ReferenceArea, XAxis, YAxis } from 'recharts';
+
+interface SparklineProps {
+  /** Daily counts, oldest first */
+  values: number[];
+  /** Index of the first value to highlight, e.g. the start of a recent window */
+  highlightFrom?: number;
+  width?: number;
+  height?: number;
+}
+
+// Axis-free trend line for small panels
+const Sparkline: React.FC<SparklineProps> = ({ values, highlightFrom, width = 120, height = 32 }) => {
+  const data = values.map((count, index) => ({ index, count }));
+
+  return (
+    <LineChart width={width} height={height} data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+      <XAxis dataKey="index" type="number" domain={[0, Math.max(values.length - 1, 1)]} hide />
+      <YAxis domain={[0, 'dataMax']} hide />
+      {highlightFrom !== undefined && (
+        <ReferenceArea x1={Math.max(highlightFrom - 0.5, 0)} x2={values.length - 1} fill="#EEF2FF" fillOpacity={1} />
+      )}
+      <Line type="monotone" dataKey="count" stroke="#6366F1" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+    </LineChart>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,55 @@
+import React from 'react';
+import { Area, AreaChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { formatBucket } from '../lib/calendar';
+import type { Granularity, TimelinePoint, TopicDistribution } from '../lib/analytics';
+import type { ArticlePreset } from './ArticleBrowser';
+
+interface TopicShareChartProps {
+  timeline: TimelinePoint[];
+  topics: TopicDistribution[];
+  granularity: Granularity;
+  onDrill: (preset: ArticlePreset) => void;
+}
+
+// Each topic's share of the articles in every bucket, stacked to 100%.
+// Clicking a bucket lists its articles; clicking a legend entry lists the
+// topic's articles across the whole timeline.
+const TopicShareChart: React.FC<TopicShareChartProps> = ({ timeline, topics, granularity, onDrill }) => {
+  if (timeline.length === 0) return null;
+  const first = timeline[0];
+  const last = timeline[timeline.length - 1];
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <AreaChart
+        data={timeline}
+        stackOffset="expand"
+        onClick={state => {
+          const point = timeline[Number(state.activeTooltipIndex)];
+          if (point) onDrill({ from: point.from, to: point.to });
+        }}
+        className="cursor-pointer"
+      >
+        <CartesianGrid strokeDasharray="3 3" vertical={false} />
+        <XAxis dataKey="bucket" tickFormatter={bucket => formatBucket(bucket, granularity)} tick={{ fontSize: 12 }} />
+        <YAxis tickFormatter={share => `${Math.round(share * 100)}%`} tick={{ fontSize: 12 }} width={40} />
+        <Tooltip labelFormatter={bucket => formatBucket(String(bucket), granularity)} />
+        <Legend onClick={entry => onDrill({ topic: String(entry.value), from: first.from, to: last.to })} />
+        {topics.map(topic => (
+          <Area
+            key={topic.topic}
+            type="monotone"
+            name={topic.topic}
+            dataKey={(point: TimelinePoint) => point.topics[topic.topic] || 0}
+            stackId="topics"
+            stroke={topic.color}
+            fill={topic.color}
+            fillOpacity={0.7}
+          />
+        ))}
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default TopicShareChart;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { formatBucket } from '../lib/calendar';
+import type { Granularity, TimelinePoint, TopicDistribution } from '../lib/analytics';
+import type { ArticlePreset } from './ArticleBrowser';
+
+interface VolumeChartProps {
+  timeline: TimelinePoint[];
+  topics: TopicDistribution[];
+  granularity: Granularity;
+  onDrill: (preset: ArticlePreset) => void;
+}
+
+// Articles per bucket, with one clickable segment per topic
+const VolumeChart: React.FC<VolumeChartProps> = ({ timeline, topics, granularity, onDrill }) => (
+  <ResponsiveContainer width="100%" height={280}>
+    <BarChart data={timeline}>
+      <CartesianGrid strokeDasharray="3 3" vertical={false} />
+      <XAxis dataKey="bucket" tickFormatter={bucket => formatBucket(bucket, granularity)} tick={{ fontSize: 12 }} />
+      <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+      <Tooltip labelFormatter={bucket => formatBucket(String(bucket), granularity)} />
+      {topics.map(topic => (
+        <Bar
+          key={topic.topic}
+          name={topic.topic}
+          dataKey={(point: TimelinePoint) => point.topics[topic.topic] || 0}
+          stackId="topics"
+          fill={topic.color}
+          className="cursor-pointer"
+          onClick={(_, index) => onDrill({ topic: topic.topic, from: timeline[index].from, to: timeline[index].to })}
+        />
+      ))}
+    </BarChart>
+  </ResponsiveContainer>
+);
+
+export default VolumeChart;
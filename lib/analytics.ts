@@ -0,0 +1,646 @@
+import type { ArticleStore, Column, Filter, NewRow, NewsArticle, QueryOptions, TableName, Tables } from './store';
+import { categoryColor, getCategories } from './categories';
+import { findCompany, getArticleCompanies, getCompanies } from './companies';
+import { getWatchlists } from './watchlists';
+import { headlinePhrases, headlineWords } from './text';
+import { queryAll } from './store/paging';
+
+// Row shape of the topic_rollups table: articles per topic and UTC quarter
+// hour of publication. Every timezone's offset is a whole number of quarter
+// hours (India +5:30, Nepal +5:45), so any of them can be charted by day.
+export interface TopicRollup {
+  id: number;
+  /** `<bucket>|<topic>`, unique */
+  key: string;
+  /** Start of the UTC quarter hour */
+  bucket: string;
+  topic: string;
+  count: number;
+  /** Articles that lead their story cluster, i.e. distinct stories */
+  stories: number;
+  /** Sum and number of the sentiment scores of the scored articles */
+  sentiment_sum: number;
+  sentiment_count: number;
+  created_at: string;
+}
+
+// Row shape of the company_rollups table: articles per company and UTC quarter hour
+export interface CompanyRollup {
+  id: number;
+  /** `<bucket>|<company>`, unique */
+  key: string;
+  bucket: string;
+  company: string;
+  count: number;
+  sentiment_sum: number;
+  sentiment_count: number;
+  created_at: string;
+}
+
+// Row shape of the word_rollups table: headline word and two-word phrase
+// counts per UTC day
+export interface WordRollup {
+  id: number;
+  /** `<day>|<word>`, unique */
+  key: string;
+  /** YYYY-MM-DD */
+  day: string;
+  /** A word, or two words separated by a space */
+  word: string;
+  count: number;
+  created_at: string;
+}
+
+// Weeks start on Monday
+export type Granularity = 'day' | 'week' | 'month';
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+/** Calendar days, inclusive, in `timeZone` (an IANA zone name). */
+export interface AnalyticsWindow {
+  from: string;
+  to: string;
+  timeZone: string;
+  /** Bucket size of the timeline */
+  granularity: Granularity;
+}
+
+export interface TopicDistribution {
+  topic: string;
+  count: number;
+  percentage: number;
+  color: string;
+}
+
+export interface ArticlesByDate {
+  /** YYYY-MM-DD in the window's timezone */
+  date: string;
+  count: number;
+}
+
+export interface WordFrequency {
+  word: string;
+  count: number;
+}
+
+export interface TimelinePoint {
+  /** First day of the bucket (YYYY-MM-DD) */
+  bucket: string;
+  /** The bucket's days within the window, inclusive */
+  from: string;
+  to: string;
+  total: number;
+  /** Article counts keyed by topic */
+  topics: Record<string, number>;
+  /** Average sentiment of the bucket's scored articles; null when none are scored */
+  sentiment: number | null;
+  /** Average sentiment keyed by topic */
+  topicSentiment: Record<string, number>;
+  /** Average sentiment keyed by company, for the companies in `sentiment.byCompany` */
+  companySentiment: Record<string, number>;
+}
+
+export interface CompanyCount {
+  company: string;
+  count: number;
+}
+
+export interface TopicSentiment {
+  topic: string;
+  /** -1 (negative) to 1 (positive) */
+  average: number;
+  /** Articles with a score */
+  scored: number;
+}
+
+export interface CompanySentiment {
+  company: string;
+  average: number;
+  scored: number;
+  /**
+   * Average over the second half of the window minus the first half;
+   * negative when coverage is turning negative. Null when a half has no
+   * scored articles.
+   */
+  shift: number | null;
+  /** Named by an enabled watchlist */
+  watched: boolean;
+}
+
+export interface Analytics {
+  window: AnalyticsWindow;
+  /**
+   * Articles are stored but the rollups were never counted, e.g. right after
+   * applying the migration; POST /api/analytics/rollups counts them
+   */
+  rollupsMissing: boolean;
+  totals: {
+    /** Every stored article, regardless of the window */
+    articles: number;
+    inWindow: number;
+    /** Distinct stories in the window, counting a cluster once */
+    stories: number;
+    /** Articles published today in the window's timezone */
+    today: number;
+    topics: number;
+    lastIngestedAt: string | null;
+  };
+  topicDistribution: TopicDistribution[];
+  /** One entry per day of the window, oldest first, including empty days */
+  articlesByDate: ArticlesByDate[];
+  wordFrequency: WordFrequency[];
+  /** One point per bucket of the window's granularity, oldest first */
+  timeline: TimelinePoint[];
+  /** Most mentioned companies in the window */
+  companyRanking: CompanyCount[];
+  sentiment: {
+    /** Average over the window's scored articles */
+    average: number | null;
+    byTopic: TopicSentiment[];
+    /** Watched companies, then the most mentioned ones */
+    byCompany: CompanySentiment[];
+  };
+}
+
+export interface RollupRebuildResult {
+  articles: number;
+  topicRows: number;
+  companyRows: number;
+  wordRows: number;
+}
+
+export const DEFAULT_WINDOW_DAYS = 7;
+export const MAX_WINDOW_DAYS = 366;
+
+const TOP_WORDS = 10;
+const TOP_COMPANIES = 10;
+const INSERT_CHUNK = 500;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+type QueryParams = Partial<Record<string, string | string[]>>;
+
+/**
+ * Reads the window from `from` and `to` (YYYY-MM-DD), or from `days`
+ * ending today (default 7), in the `tz` timezone (default UTC). The
+ * timeline is bucketed by `granularity` (default day).
+ */
+export function parseAnalyticsWindow(params: QueryParams): { window?: AnalyticsWindow; error?: string } {
+  const param = (name: string) => {
+    const value = params[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  const timeZone = param('tz') || 'UTC';
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    return { error: 'tz must be an IANA time zone, e.g. Europe/Berlin' };
+  }
+
+  const granularity = (param('granularity') || 'day') as Granularity;
+  if (!GRANULARITIES.includes(granularity)) {
+    return { error: `granularity must be one of ${GRANULARITIES.join(', ')}` };
+  }
+
+  const from = param('from');
+  const to = param('to');
+  if (from || to) {
+    if (!from || !to || !isDay(from) || !isDay(to)) {
+      return { error: 'from and to must both be dates (YYYY-MM-DD)' };
+    }
+    const days = dayCount(from, to);
+    if (days < 1 || days > MAX_WINDOW_DAYS) {
+      return { error: `from must not be after to, and the window can span at most ${MAX_WINDOW_DAYS} days` };
+    }
+    return { window: { from, to, timeZone, granularity } };
+  }
+
+  const days = param('days') ? parseInt(param('days')!, 10) : DEFAULT_WINDOW_DAYS;
+  if (isNaN(days) || days < 1 || days > MAX_WINDOW_DAYS) {
+    return { error: `days must be between 1 and ${MAX_WINDOW_DAYS}` };
+  }
+
+  const today = dayFormatter(timeZone)(new Date());
+  return { window: { from: addDays(today, 1 - days), to: today, timeZone, granularity } };
+}
+
+/**
+ * Dashboard numbers for a window, read from the rollup tables rather than
+ * from the articles themselves. Word counts use UTC days and count each
+ * story's headline once.
+ */
+export async function getAnalytics(store: ArticleStore, window: AnalyticsWindow): Promise<Analytics> {
+  const [totalRows, latest, rollup] = await Promise.all([
+    store.aggregate('news_articles', { groupBy: [] }),
+    store.query('news_articles', { orderBy: [{ column: 'created_at', ascending: false }], limit: 1 }),
+    store.query('topic_rollups', { limit: 1 }),
+  ]);
+  const articles = totalRows.reduce((sum, row) => sum + row.count, 0);
+
+  const dayOf = dayFormatter(window.timeZone);
+  const today = dayOf(new Date());
+
+  const [buckets, todayBuckets, companyBuckets, words, categories, watched] = await Promise.all([
+    localBuckets(store, 'topic_rollups', window.from, window.to, dayOf),
+    localBuckets(store, 'topic_rollups', today, today, dayOf),
+    localBuckets(store, 'company_rollups', window.from, window.to, dayOf),
+    queryAll(store, 'word_rollups', {
+      filters: [
+        { column: 'day', op: 'gte', value: window.from },
+        { column: 'day', op: 'lte', value: window.to },
+      ],
+    }),
+    getCategories(store),
+    watchedCompanies(store),
+  ]);
+
+  const inWindow = sum(buckets);
+  const topicCounts = countBy(buckets, bucket => bucket.topic);
+  const dayCounts = countBy(buckets, bucket => bucket.day);
+  const companyCounts = countBy(companyBuckets, bucket => bucket.company);
+  const wordCounts = countBy(words.filter(row => !isPhrase(row.word)), row => row.word);
+
+  const topicDistribution = Object.keys(topicCounts)
+    .map(topic => ({
+      topic,
+      count: topicCounts[topic],
+      percentage: Math.round((topicCounts[topic] / inWindow) * 100),
+      color: categoryColor(topic, categories),
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  const articlesByDate: ArticlesByDate[] = [];
+  for (let date = window.from; date <= window.to; date = addDays(date, 1)) {
+    articlesByDate.push({ date, count: dayCounts[date] || 0 });
+  }
+
+  const wordFrequency = Object.keys(wordCounts)
+    .map(word => ({ word, count: wordCounts[word] }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, TOP_WORDS);
+
+  const companyRanking = Object.keys(companyCounts)
+    .map(company => ({ company, count: companyCounts[company] }))
+    .sort((a, b) => b.count - a.count || a.company.localeCompare(b.company))
+    .slice(0, TOP_COMPANIES);
+
+  // Sentiment is charted for watched companies and the most mentioned ones
+  const sentimentCompanies = watched
+    .concat(companyRanking.map(entry => entry.company))
+    .filter((company, index, all) => all.indexOf(company) === index && companyCounts[company]);
+  const trackedBuckets = companyBuckets.filter(bucket => sentimentCompanies.indexOf(bucket.company) !== -1);
+
+  const timeline: TimelinePoint[] = [];
+  const tallies: Record<string, BucketTallies> = {};
+  const pointFor = (day: string) => {
+    const bucket = bucketStart(day, window.granularity);
+    let point = timeline.find(p => p.bucket === bucket);
+    if (!point) {
+      point = { bucket, from: bucket, to: bucket, total: 0, topics: {}, sentiment: null, topicSentiment: {}, companySentiment: {} };
+      timeline.push(point);
+      tallies[bucket] = { all: newTally(), topics: {}, companies: {} };
+    }
+    return point;
+  };
+
+  buckets.forEach(row => {
+    const point = pointFor(row.day);
+    point.total += row.count;
+    point.topics[row.topic] = (point.topics[row.topic] || 0) + row.count;
+
+    const tally = tallies[point.bucket];
+    addTally(tally.all, row);
+    addTally((tally.topics[row.topic] = tally.topics[row.topic] || newTally()), row);
+  });
+  trackedBuckets.forEach(row => {
+    const tally = tallies[pointFor(row.day).bucket];
+    addTally((tally.companies[row.company] = tally.companies[row.company] || newTally()), row);
+  });
+  // Empty buckets are charted too
+  for (let date = window.from; date <= window.to; date = addDays(date, 1)) {
+    pointFor(date);
+  }
+  timeline.sort((a, b) => (a.bucket < b.bucket ? -1 : 1)).forEach(point => {
+    point.from = point.bucket < window.from ? window.from : point.bucket;
+    const last = addDays(nextBucket(point.bucket, window.granularity), -1);
+    point.to = last > window.to ? window.to : last;
+
+    const tally = tallies[point.bucket];
+    point.sentiment = average(tally.all);
+    point.topicSentiment = averages(tally.topics);
+    point.companySentiment = averages(tally.companies);
+  });
+
+  const topicTallies = tallyBy(buckets, row => row.topic);
+  const byTopic = topicDistribution
+    .filter(entry => topicTallies[entry.topic].count > 0)
+    .map(entry => ({ topic: entry.topic, average: average(topicTallies[entry.topic])!, scored: topicTallies[entry.topic].count }));
+
+  // Halves of the window, for the shift in each company's sentiment
+  const middle = addDays(window.from, Math.floor(dayCount(window.from, window.to) / 2));
+  const companyTallies = tallyBy(trackedBuckets, row => row.company);
+  const earlier = tallyBy(trackedBuckets.filter(row => row.day < middle), row => row.company);
+  const later = tallyBy(trackedBuckets.filter(row => row.day >= middle), row => row.company);
+  const byCompany = sentimentCompanies
+    .filter(company => companyTallies[company].count > 0)
+    .map(company => {
+      const before = average(earlier[company]);
+      const after = average(later[company]);
+      return {
+        company,
+        average: average(companyTallies[company])!,
+        scored: companyTallies[company].count,
+        shift: before === null || after === null ? null : Math.round((after - before) * 1000) / 1000,
+        watched: watched.indexOf(company) !== -1,
+      };
+    });
+
+  return {
+    window,
+    rollupsMissing: articles > 0 && rollup.length === 0,
+    totals: {
+      articles,
+      inWindow,
+      stories: buckets.reduce((total, bucket) => total + (bucket.stories || 0), 0),
+      today: sum(todayBuckets),
+      topics: topicDistribution.length,
+      lastIngestedAt: latest[0]?.created_at || null,
+    },
+    topicDistribution,
+    articlesByDate,
+    wordFrequency,
+    timeline,
+    companyRanking,
+    sentiment: {
+      average: average(tallyBy(buckets, () => 'all').all),
+      byTopic,
+      byCompany,
+    },
+  };
+}
+
+/**
+ * Recounts the rollups for the UTC days of the given articles, typically
+ * the ones a scrape just stored. The new counts are upserted before rows
+ * that no longer count anything are removed, so a failure leaves the
+ * earlier counts in place rather than an empty day.
+ */
+export async function updateRollups(store: ArticleStore, articles: Pick<NewsArticle, 'published_date'>[]): Promise<void> {
+  const days = articles
+    .filter(article => article.published_date)
+    .map(article => utcQuarterHour(article.published_date).slice(0, 10))
+    .filter((day, index, all) => all.indexOf(day) === index);
+
+  for (const day of days) {
+    const next = addDays(day, 1);
+    const rows = await queryAll(store, 'news_articles', {
+      filters: [
+        { column: 'published_date', op: 'gte', value: `${day}T00:00:00.000Z` },
+        { column: 'published_date', op: 'lt', value: `${next}T00:00:00.000Z` },
+      ],
+    });
+    const saved = await saveRollups(store, rows);
+
+    const hours = [
+      { column: 'bucket' as const, op: 'gte' as const, value: `${day}T00:00:00.000Z` },
+      { column: 'bucket' as const, op: 'lt' as const, value: `${next}T00:00:00.000Z` },
+    ];
+    await pruneRollups(store, 'topic_rollups', hours, saved.topics);
+    await pruneRollups(store, 'company_rollups', hours, saved.companies);
+    await pruneRollups(store, 'word_rollups', [{ column: 'day', op: 'eq', value: day }], saved.words);
+  }
+}
+
+/**
+ * Recounts every rollup from the stored articles, e.g. after recategorizing
+ * or relinking. Like updateRollups, it never empties the tables on the way.
+ */
+export async function rebuildRollups(store: ArticleStore): Promise<RollupRebuildResult> {
+  const articles = await queryAll(store, 'news_articles', {});
+  const saved = await saveRollups(store, articles);
+
+  await pruneRollups(store, 'topic_rollups', [], saved.topics);
+  await pruneRollups(store, 'company_rollups', [], saved.companies);
+  await pruneRollups(store, 'word_rollups', [], saved.words);
+
+  return { articles: articles.length, topicRows: saved.topics.length, companyRows: saved.companies.length, wordRows: saved.words.length };
+}
+
+// Upserts the rollups of the given articles on their keys; resolves to the keys written
+async function saveRollups(
+  store: ArticleStore,
+  articles: NewsArticle[]
+): Promise<{ topics: string[]; companies: string[]; words: string[] }> {
+  const dated = articles.filter(article => article.published_date);
+  const topics: Record<string, NewRow<'topic_rollups'>> = {};
+  const companies: Record<string, NewRow<'company_rollups'>> = {};
+  const words: Record<string, NewRow<'word_rollups'>> = {};
+
+  const articleCompanies: Record<number, string[]> = {};
+  for (let i = 0; i < dated.length; i += INSERT_CHUNK) {
+    const ids = dated.slice(i, i + INSERT_CHUNK).map(article => article.id);
+    Object.assign(articleCompanies, await getArticleCompanies(store, ids));
+  }
+
+  dated.forEach(article => {
+    const bucket = utcQuarterHour(article.published_date);
+    const topicKey = `${bucket}|${article.topic}`;
+    const topic = (topics[topicKey] = topics[topicKey] || {
+      key: topicKey, bucket, topic: article.topic, count: 0, stories: 0, sentiment_sum: 0, sentiment_count: 0,
+    });
+    topic.count++;
+    addSentiment(topic, article.sentiment);
+
+    // Other outlets' versions of a story would count its words again
+    const leadsStory = article.cluster_id === null || article.cluster_id === article.id;
+    if (leadsStory) topic.stories++;
+
+    (articleCompanies[article.id] || []).forEach(company => {
+      const companyKey = `${bucket}|${company}`;
+      const row = (companies[companyKey] = companies[companyKey] || {
+        key: companyKey, bucket, company, count: 0, sentiment_sum: 0, sentiment_count: 0,
+      });
+      row.count++;
+      addSentiment(row, article.sentiment);
+    });
+
+    const day = bucket.slice(0, 10);
+    (leadsStory ? headlineWords(article.title).concat(headlinePhrases(article.title)) : []).forEach(word => {
+      const wordKey = `${day}|${word}`;
+      (words[wordKey] = words[wordKey] || { key: wordKey, day, word, count: 0 }).count++;
+    });
+  });
+
+  const topicRows = Object.keys(topics).map(key => topics[key]);
+  const companyRows = Object.keys(companies).map(key => companies[key]);
+  const wordRows = Object.keys(words).map(key => words[key]);
+  for (let i = 0; i < topicRows.length; i += INSERT_CHUNK) {
+    await store.upsert('topic_rollups', topicRows.slice(i, i + INSERT_CHUNK), { onConflict: 'key' });
+  }
+  for (let i = 0; i < companyRows.length; i += INSERT_CHUNK) {
+    await store.upsert('company_rollups', companyRows.slice(i, i + INSERT_CHUNK), { onConflict: 'key' });
+  }
+  for (let i = 0; i < wordRows.length; i += INSERT_CHUNK) {
+    await store.upsert('word_rollups', wordRows.slice(i, i + INSERT_CHUNK), { onConflict: 'key' });
+  }
+
+  return { topics: Object.keys(topics), companies: Object.keys(companies), words: Object.keys(words) };
+}
+
+// Deletes the rollups matching `filters` whose key was not just saved
+async function pruneRollups<K extends 'topic_rollups' | 'company_rollups' | 'word_rollups'>(
+  store: ArticleStore,
+  table: K,
+  filters: Filter<K>[],
+  saved: string[]
+): Promise<void> {
+  const keep = new Set(saved);
+  const stale = (await queryAll(store, table, { filters }))
+    .filter(row => !keep.has(row.key))
+    .map(row => row.id);
+
+  for (let i = 0; i < stale.length; i += INSERT_CHUNK) {
+    await store.delete(table, [{ column: 'id' as Column<K>, op: 'in', value: stale.slice(i, i + INSERT_CHUNK) }]);
+  }
+}
+
+// Quarter-hour rollups for the local days from..to, tagged with their local day.
+// A local day lies within a day of the same UTC date, whatever the offset.
+async function localBuckets<K extends 'topic_rollups' | 'company_rollups'>(
+  store: ArticleStore,
+  table: K,
+  from: string,
+  to: string,
+  dayOf: (date: Date) => string
+): Promise<(Tables[K] & { day: string })[]> {
+  const rows = await queryAll(store, table, {
+    filters: [
+      { column: 'bucket' as Column<K>, op: 'gte', value: `${addDays(from, -1)}T00:00:00.000Z` },
+      { column: 'bucket' as Column<K>, op: 'lt', value: `${addDays(to, 2)}T00:00:00.000Z` },
+    ],
+  });
+
+  return rows
+    .map(row => ({ ...row, day: dayOf(new Date(row.bucket)) }))
+    .filter(row => row.day >= from && row.day <= to);
+}
+
+/** Canonical names of the companies enabled watchlists include. */
+export async function watchedCompanies(store: ArticleStore): Promise<string[]> {
+  const [watchlists, companies] = await Promise.all([getWatchlists(store), getCompanies(store)]);
+  return watchlists
+    .filter(watchlist => watchlist.enabled)
+    .reduce((names, watchlist) => names.concat(watchlist.include.companies), [] as string[])
+    .map(term => findCompany(companies, term)?.name)
+    .filter((name, index, all): name is string => !!name && all.indexOf(name) === index);
+}
+
+interface Tally {
+  sum: number;
+  count: number;
+}
+
+interface BucketTallies {
+  all: Tally;
+  topics: Record<string, Tally>;
+  companies: Record<string, Tally>;
+}
+
+function newTally(): Tally {
+  return { sum: 0, count: 0 };
+}
+
+function addTally(tally: Tally, row: { sentiment_sum?: number; sentiment_count?: number }): void {
+  // Rollups written before sentiment existed have neither column
+  tally.sum += row.sentiment_sum || 0;
+  tally.count += row.sentiment_count || 0;
+}
+
+function addSentiment(row: { sentiment_sum: number; sentiment_count: number }, sentiment: number | null): void {
+  if (sentiment === null || sentiment === undefined) return;
+  row.sentiment_sum += sentiment;
+  row.sentiment_count++;
+}
+
+function tallyBy<T extends { sentiment_sum?: number; sentiment_count?: number }>(
+  rows: T[],
+  key: (row: T) => string
+): Record<string, Tally> {
+  return rows.reduce((tallies, row) => {
+    addTally((tallies[key(row)] = tallies[key(row)] || newTally()), row);
+    return tallies;
+  }, {} as Record<string, Tally>);
+}
+
+function average(tally?: Tally): number | null {
+  return tally && tally.count > 0 ? Math.round((tally.sum / tally.count) * 1000) / 1000 : null;
+}
+
+function averages(tallies: Record<string, Tally>): Record<string, number> {
+  const result: Record<string, number> = {};
+  Object.keys(tallies).forEach(key => {
+    const value = average(tallies[key]);
+    if (value !== null) result[key] = value;
+  });
+  return result;
+}
+
+/** Whether a word_rollups term is a two-word phrase rather than a word. */
+export function isPhrase(term: string): boolean {
+  return term.indexOf(' ') !== -1;
+}
+
+function countBy<T extends { count: number }>(rows: T[], key: (row: T) => string): Record<string, number> {
+  return rows.reduce((counts, row) => {
+    counts[key(row)] = (counts[key(row)] || 0) + row.count;
+    return counts;
+  }, {} as Record<string, number>);
+}
+
+function sum(rows: { count: number }[]): number {
+  return rows.reduce((total, row) => total + row.count, 0);
+}
+
+function utcQuarterHour(timestamp: string): string {
+  const date = new Date(timestamp);
+  date.setUTCMinutes(date.getUTCMinutes() - (date.getUTCMinutes() % 15), 0, 0);
+  return date.toISOString();
+}
+
+// en-CA formats dates as YYYY-MM-DD
+function dayFormatter(timeZone: string): (date: Date) => string {
+  const format = new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' });
+  return date => format.format(date);
+}
+
+function bucketStart(day: string, granularity: Granularity): string {
+  if (granularity === 'month') return `${day.slice(0, 7)}-01`;
+  if (granularity === 'week') {
+    const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+    return addDays(day, -((weekday + 6) % 7));
+  }
+  return day;
+}
+
+function nextBucket(bucket: string, granularity: Granularity): string {
+  if (granularity === 'month') {
+    const [year, month] = bucket.split('-').map(Number);
+    return new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 10);
+  }
+  return addDays(bucket, granularity === 'week' ? 7 : 1);
+}
+
+/** The YYYY-MM-DD day `days` days after `day` (before, when negative). */
+export function addDays(day: string, days: number): string {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().slice(0, 10);
+}
+
+function dayCount(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000) + 1;
+}
+
+// Rejects impossible dates such as 2026-02-31
+function isDay(value: string): boolean {
+  return DAY_PATTERN.test(value) && addDays(value, 0) === value;
+}
@@ -0,0 +1,277 @@
+import type { ArticleStore, Column, Filter, NewsArticle } from './store';
+import { companyArticlesFilter, findCompany, getArticleCompanies, getCompanies } from './companies';
+
+// published: by the article's publish date; ingested: by when it was stored
+export type ArticleSort = 'published' | 'ingested';
+
+export interface ArticleQuery {
+  topic?: string;
+  /** Company name or alias */
+  company?: string;
+  source?: string;
+  /** Inclusive lower bound on the sort date (ISO timestamp) */
+  from?: string;
+  /** Exclusive upper bound on the sort date (ISO timestamp) */
+  to?: string;
+  /** Words that must all appear in the headline */
+  q?: string;
+  sort: ArticleSort;
+  limit: number;
+  /** Opaque position returned as `nextCursor` by the previous page */
+  cursor?: string;
+}
+
+export interface ListedArticle extends NewsArticle {
+  companies: string[];
+}
+
+export interface ArticlePage {
+  articles: ListedArticle[];
+  /** Pass back as `cursor` for the next page; null on the last page */
+  nextCursor: string | null;
+  /** Articles matching the filters, across all pages */
+  total: number;
+}
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+const SORT_COLUMNS: Record<ArticleSort, Column<'news_articles'>> = {
+  published: 'published_date',
+  ingested: 'created_at',
+};
+
+type QueryParams = Partial<Record<string, string | string[]>>;
+
+/**
+ * Reads an ArticleQuery from request query parameters. Date-only `to`
+ * values include the whole day.
+ */
+export function parseArticleQuery(params: QueryParams): { query?: ArticleQuery; error?: string } {
+  const param = (name: string) => {
+    const value = params[name];
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+  };
+
+  const sort = param('sort') || 'published';
+  if (sort !== 'published' && sort !== 'ingested') {
+    return { error: 'sort must be published or ingested' };
+  }
+
+  const limit = param('limit') ? parseInt(param('limit')!, 10) : DEFAULT_PAGE_SIZE;
+  if (isNaN(limit) || limit <= 0 || limit > MAX_PAGE_SIZE) {
+    return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+  }
+
+  const from = toTimestamp(param('from'), false);
+  const to = toTimestamp(param('to'), true);
+  if (from === null || to === null) {
+    return { error: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps' };
+  }
+
+  const cursor = param('cursor');
+  if (cursor && !decodeCursor(cursor)) {
+    return { error: 'Invalid cursor' };
+  }
+
+  return {
+    query: {
+      topic: param('topic'),
+      company: param('company'),
+      source: param('source'),
+      from,
+      to,
+      q: param('q'),
+      sort,
+      limit,
+      cursor,
+    },
+  };
+}
+
+/**
+ * One page of stored articles, newest first, with their companies.
+ * Resolves to an error message when the company doesn't exist.
+ */
+export async function listArticles(
+  store: ArticleStore,
+  query: ArticleQuery
+): Promise<{ page?: ArticlePage; error?: string }> {
+  const column = SORT_COLUMNS[query.sort];
+  const { where, error } = await articleFilters(store, query);
+  if (!where) return { error };
+
+  const [rows, totals] = await Promise.all([
+    fetchAfter(store, where, column, query.cursor ? decodeCursor(query.cursor) : undefined, query.limit + 1),
+    store.aggregate('news_articles', { filters: where, groupBy: [] }),
+  ]);
+
+  const pageRows = rows.slice(0, query.limit);
+  const companiesById = await getArticleCompanies(store, pageRows.map(row => row.id));
+  const last = pageRows[pageRows.length - 1];
+
+  return {
+    page: {
+      articles: pageRows.map(row => ({ ...row, companies: companiesById[row.id] || [] })),
+      nextCursor: rows.length > query.limit ? encodeCursor([last[column] as string, last.id]) : null,
+      total: totals.reduce((sum, row) => sum + row.count, 0),
+    },
+  };
+}
+
+/**
+ * Reads every article matching the query's filters, in the same order as
+ * listArticles, `batchSize` at a time; `limit` and `cursor` don't apply.
+ * Each call of `next` resolves to the following batch, and to an empty
+ * one after the last. Resolves to an error message when the company
+ * doesn't exist.
+ */
+export async function scanArticles(
+  store: ArticleStore,
+  query: ArticleQuery,
+  batchSize = MAX_PAGE_SIZE
+): Promise<{ next?: () => Promise<ListedArticle[]>; error?: string }> {
+  const column = SORT_COLUMNS[query.sort];
+  const { where, error } = await articleFilters(store, query);
+  if (!where) return { error };
+
+  let position: [string, number] | undefined;
+  let done = false;
+  const next = async (): Promise<ListedArticle[]> => {
+    if (done) return [];
+
+    const rows = await fetchAfter(store, where, column, position, batchSize);
+    done = rows.length < batchSize;
+    if (rows.length === 0) return [];
+
+    const last = rows[rows.length - 1];
+    position = [last[column] as string, last.id];
+    const companiesById = await getArticleCompanies(store, rows.map(row => row.id));
+    return rows.map(row => ({ ...row, companies: companiesById[row.id] || [] }));
+  };
+  return { next };
+}
+
+/** Id of the most recently stored article; 0 when there are none. */
+export async function latestArticleId(store: ArticleStore): Promise<number> {
+  const [latest] = await store.query('news_articles', { orderBy: [{ column: 'id', ascending: false }], limit: 1 });
+  return latest ? latest.id : 0;
+}
+
+/**
+ * Articles stored after the one with id `afterId` that match the query's
+ * filters, oldest first, at most `limit`. Ids only grow, so passing the
+ * last id back follows new articles as they are ingested; `sort`,
+ * `limit` and `cursor` don't apply. Resolves to an error message when the
+ * company doesn't exist.
+ */
+export async function listNewArticles(
+  store: ArticleStore,
+  query: ArticleQuery,
+  afterId: number,
+  limit = MAX_PAGE_SIZE
+): Promise<{ articles?: ListedArticle[]; error?: string }> {
+  const { where, error } = await articleFilters(store, query);
+  if (!where) return { error };
+
+  const rows = await store.query('news_articles', {
+    filters: where.concat([{ column: 'id', op: 'gt', value: afterId }]),
+    orderBy: [{ column: 'id', ascending: true }],
+    limit,
+  });
+  const companiesById = await getArticleCompanies(store, rows.map(row => row.id));
+  return { articles: rows.map(row => ({ ...row, companies: companiesById[row.id] || [] })) };
+}
+
+async function articleFilters(
+  store: ArticleStore,
+  query: ArticleQuery
+): Promise<{ where?: Filter<'news_articles'>[]; error?: string }> {
+  const column = SORT_COLUMNS[query.sort];
+  const where: Filter<'news_articles'>[] = [];
+
+  if (query.topic) where.push({ column: 'topic', op: 'eq', value: query.topic });
+  if (query.source) where.push({ column: 'source', op: 'eq', value: query.source });
+  if (query.from) where.push({ column, op: 'gte', value: query.from });
+  if (query.to) where.push({ column, op: 'lt', value: query.to });
+
+  (query.q || '').split(/\s+/).filter(Boolean).forEach(word => {
+    where.push({ column: 'title', op: 'ilike', value: `%${word}%` });
+  });
+
+  if (query.company) {
+    const company = findCompany(await getCompanies(store), query.company);
+    if (!company) return { error: `Unknown company: ${query.company}` };
+
+    where.push(companyArticlesFilter(company.id));
+  }
+
+  return { where };
+}
+
+// Keyset pagination over (sort column, id), both descending. The store only
+// ANDs filters, so the rows sharing the cursor's date and the rows before
+// it are fetched separately.
+async function fetchAfter(
+  store: ArticleStore,
+  where: Filter<'news_articles'>[],
+  column: Column<'news_articles'>,
+  cursor: [string, number] | undefined,
+  limit: number
+): Promise<NewsArticle[]> {
+  const orderBy = [
+    { column, ascending: false },
+    { column: 'id' as const, ascending: false },
+  ];
+
+  if (!cursor) {
+    return store.query('news_articles', { filters: where, orderBy, limit });
+  }
+
+  const [value, id] = cursor;
+  const ties = await store.query('news_articles', {
+    filters: where.concat([
+      { column, op: 'eq', value },
+      { column: 'id', op: 'lt', value: id },
+    ]),
+    orderBy,
+    limit,
+  });
+  if (ties.length >= limit) return ties;
+
+  const older = await store.query('news_articles', {
+    filters: where.concat([{ column, op: 'lt', value }]),
+    orderBy,
+    limit: limit - ties.length,
+  });
+  return ties.concat(older);
+}
+
+function encodeCursor(position: [string, number]): string {
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [string, number] | undefined {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Array.isArray(position) && typeof position[0] === 'string' && Number.isInteger(position[1])) {
+      return [position[0], position[1]];
+    }
+  } catch {
+    // Fall through: not a cursor we issued
+  }
+  return undefined;
+}
+
+// undefined when absent, null when unparseable
+function toTimestamp(value: string | undefined, endOfDay: boolean): string | undefined | null {
+  if (!value) return undefined;
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+
+  if (endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString();
+}
@@ -0,0 +1,337 @@
+import crypto from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore, type ArticleStore } from './store';
+import { createRateLimiter } from './rateLimit';
+import { ROLES, hasRole, type Role } from './roles';
+
+export { ROLES, hasRole, type Role };
+
+// Row shape of the users table
+export interface User {
+  id: number;
+  /** Lowercased, unique */
+  email: string;
+  /** scrypt:<salt>:<hash>, both hex */
+  password_hash: string;
+  role: Role;
+  disabled: boolean;
+  created_at: string;
+}
+
+export type PublicUser = Omit<User, 'password_hash'>;
+
+// Row shape of the api_keys table. Only a hash of the key is stored; the
+// key itself is shown once, when it is created.
+export interface ApiKey {
+  id: number;
+  name: string;
+  /** The key's first characters, to tell keys apart */
+  prefix: string;
+  /** SHA-256 of the key, hex */
+  key_hash: string;
+  role: Role;
+  /** Requests per minute; null uses API_KEY_RATE_LIMIT */
+  rate_limit: number | null;
+  last_used_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type PublicApiKey = Omit<ApiKey, 'key_hash'>;
+
+/** Who is making a request. */
+export interface Principal {
+  kind: 'user' | 'api_key' | 'anonymous';
+  /** The user's or key's id; null when authentication is off */
+  id: number | null;
+  /** Email of the user, or name of the key */
+  name: string;
+  role: Role;
+  /** Requests per minute, for API keys */
+  rateLimit?: number;
+}
+
+export type AuthErrorCode = 'unauthenticated' | 'forbidden' | 'too_many_requests' | 'config' | 'db';
+
+export const SESSION_COOKIE = 'nm_session';
+const SESSION_TTL_SECONDS = 7 * 24 * 3600;
+const KEY_PREFIX = 'nm_';
+const PREFIX_LENGTH = 11;
+const MIN_PASSWORD_LENGTH = 8;
+const MAX_RATE_LIMIT = 10000;
+// last_used_at is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60000;
+
+const limiter = createRateLimiter({ windowMs: 60000 });
+// Failed sign-ins allowed per 15 minutes from one address, and from one
+// address for one email. Never per email alone, or anyone could lock an
+// account out by guessing its password from elsewhere.
+const MAX_FAILED_LOGINS_PER_ADDRESS = 20;
+const MAX_FAILED_LOGINS_PER_ACCOUNT = 5;
+const loginLimiter = createRateLimiter({ windowMs: 15 * 60000 });
+
+/** False only with AUTH_DISABLED=true, which lets every request in as an admin. */
+export function authEnabled(): boolean {
+  return process.env.AUTH_DISABLED !== 'true';
+}
+
+export function hashPassword(password: string): string {
+  const salt = crypto.randomBytes(16);
+  return `scrypt:${salt.toString('hex')}:${crypto.scryptSync(password, salt, 64).toString('hex')}`;
+}
+
+export function verifyPassword(password: string, stored: string): boolean {
+  const [scheme, salt, hash] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, Buffer.from(salt, 'hex'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+/** A new API key, and the prefix and hash to store for it. */
+export function generateApiKey(): { key: string; prefix: string; key_hash: string } {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('hex')}`;
+  return { key, prefix: key.slice(0, PREFIX_LENGTH), key_hash: hashKey(key) };
+}
+
+export function toPublicUser({ password_hash, ...user }: User): PublicUser {
+  return user;
+}
+
+export function toPublicApiKey({ key_hash, ...key }: ApiKey): PublicApiKey {
+  return key;
+}
+
+/**
+ * Checks the email and password of a sign-in. The account named by
+ * ADMIN_EMAIL and ADMIN_PASSWORD is created as an admin on its first
+ * sign-in, so a new deployment has someone to invite the others.
+ */
+export async function signIn(store: ArticleStore, email: string, password: string): Promise<User | undefined> {
+  const normalized = email.trim().toLowerCase();
+  const [user] = await store.query('users', { filters: [{ column: 'email', op: 'eq', value: normalized }] });
+  if (user) {
+    return !user.disabled && verifyPassword(password, user.password_hash) ? user : undefined;
+  }
+
+  const adminEmail = process.env.ADMIN_EMAIL?.trim().toLowerCase();
+  const adminPassword = process.env.ADMIN_PASSWORD;
+  if (!adminEmail || !adminPassword || normalized !== adminEmail || !safeEqual(password, adminPassword)) {
+    return undefined;
+  }
+
+  const [created] = await store.insert('users', [{
+    email: normalized,
+    password_hash: hashPassword(password),
+    role: 'admin',
+    disabled: false,
+  }]);
+  return created;
+}
+
+/** Set-Cookie value that signs `user` in, or out when no user is given. */
+export function sessionCookie(user?: User): string {
+  const secure = process.env.NODE_ENV === 'production' ? '; Secure' : '';
+  if (!user) {
+    return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0${secure}`;
+  }
+
+  const payload = `${user.id}.${Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS}`;
+  return `${SESSION_COOKIE}=${payload}.${sign(payload)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_TTL_SECONDS}${secure}`;
+}
+
+/**
+ * Identifies the caller from an `Authorization: Bearer <api key>` header or
+ * the session cookie. With `allowQueryKey` the key may also come as `?key=`,
+ * for clients such as feed readers that cannot send headers. Resolves to
+ * undefined for anonymous callers and unknown, revoked or disabled
+ * credentials.
+ */
+export async function authenticate(
+  req: NextApiRequest,
+  store: ArticleStore,
+  { allowQueryKey = false }: { allowQueryKey?: boolean } = {}
+): Promise<Principal | undefined> {
+  if (!authEnabled()) {
+    return { kind: 'anonymous', id: null, name: 'anonymous', role: 'admin' };
+  }
+
+  const bearer = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const key = bearer || (allowQueryKey && typeof req.query.key === 'string' ? req.query.key : undefined);
+  if (key) {
+    const [apiKey] = await store.query('api_keys', { filters: [{ column: 'key_hash', op: 'eq', value: hashKey(key) }] });
+    if (!apiKey || apiKey.revoked_at) return undefined;
+
+    if (!apiKey.last_used_at || Date.now() - new Date(apiKey.last_used_at).getTime() >= LAST_USED_RESOLUTION_MS) {
+      await store.update('api_keys', [{ column: 'id', op: 'eq', value: apiKey.id }], { last_used_at: new Date().toISOString() });
+    }
+    return { kind: 'api_key', id: apiKey.id, name: apiKey.name, role: apiKey.role, rateLimit: apiKey.rate_limit || defaultRateLimit() };
+  }
+
+  const userId = readSession(req.cookies[SESSION_COOKIE]);
+  if (userId === undefined) return undefined;
+
+  const [user] = await store.query('users', { filters: [{ column: 'id', op: 'eq', value: userId }] });
+  if (!user || user.disabled) return undefined;
+  return { kind: 'user', id: user.id, name: user.email, role: user.role };
+}
+
+/**
+ * Lets the request through when its caller has at least `role`, and
+ * answers it otherwise: 401 without valid credentials, 403 for a role too
+ * low and 429 once an API key has used up its requests for the minute.
+ * Route handlers return straight away when this resolves to undefined.
+ */
+export async function authorize(
+  req: NextApiRequest,
+  res: NextApiResponse,
+  role: Role,
+  options: { allowQueryKey?: boolean } = {}
+): Promise<Principal | undefined> {
+  if (authEnabled() && !process.env.AUTH_SECRET) {
+    res.status(500).json({
+      success: false,
+      error: 'Authentication not configured. Please add AUTH_SECRET to your environment variables, or set AUTH_DISABLED=true for local development.',
+      errorCode: 'config',
+    });
+    return undefined;
+  }
+
+  let principal: Principal | undefined;
+  try {
+    principal = await authenticate(req, getStore(), options);
+  } catch (error: any) {
+    console.error('Auth Error:', error.message);
+    res.status(500).json({ success: false, error: `Database error: ${error.message}`, errorCode: 'db' });
+    return undefined;
+  }
+
+  if (!principal) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+    res.status(401).json({ success: false, error: 'Sign in or send an API key to use this endpoint', errorCode: 'unauthenticated' });
+    return undefined;
+  }
+
+  if (!hasRole(principal.role, role)) {
+    res.status(403).json({ success: false, error: `This needs the ${role} role; ${principal.name} is a ${principal.role}`, errorCode: 'forbidden' });
+    return undefined;
+  }
+
+  if (principal.rateLimit) {
+    const { allowed, limit, remaining, resetAt } = limiter.take(String(principal.id), principal.rateLimit);
+    res.setHeader('X-RateLimit-Limit', String(limit));
+    res.setHeader('X-RateLimit-Remaining', String(remaining));
+    res.setHeader('X-RateLimit-Reset', String(Math.ceil(resetAt / 1000)));
+    if (!allowed) {
+      const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({ success: false, error: `Rate limit of ${limit} requests per minute exceeded. Retry in ${retryAfter}s`, errorCode: 'too_many_requests' });
+      return undefined;
+    }
+  }
+
+  return principal;
+}
+
+/**
+ * Seconds until the next sign-in may be tried, once too many have failed
+ * from the client's address, or from it for the email; undefined while
+ * allowed.
+ */
+export function loginRetryAfter(req: NextApiRequest, email: string): number | undefined {
+  const blocked = loginKeys(req, email)
+    .map(([key, limit]) => loginLimiter.peek(key, limit))
+    .filter(result => !result.allowed);
+  if (blocked.length === 0) return undefined;
+
+  const resetAt = Math.max(...blocked.map(result => result.resetAt));
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+export function recordFailedLogin(req: NextApiRequest, email: string): void {
+  loginKeys(req, email).forEach(([key, limit]) => loginLimiter.take(key, limit));
+}
+
+/** Checks a user submitted by an admin. On update, an omitted password keeps the current one. */
+export function validateUser(
+  input: any,
+  current?: User
+): { user?: Omit<User, 'id' | 'created_at'>; error?: string } {
+  const email = typeof input?.email === 'string' ? input.email.trim().toLowerCase() : current?.email || '';
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) {
+    return { error: 'email must be an email address' };
+  }
+
+  const role = input?.role ?? current?.role;
+  if (ROLES.indexOf(role) === -1) {
+    return { error: `role must be one of ${ROLES.join(', ')}` };
+  }
+
+  let passwordHash = current?.password_hash;
+  if (input?.password !== undefined || !current) {
+    if (typeof input?.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+      return { error: `password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+    }
+    passwordHash = hashPassword(input.password);
+  }
+
+  return { user: { email, password_hash: passwordHash!, role, disabled: input?.disabled ?? current?.disabled ?? false } };
+}
+
+/** Checks an API key definition submitted by an admin. */
+export function validateApiKey(input: any): { apiKey?: Pick<ApiKey, 'name' | 'role' | 'rate_limit'>; error?: string } {
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+
+  const role = input.role || 'viewer';
+  if (ROLES.indexOf(role) === -1) {
+    return { error: `role must be one of ${ROLES.join(', ')}` };
+  }
+
+  const rateLimit = input.rate_limit === undefined || input.rate_limit === null || input.rate_limit === '' ? null : Number(input.rate_limit);
+  if (rateLimit !== null && (!Number.isInteger(rateLimit) || rateLimit < 1 || rateLimit > MAX_RATE_LIMIT)) {
+    return { error: `rate_limit must be a whole number of requests per minute from 1 to ${MAX_RATE_LIMIT}` };
+  }
+
+  return { apiKey: { name, role, rate_limit: rateLimit } };
+}
+
+function defaultRateLimit(): number {
+  const value = Number(process.env.API_KEY_RATE_LIMIT);
+  return value > 0 ? value : 60;
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// Session cookies are "<user id>.<expiry in s>.<signature>"
+function sign(payload: string): string {
+  return crypto.createHmac('sha256', process.env.AUTH_SECRET || '').update(payload).digest('hex');
+}
+
+function readSession(cookie: string | undefined): number | undefined {
+  const [id, expires, signature] = (cookie || '').split('.');
+  if (!id || !expires || !signature || !safeEqual(signature, sign(`${id}.${expires}`))) return undefined;
+  if (Number(expires) * 1000 < Date.now()) return undefined;
+  return Number(id);
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// Behind Vercel's proxy the client is the first X-Forwarded-For entry
+function loginKeys(req: NextApiRequest, email: string): [string, number][] {
+  const forwarded = String(req.headers['x-forwarded-for'] || '').split(',')[0].trim();
+  const address = forwarded || req.socket.remoteAddress || 'unknown';
+  return [
+    [`address:${address}`, MAX_FAILED_LOGINS_PER_ADDRESS],
+    [`account:${address}|${email.trim().toLowerCase()}`, MAX_FAILED_LOGINS_PER_ACCOUNT],
+  ];
+}
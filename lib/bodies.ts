@@ -0,0 +1,218 @@
+import type { ArticleStore, NewsArticle } from './store';
+import { FirecrawlError, type FirecrawlClient, type FirecrawlUsage } from './firecrawl';
+import { normalizeUrl } from './dedupe';
+import { summarize } from './summary';
+import { articleSentiment } from './sentiment';
+import { updateRollups } from './analytics';
+import { checkBudget, recordUsage } from './usage';
+
+export type BodyStatus = 'pending' | 'fetched' | 'failed';
+
+// Row shape of the article_bodies table: one fetched article page per URL,
+// which doubles as the cache that keeps a URL from being fetched twice
+export interface ArticleBody {
+  id: number;
+  /** Normalized article URL, unique */
+  url: string;
+  status: BodyStatus;
+  markdown: string | null;
+  summary: string | null;
+  word_count: number | null;
+  reading_minutes: number | null;
+  attempts: number;
+  error: string | null;
+  fetched_at: string | null;
+  created_at: string;
+}
+
+// What lists of articles need; the markdown is only read one article at a time
+export type ArticleSummary = Omit<ArticleBody, 'markdown'>;
+
+export interface BodyFetchResult {
+  fetched: number;
+  failed: number;
+  /** Still pending after this run */
+  remaining: number;
+  /** Why nothing was fetched, when the FireCrawl credit budget is used up */
+  budgetExceeded?: string;
+}
+
+const MAX_ATTEMPTS = 3;
+// Errors that say nothing about the page itself; the fetch is retried later
+// without using up an attempt
+const TRANSIENT_CODES = ['auth', 'rate_limited', 'circuit_open'];
+
+/** Whether the body stage is on (FETCH_ARTICLE_BODIES=true). */
+export function bodiesEnabled(): boolean {
+  return process.env.FETCH_ARTICLE_BODIES === 'true';
+}
+
+/**
+ * Queues the pages of newly stored articles for fetching. Articles without
+ * a URL of their own, and URLs already queued or fetched, are skipped.
+ * Resolves to the number queued.
+ */
+export async function queueArticleBodies(
+  store: ArticleStore,
+  articles: Pick<NewsArticle, 'url'>[]
+): Promise<number> {
+  const urls = articles
+    .filter(article => article.url)
+    .map(article => normalizeUrl(article.url!))
+    .filter((url, index, all): url is string => !!url && all.indexOf(url) === index);
+  if (urls.length === 0) return 0;
+
+  const queued = await store.upsert('article_bodies', urls.map(url => ({
+    url,
+    status: 'pending' as const,
+    markdown: null,
+    summary: null,
+    word_count: null,
+    reading_minutes: null,
+    attempts: 0,
+    error: null,
+    fetched_at: null,
+  })), { onConflict: 'url', ignoreDuplicates: true });
+  return queued.length;
+}
+
+/**
+ * Fetches queued pages through FireCrawl's scrape endpoint, oldest first,
+ * and stores their markdown with a summary and reading time, then scores
+ * the articles' sentiment again with the page. At most ARTICLE_BODY_BATCH
+ * pages (default 10) are fetched per run, one every ARTICLE_BODY_INTERVAL_MS
+ * (default 1000), and a timeout ends the run. A page that fails three
+ * times is marked failed. Nothing is fetched while a FireCrawl credit
+ * budget is used up.
+ */
+export async function fetchPendingBodies(store: ArticleStore, firecrawl: FirecrawlClient): Promise<BodyFetchResult> {
+  const batch = envNumber('ARTICLE_BODY_BATCH', 10);
+  const interval = envNumber('ARTICLE_BODY_INTERVAL_MS', 1000);
+
+  const exceeded = await checkBudget(store);
+  if (exceeded) {
+    return { fetched: 0, failed: 0, remaining: await countPending(store), budgetExceeded: exceeded.message };
+  }
+
+  const pending = await store.query('article_bodies', {
+    filters: [{ column: 'status', op: 'eq', value: 'pending' }],
+    orderBy: [{ column: 'id', ascending: true }],
+    limit: batch,
+  });
+
+  let fetched = 0;
+  let failed = 0;
+  const rescored: NewsArticle[] = [];
+  const usage: FirecrawlUsage[] = [];
+  for (let i = 0; i < pending.length; i++) {
+    if (i > 0) await new Promise(resolve => setTimeout(resolve, interval));
+    const body = pending[i];
+
+    // Claim the row so a concurrent run skips it
+    const [claimed] = await store.update('article_bodies', [
+      { column: 'id', op: 'eq', value: body.id },
+      { column: 'attempts', op: 'eq', value: body.attempts },
+      { column: 'status', op: 'eq', value: 'pending' },
+    ], { attempts: body.attempts + 1 });
+    if (!claimed) continue;
+
+    try {
+      const document = await firecrawl.scrape(
+        { url: body.url, formats: ['markdown'], onlyMainContent: true },
+        { onUsage: call => usage.push(call) }
+      );
+      if (!document?.markdown) throw new Error('No markdown returned');
+
+      const headline = typeof document.metadata?.title === 'string' ? document.metadata.title : '';
+      const { summary, wordCount, readingMinutes } = summarize(document.markdown, headline);
+      await store.update('article_bodies', [{ column: 'id', op: 'eq', value: body.id }], {
+        status: 'fetched',
+        markdown: document.markdown,
+        summary: summary || null,
+        word_count: wordCount,
+        reading_minutes: readingMinutes,
+        error: null,
+        fetched_at: new Date().toISOString(),
+      });
+      fetched++;
+
+      // The page says more about the article's sentiment than its headline
+      const articles = await store.query('news_articles', { filters: [{ column: 'url', op: 'eq', value: body.url }] });
+      for (const article of articles) {
+        const sentiment = articleSentiment(article.title, document.markdown);
+        if (sentiment === article.sentiment) continue;
+        await store.update('news_articles', [{ column: 'id', op: 'eq', value: article.id }], { sentiment });
+        rescored.push(article);
+      }
+    } catch (error: any) {
+      if (error instanceof FirecrawlError && TRANSIENT_CODES.indexOf(error.code) !== -1) {
+        await store.update('article_bodies', [{ column: 'id', op: 'eq', value: body.id }], {
+          attempts: body.attempts,
+          error: error.message,
+        });
+        console.error(`Stopped fetching article bodies (${error.code}):`, error.message);
+        break;
+      }
+
+      const exhausted = claimed.attempts >= MAX_ATTEMPTS;
+      await store.update('article_bodies', [{ column: 'id', op: 'eq', value: body.id }], {
+        status: exhausted ? 'failed' : 'pending',
+        error: error.message,
+      });
+      if (exhausted) failed++;
+      console.error(`Error fetching article body ${body.url}:`, error.message);
+
+      // The page may just be slow, but the run's time budget may also be spent
+      if (error instanceof FirecrawlError && error.code === 'timeout') break;
+    }
+  }
+
+  await recordUsage(store, 'bodies', usage.map(call => ({ usage: call })));
+  // The pages are stored either way; a rebuild recounts the rollups later
+  if (rescored.length > 0) {
+    await updateRollups(store, rescored).catch((error: any) => console.error('Error updating analytics rollups:', error.message));
+  }
+
+  return { fetched, failed, remaining: await countPending(store) };
+}
+
+/**
+ * Stored bodies for the given article URLs, without their markdown, keyed
+ * by the URLs as given. URLs never queued are left out.
+ */
+export async function getArticleSummaries(store: ArticleStore, urls: string[]): Promise<Record<string, ArticleSummary>> {
+  const normalized = urls.map(url => normalizeUrl(url));
+  const known = normalized.filter((url): url is string => !!url);
+  if (known.length === 0) return {};
+
+  const bodies = await store.query('article_bodies', { filters: [{ column: 'url', op: 'in', value: known }] });
+  const summaries: Record<string, ArticleSummary> = {};
+  urls.forEach((url, index) => {
+    const body = bodies.find(row => row.url === normalized[index]);
+    if (!body) return;
+    const { markdown, ...summary } = body;
+    summaries[url] = summary;
+  });
+  return summaries;
+}
+
+export async function getArticleBody(store: ArticleStore, url: string): Promise<ArticleBody | undefined> {
+  const normalized = normalizeUrl(url);
+  if (!normalized) return undefined;
+
+  const [body] = await store.query('article_bodies', { filters: [{ column: 'url', op: 'eq', value: normalized }] });
+  return body;
+}
+
+async function countPending(store: ArticleStore): Promise<number> {
+  const rows = await store.aggregate('article_bodies', {
+    filters: [{ column: 'status', op: 'eq', value: 'pending' }],
+    groupBy: [],
+  });
+  return rows.reduce((sum, row) => sum + row.count, 0);
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) ? value : fallback;
+}
@@ -0,0 +1,21 @@
+import type { Granularity } from './analytics';
+
+/** A YYYY-MM-DD calendar day as a local Date (noon, clear of DST shifts). */
+export function parseDay(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date, 12);
+}
+
+export function formatDay(day: string): string {
+  return parseDay(day).toLocaleDateString();
+}
+
+/** Short chart label for a timeline bucket, in the user's locale. */
+export function formatBucket(bucket: string, granularity: Granularity): string {
+  const date = parseDay(bucket);
+  if (granularity === 'month') {
+    return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  }
+  const label = date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return granularity === 'week' ? `Week of ${label}` : label;
+}
@@ -0,0 +1,191 @@
+import defaultCategories from '../config/categories.json';
+import type { ArticleStore } from './store';
+import { queryAll } from './store/paging';
+import { containsPhrase } from './text';
+
+export interface CategoryRule {
+  /** `keyword` matches whole words or phrases; `regex` is a case-insensitive pattern */
+  type: 'keyword' | 'regex';
+  pattern: string;
+}
+
+export interface CategoryDefinition {
+  name: string;
+  /** Hex color used for badges and charts */
+  color: string;
+  /** Fed into the FireCrawl prompt so the model knows what belongs here */
+  description: string;
+  rules: CategoryRule[];
+}
+
+// Row shape of the categories table
+export interface Category extends CategoryDefinition {
+  id: number;
+  position: number;
+  created_at: string;
+}
+
+export interface RecategorizeResult {
+  scanned: number;
+  changed: number;
+  /** Stored articles per category after the run */
+  counts: Record<string, number>;
+}
+
+export const DEFAULT_CATEGORIES = defaultCategories as CategoryDefinition[];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+// Article ids per update when recategorizing
+const UPDATE_CHUNK = 200;
+
+// Shown for topics that are no longer in the taxonomy
+export const UNKNOWN_CATEGORY_COLOR = '#6B7280';
+
+/**
+ * Returns the taxonomy in display order. Until categories have been saved
+ * through the admin page, the defaults in config/categories.json are used.
+ */
+export async function getCategories(store: ArticleStore): Promise<CategoryDefinition[]> {
+  const rows = await store.query('categories', { orderBy: [{ column: 'position', ascending: true }] });
+  if (rows.length === 0) return DEFAULT_CATEGORIES;
+
+  return rows.map(({ name, color, description, rules }) => ({ name, color, description, rules }));
+}
+
+/**
+ * Replaces the whole taxonomy; the order given is the display and matching
+ * order. Categories are upserted by name first and only the ones left out
+ * are deleted afterwards, so a failed save never leaves the table empty.
+ */
+export async function saveCategories(store: ArticleStore, categories: CategoryDefinition[]): Promise<void> {
+  await store.upsert(
+    'categories',
+    categories.map((category, position) => ({ ...category, position })),
+    { onConflict: 'name' }
+  );
+
+  const names = categories.map(category => category.name);
+  const removed = (await store.query('categories')).filter(row => names.indexOf(row.name) === -1);
+  if (removed.length > 0) {
+    await store.delete('categories', [{ column: 'id', op: 'in', value: removed.map(row => row.id) }]);
+  }
+}
+
+/**
+ * Checks a taxonomy submitted by a client. Names must be unique, colors
+ * hex, and every regex rule must compile.
+ */
+export function validateCategories(input: unknown): { categories: CategoryDefinition[]; error?: string } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { categories: [], error: 'categories must be a non-empty array' };
+  }
+
+  const categories: CategoryDefinition[] = [];
+  for (const item of input) {
+    const name = typeof item?.name === 'string' ? item.name.trim() : '';
+    if (!name) {
+      return { categories: [], error: 'Every category needs a name' };
+    }
+    if (categories.some(category => category.name.toLowerCase() === name.toLowerCase())) {
+      return { categories: [], error: `Duplicate category: ${name}` };
+    }
+    if (typeof item.color !== 'string' || !HEX_COLOR.test(item.color)) {
+      return { categories: [], error: `${name}: color must be a hex color like #8B5CF6` };
+    }
+
+    const rules: CategoryRule[] = [];
+    for (const rule of Array.isArray(item.rules) ? item.rules : []) {
+      const pattern = typeof rule?.pattern === 'string' ? rule.pattern.trim() : '';
+      if (!pattern) continue;
+      if (rule.type !== 'keyword' && rule.type !== 'regex') {
+        return { categories: [], error: `${name}: rule type must be keyword or regex` };
+      }
+      if (rule.type === 'regex') {
+        try {
+          new RegExp(pattern, 'i');
+        } catch (error: any) {
+          return { categories: [], error: `${name}: invalid regex ${pattern}: ${error.message}` };
+        }
+      }
+      rules.push({ type: rule.type, pattern });
+    }
+
+    categories.push({
+      name,
+      color: item.color,
+      description: typeof item.description === 'string' ? item.description.trim() : '',
+      rules,
+    });
+  }
+
+  return { categories };
+}
+
+/**
+ * The first category, in taxonomy order, with a rule matching the headline;
+ * undefined when nothing matches.
+ */
+export function categorize(headline: string, categories: CategoryDefinition[]): string | undefined {
+  const match = categories.find(category => category.rules.some(rule => ruleMatches(rule, headline)));
+  return match?.name;
+}
+
+// Headlines no rule matches fall into the last category of the taxonomy
+export function fallbackCategory(categories: CategoryDefinition[]): string {
+  return categories[categories.length - 1].name;
+}
+
+export function categoryColor(name: string, categories: CategoryDefinition[]): string {
+  return categories.find(category => category.name === name)?.color || UNKNOWN_CATEGORY_COLOR;
+}
+
+export function describeCategories(categories: CategoryDefinition[]): string {
+  return categories
+    .map(category => (category.description ? `- ${category.name}: ${category.description}` : `- ${category.name}`))
+    .join('\n');
+}
+
+/**
+ * Re-applies the rules to every stored article. Articles no rule matches
+ * keep their topic if it is still a category (it may have come from the
+ * extraction model) and get the fallback category otherwise.
+ */
+export async function recategorizeArticles(
+  store: ArticleStore,
+  categories: CategoryDefinition[]
+): Promise<RecategorizeResult> {
+  const names = categories.map(category => category.name);
+  const fallback = fallbackCategory(categories);
+  const articles = await queryAll(store, 'news_articles', {});
+
+  const moves: Record<string, number[]> = {};
+  const counts: Record<string, number> = {};
+  let changed = 0;
+
+  for (const article of articles) {
+    const topic = categorize(article.title, categories)
+      || (names.includes(article.topic) ? article.topic : fallback);
+
+    counts[topic] = (counts[topic] || 0) + 1;
+    if (topic !== article.topic) {
+      (moves[topic] = moves[topic] || []).push(article.id);
+      changed++;
+    }
+  }
+
+  // Batched, as the ids travel in the request URL
+  for (const topic of Object.keys(moves)) {
+    for (let i = 0; i < moves[topic].length; i += UPDATE_CHUNK) {
+      const ids = moves[topic].slice(i, i + UPDATE_CHUNK);
+      await store.update('news_articles', [{ column: 'id', op: 'in', value: ids }], { topic });
+    }
+  }
+
+  return { scanned: articles.length, changed, counts };
+}
+
+function ruleMatches(rule: CategoryRule, headline: string): boolean {
+  return rule.type === 'regex'
+    ? new RegExp(rule.pattern, 'i').test(headline)
+    : containsPhrase(headline, rule.pattern);
+}
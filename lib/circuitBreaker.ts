@@ -0,0 +1,58 @@
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreaker {
+  /** False while the circuit is open; lets a single trial call through once the cooldown has passed. */
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  state(): CircuitState;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+/**
+ * Consecutive-failure circuit breaker. State lives in memory, so on
+ * serverless it is per warm instance, which is enough to stop one instance
+ * from hammering a failing upstream.
+ */
+export function createCircuitBreaker({ failureThreshold, cooldownMs }: CircuitBreakerOptions): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return 'closed';
+    return Date.now() - openedAt >= cooldownMs ? 'half-open' : 'open';
+  };
+
+  return {
+    canRequest() {
+      const current = state();
+      if (current === 'closed') return true;
+      if (current === 'half-open' && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+      return false;
+    },
+
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+
+    recordFailure() {
+      failures++;
+      trialInFlight = false;
+      if (openedAt !== null || failures >= failureThreshold) {
+        openedAt = Date.now();
+      }
+    },
+
+    state,
+  };
+}
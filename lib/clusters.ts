@@ -0,0 +1,204 @@
+import type { ArticleStore, NewsArticle } from './store';
+import { STOPWORDS } from './text';
+import { queryAll } from './store/paging';
+
+/** One story: the articles of a cluster, as covered by one or more outlets. */
+export interface Story {
+  /** The cluster id */
+  id: number;
+  /** Headline of the earliest article */
+  headline: string;
+  url: string | null;
+  topic: string;
+  /** Outlets (source ids) that covered the story */
+  sources: string[];
+  firstPublished: string;
+  lastPublished: string;
+  /** Oldest first */
+  articles: NewsArticle[];
+}
+
+// recent: newest stories first; coverage: most outlets first
+export type StorySort = 'recent' | 'coverage';
+
+export interface StoryQuery {
+  days: number;
+  limit: number;
+  sort: StorySort;
+  /** Leave out stories covered by fewer outlets */
+  minSources: number;
+}
+
+// Headlines published this far apart can still be the same story
+const WINDOW_MS = 48 * 3600000;
+// Dice coefficient of the headline tokens needed to join a cluster...
+const SIMILARITY_THRESHOLD = 0.6;
+// ...with at least this many tokens in common, so short headlines don't
+// match on two generic words
+const MIN_SHARED_TOKENS = 3;
+
+/**
+ * Puts newly stored articles into clusters: each joins the cluster of the
+ * most similar headline published within 48 hours, or starts its own.
+ * Returns the number that joined an existing cluster.
+ */
+export async function clusterArticles(store: ArticleStore, articles: NewsArticle[]): Promise<number> {
+  if (articles.length === 0) return 0;
+
+  const times = articles.map(article => Date.parse(article.published_date));
+  const candidates = await queryAll(store, 'news_articles', {
+    filters: [
+      { column: 'published_date', op: 'gte', value: new Date(Math.min(...times) - WINDOW_MS).toISOString() },
+      { column: 'published_date', op: 'lte', value: new Date(Math.max(...times) + WINDOW_MS).toISOString() },
+    ],
+  });
+
+  const pending = new Set(articles.map(article => article.id));
+  const known = candidates.filter(candidate => !pending.has(candidate.id)).map(toEntry);
+  const assigned: Record<number, number> = {};
+  let joined = 0;
+
+  articles.slice().sort((a, b) => a.id - b.id).forEach(article => {
+    const entry = toEntry(article);
+    const match = bestMatch(entry, known);
+
+    entry.cluster = match ? match.cluster : article.id;
+    // Articles stored before clustering existed get their implicit cluster
+    if (match && match.article.cluster_id === null) assigned[match.article.id] = match.cluster;
+    assigned[article.id] = entry.cluster;
+    if (match) joined++;
+
+    known.push(entry);
+  });
+
+  await saveClusters(store, assigned);
+  return joined;
+}
+
+/**
+ * Clusters every stored article again, oldest first, e.g. after the
+ * similarity rules changed. Returns the number of articles whose cluster
+ * changed and the number of clusters.
+ */
+export async function reclusterArticles(store: ArticleStore): Promise<{ scanned: number; changed: number; clusters: number }> {
+  // Ties on the date go by id
+  const articles = await queryAll(store, 'news_articles', {
+    orderBy: [{ column: 'published_date', ascending: true }],
+  });
+
+  const recent: Entry[] = [];
+  const assigned: Record<number, number> = {};
+  const clusters = new Set<number>();
+
+  articles.forEach(article => {
+    const entry = toEntry(article);
+    while (recent.length > 0 && entry.time - recent[0].time > WINDOW_MS) recent.shift();
+
+    const match = bestMatch(entry, recent);
+    entry.cluster = match ? match.cluster : article.id;
+    clusters.add(entry.cluster);
+    if (article.cluster_id !== entry.cluster) assigned[article.id] = entry.cluster;
+
+    recent.push(entry);
+  });
+
+  await saveClusters(store, assigned);
+  return { scanned: articles.length, changed: Object.keys(assigned).length, clusters: clusters.size };
+}
+
+/** Stories published in the last `days` days, each with its articles and outlets. */
+export async function getStories(store: ArticleStore, query: StoryQuery): Promise<Story[]> {
+  const since = new Date(Date.now() - query.days * 86400000).toISOString();
+  const articles = await queryAll(store, 'news_articles', {
+    filters: [{ column: 'published_date', op: 'gte', value: since }],
+    orderBy: [{ column: 'published_date', ascending: true }],
+  });
+
+  const byCluster: Record<number, NewsArticle[]> = {};
+  articles.forEach(article => {
+    const cluster = article.cluster_id ?? article.id;
+    (byCluster[cluster] = byCluster[cluster] || []).push(article);
+  });
+
+  const stories = Object.keys(byCluster).map(id => {
+    const members = byCluster[Number(id)];
+    const lead = members[0];
+    return {
+      id: Number(id),
+      headline: lead.title,
+      url: lead.url,
+      topic: lead.topic,
+      sources: members
+        .map(article => article.source)
+        .filter((source, index, all): source is string => !!source && all.indexOf(source) === index),
+      firstPublished: lead.published_date,
+      lastPublished: members[members.length - 1].published_date,
+      articles: members,
+    };
+  });
+
+  return stories
+    .filter(story => story.sources.length >= query.minSources)
+    .sort((a, b) => (query.sort === 'coverage' ? b.sources.length - a.sources.length || b.articles.length - a.articles.length : 0)
+      || Date.parse(b.lastPublished) - Date.parse(a.lastPublished))
+    .slice(0, query.limit);
+}
+
+/** Tokens compared between headlines: lowercased, without stopwords or plural s. */
+export function headlineTokens(headline: string): string[] {
+  return headline
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .split(/[^a-z0-9$]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(token => (token.length > 3 && /[^s]s$/.test(token) ? token.slice(0, -1) : token))
+    .filter((token, index, all) => all.indexOf(token) === index);
+}
+
+interface Entry {
+  article: NewsArticle;
+  tokens: string[];
+  time: number;
+  cluster: number;
+}
+
+function toEntry(article: NewsArticle): Entry {
+  return {
+    article,
+    tokens: headlineTokens(article.title),
+    time: Date.parse(article.published_date),
+    cluster: article.cluster_id ?? article.id,
+  };
+}
+
+function bestMatch(entry: Entry, candidates: Entry[]): Entry | undefined {
+  let best: Entry | undefined;
+  let bestScore = 0;
+
+  for (const candidate of candidates) {
+    if (Math.abs(candidate.time - entry.time) > WINDOW_MS) continue;
+
+    const shared = candidate.tokens.filter(token => entry.tokens.includes(token)).length;
+    const score = (2 * shared) / (candidate.tokens.length + entry.tokens.length);
+    if (shared >= MIN_SHARED_TOKENS && score >= SIMILARITY_THRESHOLD && score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+// One update per cluster rather than per article
+async function saveClusters(store: ArticleStore, assigned: Record<number, number>): Promise<void> {
+  const byCluster: Record<number, number[]> = {};
+  Object.keys(assigned).forEach(id => {
+    (byCluster[assigned[Number(id)]] = byCluster[assigned[Number(id)]] || []).push(Number(id));
+  });
+
+  for (const cluster of Object.keys(byCluster)) {
+    await store.update('news_articles', [{ column: 'id', op: 'in', value: byCluster[Number(cluster)] }], {
+      cluster_id: Number(cluster),
+    });
+  }
+}
@@ -0,0 +1,232 @@
+import defaultCompanies from '../config/companies.json';
+import type { ArticleStore, Filter } from './store';
+import { queryAll } from './store/paging';
+import { phraseIndex } from './text';
+
+export interface CompanyDefinition {
+  name: string;
+  /** Other names the company appears under in headlines (brands, former names) */
+  aliases: string[];
+}
+
+// Row shape of the companies table
+export interface Company extends CompanyDefinition {
+  id: number;
+  created_at: string;
+}
+
+// Row shape of the article_companies table, linking news_articles to companies
+export interface ArticleCompany {
+  id: number;
+  article_id: number;
+  company_id: number;
+  created_at: string;
+}
+
+export interface CompanyProfile {
+  company: Company;
+  /** Linked articles; list them with lib/articles */
+  articleCount: number;
+  topics: { topic: string; count: number }[];
+}
+
+export const DEFAULT_COMPANIES = defaultCompanies as CompanyDefinition[];
+
+// Links written per request when relinking
+const RELINK_CHUNK = 1000;
+// What extraction models put in the company field when no company is named
+const PLACEHOLDER_NAMES = ['n/a', 'na', 'none', 'null', 'nil', 'unknown', 'not mentioned', 'not specified', 'not applicable', 'no company', 'various', 'multiple'];
+
+/**
+ * Returns every known company. An empty companies table is seeded with the
+ * dictionary in config/companies.json, so the links always have ids to
+ * point at.
+ */
+export async function getCompanies(store: ArticleStore): Promise<Company[]> {
+  const companies = await store.query('companies', { orderBy: [{ column: 'name', ascending: true }] });
+  if (companies.length > 0) return companies;
+
+  await store.upsert('companies', DEFAULT_COMPANIES, { onConflict: 'name', ignoreDuplicates: true });
+  return store.query('companies', { orderBy: [{ column: 'name', ascending: true }] });
+}
+
+/** Looks a company up by its name or one of its aliases, ignoring case. */
+export function findCompany<T extends CompanyDefinition>(companies: T[], name: string): T | undefined {
+  const wanted = name.trim().toLowerCase();
+  return companies.find(company => (
+    company.name.toLowerCase() === wanted || company.aliases.some(alias => alias.toLowerCase() === wanted)
+  ));
+}
+
+/**
+ * Whether a company name the model gave is worth a companies row: not a
+ * placeholder such as "N/A" or "Unknown", and longer than one character.
+ * Known companies are looked up first, so a short one like X still counts.
+ */
+export function isCompanyName(name: string): boolean {
+  const normalized = name.trim().toLowerCase().replace(/[.!]+$/, '');
+  return normalized.length > 1 && PLACEHOLDER_NAMES.indexOf(normalized) === -1;
+}
+
+/**
+ * Companies mentioned in `text`, in order of first mention. Names and
+ * aliases only match as whole words; all-caps ones (X, AWS) must also
+ * match case, so "x" inside a word or a lowercase "aws" don't count.
+ */
+export function matchCompanies(text: string, companies: CompanyDefinition[]): string[] {
+  return companies
+    .map(company => ({
+      name: company.name,
+      index: Math.min(...[company.name].concat(company.aliases).map(alias => mentionIndex(text, alias))),
+    }))
+    .filter(match => match.index !== Infinity)
+    .sort((a, b) => a.index - b.index)
+    .map(match => match.name);
+}
+
+/**
+ * Every company for an article: the ones its headline mentions plus the one
+ * named by the extraction model. A model-named company that isn't in the
+ * dictionary is kept as is and added to the companies table when linked.
+ */
+export function companiesForArticle(
+  article: { headline: string; company?: string },
+  companies: CompanyDefinition[]
+): string[] {
+  const names = matchCompanies(article.headline, companies);
+  if (article.company) {
+    const known = findCompany(companies, article.company);
+    const name = known ? known.name : isCompanyName(article.company) ? article.company.trim() : undefined;
+    if (name && !names.includes(name)) names.push(name);
+  }
+  return names;
+}
+
+/**
+ * Writes article_companies rows for freshly stored articles, creating any
+ * company not yet in the table unless its name is a placeholder (see
+ * isCompanyName). Raises on failure; the articles are already stored and
+ * can be relinked later.
+ */
+export async function linkArticleCompanies(
+  store: ArticleStore,
+  links: { articleId: number; companies: string[] }[]
+): Promise<number> {
+  const wanted = links.filter(link => link.companies.length > 0);
+  if (wanted.length === 0) return 0;
+
+  const companies = await getCompanies(store);
+  const unknown = wanted
+    .reduce((all, link) => all.concat(link.companies), [] as string[])
+    .filter((name, index, all) => all.indexOf(name) === index && !findCompany(companies, name) && isCompanyName(name));
+
+  if (unknown.length > 0) {
+    await store.upsert(
+      'companies',
+      unknown.map(name => ({ name, aliases: [] })),
+      { onConflict: 'name', ignoreDuplicates: true }
+    );
+  }
+
+  const directory = unknown.length > 0 ? await getCompanies(store) : companies;
+  const rows = wanted.reduce((all, link) => all.concat(
+    link.companies
+      .map(name => findCompany(directory, name))
+      .filter((company): company is Company => !!company)
+      .map(company => ({ article_id: link.articleId, company_id: company.id }))
+  ), [] as { article_id: number; company_id: number }[]);
+
+  await store.insert('article_companies', rows);
+  return rows.length;
+}
+
+/** Names of the companies linked to each of the given articles, keyed by article id. */
+export async function getArticleCompanies(
+  store: ArticleStore,
+  articleIds: number[]
+): Promise<Record<number, string[]>> {
+  if (articleIds.length === 0) return {};
+
+  const [links, companies] = await Promise.all([
+    store.query('article_companies', { filters: [{ column: 'article_id', op: 'in', value: articleIds }] }),
+    getCompanies(store),
+  ]);
+
+  return links.reduce((byArticle, link) => {
+    const company = companies.find(c => c.id === link.company_id);
+    if (company) (byArticle[link.article_id] = byArticle[link.article_id] || []).push(company.name);
+    return byArticle;
+  }, {} as Record<number, string[]>);
+}
+
+/** Filter for the articles linked to a company. */
+export function companyArticlesFilter(companyId: number): Filter<'news_articles'> {
+  return {
+    column: 'id',
+    op: 'linked',
+    value: { table: 'article_companies', via: 'article_id', column: 'company_id', value: companyId },
+  };
+}
+
+/** Article counts per company, keyed by company id. */
+export async function countCompanyArticles(store: ArticleStore): Promise<Record<number, number>> {
+  const rows = await store.aggregate('article_companies', { groupBy: ['company_id'] });
+  return rows.reduce((counts, row) => {
+    counts[Number(row.group.company_id)] = row.count;
+    return counts;
+  }, {} as Record<number, number>);
+}
+
+/** A company's article count and topic mix; undefined for an unknown name. */
+export async function getCompanyProfile(store: ArticleStore, name: string): Promise<CompanyProfile | undefined> {
+  const company = findCompany(await getCompanies(store), name);
+  if (!company) return undefined;
+
+  const [counts, topics] = await Promise.all([
+    countCompanyArticles(store),
+    store.aggregate('news_articles', { filters: [companyArticlesFilter(company.id)], groupBy: ['topic'] }),
+  ]);
+
+  return {
+    company,
+    articleCount: counts[company.id] || 0,
+    topics: topics
+      .map(row => ({ topic: String(row.group.topic), count: row.count }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
+
+/**
+ * Re-matches every stored article against the current dictionary and adds
+ * the links that are missing, e.g. after aliases were added. Existing links
+ * are never removed.
+ */
+export async function relinkArticles(store: ArticleStore): Promise<{ scanned: number; linked: number }> {
+  const [articles, companies, existing] = await Promise.all([
+    queryAll(store, 'news_articles', {}),
+    getCompanies(store),
+    queryAll(store, 'article_companies', {}),
+  ]);
+
+  const linked = new Set(existing.map(link => `${link.article_id}:${link.company_id}`));
+  const rows = articles.reduce((all, article) => all.concat(
+    matchCompanies(article.title, companies)
+      .map(name => findCompany(companies, name)!)
+      .filter(company => !linked.has(`${article.id}:${company.id}`))
+      .map(company => ({ article_id: article.id, company_id: company.id }))
+  ), [] as { article_id: number; company_id: number }[]);
+
+  // A link stored since the read above is left alone rather than failing the batch
+  for (let i = 0; i < rows.length; i += RELINK_CHUNK) {
+    await store.upsert('article_companies', rows.slice(i, i + RELINK_CHUNK), {
+      onConflict: ['article_id', 'company_id'],
+      ignoreDuplicates: true,
+    });
+  }
+  return { scanned: articles.length, linked: rows.length };
+}
+
+function mentionIndex(text: string, alias: string): number {
+  const index = phraseIndex(text, alias, alias === alias.toUpperCase());
+  return index === -1 ? Infinity : index;
+}
@@ -0,0 +1,65 @@
+import { createHash } from 'crypto';
+
+// Query parameters that only identify the referrer and never the article
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref|ref_src|guccounter|guce_\w+)$/i;
+
+/**
+ * Canonicalises an article URL so the same story linked in slightly
+ * different ways maps to one row. Relative links are resolved against
+ * the page they were found on. Returns undefined for anything that is
+ * not an http(s) URL.
+ */
+export function normalizeUrl(url: string, base?: string): string | undefined {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim(), base);
+  } catch {
+    return undefined;
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return undefined;
+  }
+
+  parsed.protocol = 'https:';
+  parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  parsed.hash = '';
+
+  const params = new URLSearchParams();
+  parsed.searchParams.forEach((value, key) => {
+    if (!TRACKING_PARAMS.test(key)) {
+      params.append(key, value);
+    }
+  });
+  params.sort();
+  parsed.search = params.toString();
+
+  return parsed.toString().replace(/\/+(\?|$)/, '$1');
+}
+
+export function headlineHash(headline: string): string {
+  const normalized = headline
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Key used for idempotent upserts into news_articles: the normalized URL
+ * when we have one, otherwise a hash of the headline.
+ */
+export function dedupeKey(article: { headline: string; url?: string }): string {
+  return article.url ? `url:${article.url}` : `headline:${headlineHash(article.headline)}`;
+}
+
+export function parsePublishedDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
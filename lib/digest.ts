@@ -0,0 +1,366 @@
+import type { ArticleStore } from './store';
+import { MAX_PAGE_SIZE, scanArticles, type ListedArticle } from './articles';
+import { watchedCompanies } from './analytics';
+import { categoryColor, getCategories } from './categories';
+import { findCompany, getCompanies } from './companies';
+import { getTrends, type Trend } from './trends';
+import type { MailTransport } from './mail';
+
+// daily: the last 24 hours; weekly: the last 7 days
+export type DigestPeriod = 'daily' | 'weekly';
+
+export const DIGEST_PERIODS: DigestPeriod[] = ['daily', 'weekly'];
+
+/** What a digest covers. With no categories and no companies it covers every article. */
+export interface DigestFilters {
+  period: DigestPeriod;
+  /** Category names */
+  categories: string[];
+  /** Company names or aliases */
+  companies: string[];
+}
+
+export interface DigestSubscriberDefinition extends DigestFilters {
+  email: string;
+  enabled: boolean;
+}
+
+// Row shape of the digest_subscribers table
+export interface DigestSubscriber extends DigestSubscriberDefinition {
+  id: number;
+  last_sent_at: string | null;
+  /** Why the last attempt failed; null after a successful one */
+  last_error: string | null;
+  created_at: string;
+}
+
+export interface DigestArticle {
+  title: string;
+  url: string | null;
+  source: string | null;
+  published_date: string;
+  companies: string[];
+  /** The watched companies among `companies` */
+  watched: string[];
+}
+
+export interface DigestSection {
+  category: string;
+  color: string;
+  /** Articles in the category, including those left out of `articles` */
+  count: number;
+  /** Articles mentioning watched companies first, then newest first */
+  articles: DigestArticle[];
+}
+
+export interface Digest {
+  period: DigestPeriod;
+  from: string;
+  to: string;
+  filters: DigestFilters;
+  total: number;
+  /** In the order of the category taxonomy; empty categories are left out */
+  sections: DigestSection[];
+  /** Watched companies mentioned in the period, most mentioned first */
+  watched: { company: string; count: number }[];
+  /** Emerging terms and companies, strongest first */
+  trends: Trend[];
+}
+
+export interface DigestRun {
+  /** Digests sent */
+  sent: number;
+  /** Subscribers with nothing new to read */
+  empty: number;
+  failed: number;
+}
+
+const PERIOD_DAYS: Record<DigestPeriod, number> = { daily: 1, weekly: 7 };
+const SECTION_LIMIT = 8;
+const TREND_LIMIT = 5;
+// Trends compare the digest's days with this many days before them
+const TREND_BASELINE_DAYS = 28;
+// A subscriber is due once this long has passed since the last digest, a
+// little under the period so the cron's run time drifting doesn't skip one
+const RESEND_AFTER_MS: Record<DigestPeriod, number> = { daily: 20 * 3600000, weekly: 6 * 86400000 };
+
+export async function getSubscribers(store: ArticleStore): Promise<DigestSubscriber[]> {
+  return store.query('digest_subscribers', { orderBy: [{ column: 'email', ascending: true }] });
+}
+
+/** Checks a subscriber submitted by a client. */
+export function validateSubscriber(input: any): { subscriber?: DigestSubscriberDefinition; error?: string } {
+  const email = typeof input?.email === 'string' ? input.email.trim().toLowerCase() : '';
+  if (!/^[^\s@<>]+@[^\s@<>]+$/.test(email)) {
+    return { error: 'email must be an email address' };
+  }
+
+  const { filters, error } = validateFilters(input);
+  if (!filters) return { error };
+
+  return { subscriber: { email, ...filters, enabled: input.enabled !== false } };
+}
+
+/** Checks the period, categories and companies of a digest. */
+export function validateFilters(input: any): { filters?: DigestFilters; error?: string } {
+  const period = input?.period || 'daily';
+  if (DIGEST_PERIODS.indexOf(period) === -1) {
+    return { error: `period must be one of ${DIGEST_PERIODS.join(', ')}` };
+  }
+
+  const list = (value: unknown): string[] => (Array.isArray(value) ? value : [])
+    .filter((term): term is string => typeof term === 'string' && term.trim() !== '')
+    .map(term => term.trim());
+
+  return { filters: { period, categories: list(input.categories), companies: list(input.companies) } };
+}
+
+/**
+ * Collects the articles published in the period that end on `now`: those
+ * in one of the chosen categories or mentioning one of the chosen
+ * companies, or all of them when neither is chosen.
+ */
+export async function buildDigest(store: ArticleStore, filters: DigestFilters, now = new Date()): Promise<Digest> {
+  const from = new Date(now.getTime() - PERIOD_DAYS[filters.period] * 86400000).toISOString();
+  const to = now.toISOString();
+
+  const [categories, companies, watchedNames, trends, scan] = await Promise.all([
+    getCategories(store),
+    getCompanies(store),
+    watchedCompanies(store),
+    getTrends(store, { recentDays: PERIOD_DAYS[filters.period], baselineDays: TREND_BASELINE_DAYS, limit: TREND_LIMIT }),
+    scanArticles(store, { sort: 'published', from, to, limit: MAX_PAGE_SIZE }),
+  ]);
+
+  const chosenCompanies = filters.companies.map(term => findCompany(companies, term)?.name || term);
+  const inCategory = (article: ListedArticle) => filters.categories.some(category => sameName(category, article.topic));
+  const mentionsChosen = (article: ListedArticle) => article.companies.some(company => chosenCompanies.some(name => sameName(name, company)));
+  const chosen = (article: ListedArticle) => (filters.categories.length === 0 && filters.companies.length === 0)
+    || inCategory(article)
+    || mentionsChosen(article);
+
+  const articles: ListedArticle[] = [];
+  for (let batch = await scan.next!(); batch.length > 0; batch = await scan.next!()) {
+    articles.push(...batch.filter(chosen));
+  }
+
+  const toDigestArticle = (article: ListedArticle): DigestArticle => ({
+    title: article.title,
+    url: article.url,
+    source: article.source,
+    published_date: article.published_date,
+    companies: article.companies,
+    watched: article.companies.filter(company => watchedNames.indexOf(company) !== -1),
+  });
+
+  // Taxonomy order, then categories only stored articles still carry
+  const names = categories.map(category => category.name)
+    .concat(articles.map(article => article.topic))
+    .filter((name, index, all) => all.indexOf(name) === index);
+
+  const sections = names
+    .map(name => {
+      const inSection = articles.filter(article => article.topic === name).map(toDigestArticle);
+      return {
+        category: name,
+        color: categoryColor(name, categories),
+        count: inSection.length,
+        // Stable sort: articles are newest first already
+        articles: inSection
+          .map((article, index) => ({ article, index }))
+          .sort((a, b) => (b.article.watched.length > 0 ? 1 : 0) - (a.article.watched.length > 0 ? 1 : 0) || a.index - b.index)
+          .map(({ article }) => article)
+          .slice(0, SECTION_LIMIT),
+      };
+    })
+    .filter(section => section.count > 0);
+
+  const watched = watchedNames
+    .map(company => ({ company, count: articles.filter(article => article.companies.indexOf(company) !== -1).length }))
+    .filter(entry => entry.count > 0)
+    .sort((a, b) => b.count - a.count);
+
+  return {
+    period: filters.period,
+    from,
+    to,
+    filters: { period: filters.period, categories: filters.categories, companies: filters.companies },
+    total: articles.length,
+    sections,
+    watched,
+    trends: trends.terms.concat(trends.companies).sort((a, b) => b.score - a.score).slice(0, TREND_LIMIT),
+  };
+}
+
+export function digestSubject(digest: Digest): string {
+  const label = digest.period === 'daily' ? 'Daily' : 'Weekly';
+  return `${label} news digest: ${digest.total} ${digest.total === 1 ? 'article' : 'articles'}, ${formatDate(digest.to)}`;
+}
+
+/** The digest as an HTML email, with inline styles since mail clients drop style sheets. */
+export function renderDigestHtml(digest: Digest, siteUrl?: string): string {
+  const watchedLine = digest.watched.length > 0
+    ? `<p style="margin:0 0 16px;color:#374151;">⭐ Watched: ${digest.watched.map(entry => `<strong>${escapeHtml(entry.company)}</strong> (${entry.count})`).join(', ')}</p>`
+    : '';
+
+  const trends = digest.trends.length > 0
+    ? `<h2 style="font-size:16px;margin:24px 0 8px;color:#111827;">📈 Trending</h2>
+<p style="margin:0;color:#374151;">${digest.trends.map(trend => `${escapeHtml(trend.term)} <span style="color:#6B7280;">(${trend.recent} mentions, ~${Math.round(trend.expected * 10) / 10} usual)</span>`).join(' · ')}</p>`
+    : '';
+
+  const sections = digest.sections.map(section => {
+    const items = section.articles.map(article => {
+      const title = escapeHtml(article.title);
+      const headline = article.url ? `<a href="${escapeHtml(article.url)}" style="color:#1F2937;text-decoration:none;">${title}</a>` : title;
+      const details = [article.source, article.companies.length > 0 ? article.companies.join(', ') : null].filter(Boolean).join(' · ');
+      return `<li style="margin:0 0 8px;">${article.watched.length > 0 ? '⭐ <strong>' + headline + '</strong>' : headline}${details ? `<br><span style="font-size:12px;color:#6B7280;">${escapeHtml(details)}</span>` : ''}</li>`;
+    }).join('\n');
+    const more = section.count > section.articles.length
+      ? `<p style="margin:0;font-size:12px;color:#6B7280;">and ${section.count - section.articles.length} more</p>`
+      : '';
+    return `<h2 style="font-size:16px;margin:24px 0 8px;color:${section.color};">${escapeHtml(section.category)} (${section.count})</h2>
+<ul style="padding-left:18px;margin:0;">
+${items}
+</ul>
+${more}`;
+  }).join('\n');
+
+  const footer = siteUrl
+    ? `<p style="margin:32px 0 0;font-size:12px;color:#9CA3AF;"><a href="${escapeHtml(siteUrl)}/dashboard" style="color:#6366F1;">Open the dashboard</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(digestSubject(digest))}</title></head>
+<body style="margin:0;padding:24px;background:#F3F4F6;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;">
+<div style="max-width:640px;margin:0 auto;background:#FFFFFF;border-radius:12px;padding:24px;">
+<h1 style="font-size:22px;margin:0 0 4px;color:#111827;">🔥 ${digest.period === 'daily' ? 'Daily' : 'Weekly'} News Digest</h1>
+<p style="margin:0 0 16px;color:#6B7280;">${formatDate(digest.from)} – ${formatDate(digest.to)} · ${digest.total} ${digest.total === 1 ? 'article' : 'articles'}</p>
+${watchedLine}
+${sections || '<p style="color:#6B7280;">No new articles in this period.</p>'}
+${trends}
+${footer}
+</div>
+</body>
+</html>
+`;
+}
+
+export function renderDigestText(digest: Digest, siteUrl?: string): string {
+  const lines = [
+    `${digest.period === 'daily' ? 'Daily' : 'Weekly'} News Digest`,
+    `${formatDate(digest.from)} - ${formatDate(digest.to)} · ${digest.total} ${digest.total === 1 ? 'article' : 'articles'}`,
+    '',
+  ];
+
+  if (digest.watched.length > 0) {
+    lines.push(`Watched: ${digest.watched.map(entry => `${entry.company} (${entry.count})`).join(', ')}`, '');
+  }
+
+  digest.sections.forEach(section => {
+    lines.push(`${section.category.toUpperCase()} (${section.count})`);
+    section.articles.forEach(article => {
+      lines.push(`${article.watched.length > 0 ? '*' : '-'} ${article.title}`);
+      const details = [article.source, article.companies.join(', ') || null, article.url].filter(Boolean).join(' · ');
+      if (details) lines.push(`  ${details}`);
+    });
+    if (section.count > section.articles.length) lines.push(`  and ${section.count - section.articles.length} more`);
+    lines.push('');
+  });
+  if (digest.sections.length === 0) lines.push('No new articles in this period.', '');
+
+  if (digest.trends.length > 0) {
+    lines.push('TRENDING', digest.trends.map(trend => `${trend.term} (${trend.recent} mentions)`).join(', '), '');
+  }
+  if (siteUrl) lines.push(`Dashboard: ${siteUrl}/dashboard`);
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Builds and mails one subscriber's digest. An empty digest isn't sent.
+ * Either way the subscriber's last_sent_at and last_error are updated.
+ */
+export async function sendDigest(
+  store: ArticleStore,
+  transport: MailTransport,
+  subscriber: DigestSubscriber,
+  options: { from: string; siteUrl?: string; now?: Date; digest?: Digest }
+): Promise<'sent' | 'empty'> {
+  const now = options.now || new Date();
+  const digest = options.digest || await buildDigest(store, subscriber, now);
+  const byId = [{ column: 'id' as const, op: 'eq' as const, value: subscriber.id }];
+
+  if (digest.total > 0) {
+    try {
+      await transport.send({
+        from: options.from,
+        to: [subscriber.email],
+        subject: digestSubject(digest),
+        text: renderDigestText(digest, options.siteUrl),
+        html: renderDigestHtml(digest, options.siteUrl),
+      });
+    } catch (error: any) {
+      await store.update('digest_subscribers', byId, { last_error: error.message });
+      throw error;
+    }
+  }
+
+  await store.update('digest_subscribers', byId, { last_sent_at: now.toISOString(), last_error: null });
+  return digest.total > 0 ? 'sent' : 'empty';
+}
+
+/**
+ * Sends the digest of every enabled subscriber that is due. Subscribers
+ * with the same period and filters share one digest. Failures are logged
+ * and counted; the other subscribers still get theirs.
+ */
+export async function sendDueDigests(
+  store: ArticleStore,
+  transport: MailTransport,
+  options: { from: string; siteUrl?: string; now?: Date }
+): Promise<DigestRun> {
+  const now = options.now || new Date();
+  const due = (await getSubscribers(store)).filter(subscriber => subscriber.enabled
+    && (!subscriber.last_sent_at || now.getTime() - new Date(subscriber.last_sent_at).getTime() >= RESEND_AFTER_MS[subscriber.period]));
+
+  const digests: Record<string, Digest> = {};
+  const run: DigestRun = { sent: 0, empty: 0, failed: 0 };
+  for (const subscriber of due) {
+    try {
+      const key = JSON.stringify([subscriber.period, subscriber.categories, subscriber.companies]);
+      digests[key] = digests[key] || await buildDigest(store, subscriber, now);
+
+      const outcome = await sendDigest(store, transport, subscriber, { ...options, now, digest: digests[key] });
+      run[outcome === 'sent' ? 'sent' : 'empty']++;
+    } catch (error: any) {
+      console.error(`Error sending digest to ${subscriber.email}:`, error.message);
+      run.failed++;
+    }
+  }
+  return run;
+}
+
+/** Sender (DIGEST_FROM) and dashboard link (SITE_URL) of digest emails. */
+export function digestMailOptions(): { from: string; siteUrl?: string } {
+  return {
+    from: process.env.DIGEST_FROM || 'FireCrawl News Monitor <news-monitor@localhost>',
+    siteUrl: process.env.SITE_URL?.replace(/\/+$/, '') || undefined,
+  };
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
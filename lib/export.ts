@@ -0,0 +1,170 @@
+import type { Writable } from 'stream';
+import type { ListedArticle } from './articles';
+import type { Analytics } from './analytics';
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+/** Chart data that can be exported: topic totals, articles per day, or the timeline buckets. */
+export type AnalyticsSeries = 'topics' | 'dates' | 'timeline';
+
+export const ANALYTICS_SERIES: AnalyticsSeries[] = ['topics', 'dates', 'timeline'];
+
+export type ExportValue = string | number | boolean | null | string[];
+
+export type ExportRecord = Record<string, ExportValue>;
+
+export interface ExportTable {
+  columns: string[];
+  records: ExportRecord[];
+}
+
+export interface ExportWriter {
+  /** Resolves once the records are handed to the client, waiting while it is behind. */
+  write(records: ExportRecord[]): Promise<void>;
+  end(): void;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+export const ARTICLE_COLUMNS = [
+  'id',
+  'title',
+  'url',
+  'topic',
+  'source',
+  'companies',
+  'published_date',
+  'created_at',
+  'extraction_method',
+  'sentiment',
+  'cluster_id',
+];
+
+export function articleRecord(article: ListedArticle): ExportRecord {
+  return {
+    id: article.id,
+    title: article.title,
+    url: article.url,
+    topic: article.topic,
+    source: article.source,
+    companies: article.companies,
+    published_date: article.published_date,
+    created_at: article.created_at,
+    extraction_method: article.extraction_method,
+    sentiment: article.sentiment,
+    cluster_id: article.cluster_id,
+  };
+}
+
+/** The rows behind one of the dashboard's charts. Timeline rows have a count column per topic. */
+export function analyticsTable(analytics: Analytics, series: AnalyticsSeries): ExportTable {
+  if (series === 'topics') {
+    return {
+      columns: ['topic', 'count', 'percentage', 'sentiment'],
+      records: analytics.topicDistribution.map(({ topic, count, percentage }) => ({
+        topic,
+        count,
+        percentage,
+        sentiment: analytics.sentiment.byTopic.find(entry => entry.topic === topic)?.average ?? null,
+      })),
+    };
+  }
+
+  if (series === 'dates') {
+    return {
+      columns: ['date', 'count'],
+      records: analytics.articlesByDate.map(({ date, count }) => ({ date, count })),
+    };
+  }
+
+  const topics = analytics.topicDistribution.map(entry => entry.topic);
+  return {
+    columns: ['bucket', 'from', 'to', 'total', 'sentiment'].concat(topics),
+    records: analytics.timeline.map(point => {
+      const record: ExportRecord = { bucket: point.bucket, from: point.from, to: point.to, total: point.total, sentiment: point.sentiment };
+      topics.forEach(topic => {
+        record[topic] = point.topics[topic] || 0;
+      });
+      return record;
+    }),
+  };
+}
+
+/** e.g. news-articles-2026-10-19.csv; the suffix defaults to today's date. */
+export function exportFilename(name: string, format: ExportFormat, suffix = new Date().toISOString().slice(0, 10)): string {
+  return `news-${name}-${suffix}.${format}`;
+}
+
+/**
+ * Streams records to `out` as CSV (with a header row), a JSON array or
+ * newline-delimited JSON, keeping only `columns`, in that order. Nothing
+ * is held back between writes, so the memory used is one batch at most.
+ */
+export function createExportWriter(out: Writable, format: ExportFormat, columns: string[]): ExportWriter {
+  let started = false;
+  let count = 0;
+
+  const start = () => {
+    if (started) return '';
+    started = true;
+    // The byte order mark makes Excel read the file as UTF-8
+    if (format === 'csv') return `\ufeff${columns.map(csvCell).join(',')}\r\n`;
+    return format === 'json' ? '[' : '';
+  };
+
+  const line = (record: ExportRecord) => {
+    const values = columns.map(column => (record[column] === undefined ? null : record[column]));
+    if (format === 'csv') return `${values.map(csvCell).join(',')}\r\n`;
+
+    const object: ExportRecord = {};
+    columns.forEach((column, index) => {
+      object[column] = values[index];
+    });
+    if (format === 'ndjson') return `${JSON.stringify(object)}\n`;
+    return `${count++ > 0 ? ',' : ''}\n${JSON.stringify(object)}`;
+  };
+
+  return {
+    write: records => send(out, start() + records.map(line).join('')),
+    end: () => {
+      out.end(start() + (format === 'json' ? `${count > 0 ? '\n' : ''}]\n` : ''));
+    },
+  };
+}
+
+// Waits for 'drain' when the client reads slower than we write, and fails
+// when it goes away, so an abandoned export stops reading from the store
+function send(out: Writable, chunk: string): Promise<void> {
+  if (out.destroyed) return Promise.reject(new Error('Client disconnected'));
+  if (!chunk || out.write(chunk)) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const onDrain = () => {
+      out.off('close', onClose);
+      resolve();
+    };
+    const onClose = () => {
+      out.off('drain', onDrain);
+      reject(new Error('Client disconnected'));
+    };
+    out.once('drain', onDrain);
+    out.once('close', onClose);
+  });
+}
+
+// Quoted when needed. Text starting with =, +, - or @ gets a leading
+// apostrophe so spreadsheets don't run it as a formula.
+function csvCell(value: ExportValue): string {
+  if (value === null) return '';
+  if (typeof value !== 'string' && !Array.isArray(value)) return String(value);
+
+  let text = Array.isArray(value) ? value.join('; ') : value;
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,178 @@
+import type { Article } from './scraper';
+import type { ArticleStore, Filter, NewsArticle } from './store';
+import { companyArticlesFilter, findCompany, getArticleCompanies, getCompanies } from './companies';
+import { matchesWatchlist } from './watchlists';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export const FEED_FORMATS: FeedFormat[] = ['rss', 'atom', 'json'];
+
+export interface FeedFilters {
+  source?: string;
+  category?: string;
+  /** Company name or alias */
+  company?: string;
+  watchlist?: number;
+}
+
+export interface FeedItem extends NewsArticle {
+  companies: string[];
+}
+
+export interface Feed {
+  title: string;
+  /** Absolute URL of the feed itself */
+  feedUrl: string;
+  /** Absolute URL of the site the feed belongs to */
+  siteUrl: string;
+  items: FeedItem[];
+}
+
+// Watchlists are evaluated in code, over this many of the newest articles
+const WATCHLIST_SCAN_LIMIT = 1000;
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+/**
+ * Newest stored articles matching the filters, with their companies.
+ * Resolves to an error message when a company or watchlist doesn't exist.
+ */
+export async function getFeedItems(
+  store: ArticleStore,
+  filters: FeedFilters,
+  limit: number
+): Promise<{ items: FeedItem[]; error?: string }> {
+  const where: Filter<'news_articles'>[] = [];
+  if (filters.source) where.push({ column: 'source', op: 'eq', value: filters.source });
+  if (filters.category) where.push({ column: 'topic', op: 'eq', value: filters.category });
+
+  if (filters.company) {
+    const company = findCompany(await getCompanies(store), filters.company);
+    if (!company) return { items: [], error: `Unknown company: ${filters.company}` };
+
+    where.push(companyArticlesFilter(company.id));
+  }
+
+  const [watchlist] = filters.watchlist !== undefined
+    ? await store.query('watchlists', { filters: [{ column: 'id', op: 'eq', value: filters.watchlist }] })
+    : [];
+  if (filters.watchlist !== undefined && !watchlist) {
+    return { items: [], error: `Unknown watchlist: ${filters.watchlist}` };
+  }
+
+  const rows = await store.query('news_articles', {
+    filters: where,
+    orderBy: [{ column: 'published_date', ascending: false }],
+    limit: watchlist ? WATCHLIST_SCAN_LIMIT : limit,
+  });
+
+  const companiesById = await getArticleCompanies(store, rows.map(row => row.id));
+  let items = rows.map(row => ({ ...row, companies: companiesById[row.id] || [] }));
+
+  if (watchlist) {
+    const companies = await getCompanies(store);
+    items = items.filter(item => matchesWatchlist(watchlist, toArticle(item), companies)).slice(0, limit);
+  }
+
+  return { items };
+}
+
+export function renderFeed(format: FeedFormat, feed: Feed): { contentType: string; body: string } {
+  const body = format === 'rss' ? renderRss(feed) : format === 'atom' ? renderAtom(feed) : renderJsonFeed(feed);
+  return { contentType: CONTENT_TYPES[format], body };
+}
+
+// Articles without a URL of their own are stored without one, so the row
+// id is the only stable, unique item id
+function itemId(item: FeedItem): string {
+  return `urn:news-monitor:article:${item.id}`;
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.items.map(item => `    <item>
+      <title>${escapeXml(item.title)}</title>
+${item.url ? `      <link>${escapeXml(item.url)}</link>\n` : ''}      <guid isPermaLink="false">${itemId(item)}</guid>
+      <pubDate>${new Date(item.published_date).toUTCString()}</pubDate>
+      <category>${escapeXml(item.topic)}</category>
+    </item>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.siteUrl)}</link>
+    <description>${escapeXml(feed.title)}</description>
+    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml" />
+    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+${items.join('\n')}
+  </channel>
+</rss>
+`;
+}
+
+function renderAtom(feed: Feed): string {
+  const updated = feed.items[0]?.published_date || new Date().toISOString();
+  const entries = feed.items.map(item => `  <entry>
+    <id>${itemId(item)}</id>
+    <title>${escapeXml(item.title)}</title>
+${item.url ? `    <link rel="alternate" href="${escapeXml(item.url)}" />\n` : ''}    <published>${new Date(item.published_date).toISOString()}</published>
+    <updated>${new Date(item.published_date).toISOString()}</updated>
+    <category term="${escapeXml(item.topic)}" />
+${item.source ? `    <author><name>${escapeXml(item.source)}</name></author>\n` : ''}  </entry>`);
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.feedUrl)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <updated>${new Date(updated).toISOString()}</updated>
+  <link rel="self" href="${escapeXml(feed.feedUrl)}" />
+  <link rel="alternate" href="${escapeXml(feed.siteUrl)}" />
+  <author><name>FireCrawl News Monitor</name></author>
+${entries.join('\n')}
+</feed>
+`;
+}
+
+// JSON Feed 1.1 has no category element; the category is the first tag
+function renderJsonFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    home_page_url: feed.siteUrl,
+    feed_url: feed.feedUrl,
+    items: feed.items.map(item => ({
+      id: itemId(item),
+      url: item.url || undefined,
+      title: item.title,
+      content_text: item.title,
+      date_published: new Date(item.published_date).toISOString(),
+      tags: [item.topic].concat(item.companies),
+      authors: item.source ? [{ name: item.source }] : undefined,
+    })),
+  }, null, 2);
+}
+
+function toArticle(item: FeedItem): Article {
+  return {
+    headline: item.title,
+    category: item.topic,
+    companies: item.companies,
+    source: item.source || '',
+    url: item.url || undefined,
+    publishedAt: item.published_date,
+    extractionMethod: item.extraction_method || 'extract',
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
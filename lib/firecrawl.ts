@@ -0,0 +1,255 @@
+import axios from 'axios';
+import { createCircuitBreaker } from './circuitBreaker';
+
+export const DEFAULT_FIRECRAWL_BASE_URL = 'https://api.firecrawl.dev';
+
+export interface ExtractRequest {
+  urls: string[];
+  prompt: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ExtractResponse<T> {
+  success: boolean;
+  data?: { extract?: T }[];
+  error?: string;
+  creditsUsed?: number;
+}
+
+export interface ScrapeRequest {
+  url: string;
+  formats: ('markdown' | 'html' | 'links')[];
+  onlyMainContent?: boolean;
+}
+
+export interface ScrapedDocument {
+  markdown?: string;
+  html?: string;
+  links?: string[];
+  metadata?: {
+    title?: string;
+    sourceURL?: string;
+    statusCode?: number;
+    [key: string]: unknown;
+  };
+}
+
+export interface ScrapeResponse {
+  success: boolean;
+  data?: ScrapedDocument;
+  error?: string;
+  creditsUsed?: number;
+}
+
+/** What one extract or scrape call cost, retries included. */
+export interface FirecrawlUsage {
+  endpoint: 'extract' | 'scrape';
+  /** The page scraped, or the first page of an extract */
+  url: string;
+  /** HTTP requests made */
+  requests: number;
+  credits: number;
+  /** Whether the credits are our estimate, because FireCrawl didn't report them */
+  estimated: boolean;
+  success: boolean;
+}
+
+export interface CallOptions {
+  /** Called once the call has succeeded or failed for good, if any request was made */
+  onUsage?: (usage: FirecrawlUsage) => void;
+}
+
+export type FirecrawlErrorCode = 'auth' | 'rate_limited' | 'timeout' | 'upstream' | 'circuit_open';
+
+export class FirecrawlError extends Error {
+  constructor(
+    message: string,
+    public code: FirecrawlErrorCode,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'FirecrawlError';
+    Object.setPrototypeOf(this, FirecrawlError.prototype);
+  }
+}
+
+export interface FirecrawlClient {
+  /** Structured extraction; resolves to the first document's extract, if any. */
+  extract<T>(request: ExtractRequest, options?: CallOptions): Promise<T | undefined>;
+  /** Single-page scrape; resolves to the scraped document, if any. */
+  scrape(request: ScrapeRequest, options?: CallOptions): Promise<ScrapedDocument | undefined>;
+}
+
+export interface FirecrawlClientOptions {
+  apiKey: string;
+  baseUrl?: string;
+  /** Per-attempt timeout (FIRECRAWL_TIMEOUT_MS, default 15s) */
+  timeoutMs?: number;
+  /** Retries after the first attempt (FIRECRAWL_MAX_RETRIES, default 2) */
+  maxRetries?: number;
+  /**
+   * Epoch ms after which no call is started or retried. Defaults to
+   * FIRECRAWL_BUDGET_MS (25s) from client creation, inside Vercel's 30s
+   * maxDuration with room left to write the results.
+   */
+  deadline?: number;
+}
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+// Credits charged for a successful call when the response doesn't say.
+// A scrape costs one credit per page; extract pricing varies with the page,
+// so FIRECRAWL_EXTRACT_CREDITS can tune the estimate.
+const SCRAPE_CREDITS = 1;
+
+// Shared by every client in this process so one failing request's
+// failures count towards the next one's decision
+const breaker = createCircuitBreaker({ failureThreshold: 5, cooldownMs: 60000 });
+
+/**
+ * Typed wrapper over the FireCrawl v1 REST API with bounded retries,
+ * per-call timeouts and a circuit breaker. The base URL defaults to
+ * FIRECRAWL_BASE_URL, which can point at the local stand-in server
+ * (scripts/firecrawl-stand-in.js) for offline development.
+ */
+export function createFirecrawlClient({
+  apiKey,
+  baseUrl,
+  timeoutMs = envNumber('FIRECRAWL_TIMEOUT_MS', 15000),
+  maxRetries = envNumber('FIRECRAWL_MAX_RETRIES', 2),
+  deadline = Date.now() + envNumber('FIRECRAWL_BUDGET_MS', 25000),
+}: FirecrawlClientOptions): FirecrawlClient {
+  const http = axios.create({
+    baseURL: (baseUrl || process.env.FIRECRAWL_BASE_URL || DEFAULT_FIRECRAWL_BASE_URL).replace(/\/+$/, ''),
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const post = async <T extends { creditsUsed?: number }>(
+    endpoint: FirecrawlUsage['endpoint'],
+    url: string,
+    body: unknown,
+    { onUsage }: CallOptions = {}
+  ): Promise<T> => {
+    const report = (requests: number, data?: T) => {
+      if (requests === 0 || !onUsage) return;
+      const reported = typeof data?.creditsUsed === 'number' ? data.creditsUsed : undefined;
+      const estimate = endpoint === 'scrape' ? SCRAPE_CREDITS : envNumber('FIRECRAWL_EXTRACT_CREDITS', 5);
+      onUsage({
+        endpoint,
+        url,
+        requests,
+        // Failed requests are not charged
+        credits: data ? reported ?? estimate : 0,
+        estimated: !!data && reported === undefined,
+        success: !!data,
+      });
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      if (!breaker.canRequest()) {
+        report(attempt);
+        throw new FirecrawlError('FireCrawl is failing repeatedly; calls are paused for a minute', 'circuit_open');
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        report(attempt);
+        throw new FirecrawlError('FireCrawl time budget exhausted', 'timeout');
+      }
+
+      let data: T;
+      try {
+        data = (await http.post<T>(`/v1/${endpoint}`, body, { timeout: Math.min(timeoutMs, remaining) })).data;
+        breaker.recordSuccess();
+      } catch (error: any) {
+        const firecrawlError = toFirecrawlError(error);
+        const retryable = isRetryable(firecrawlError);
+
+        // A 4xx other than 429 still means FireCrawl itself is up
+        if (retryable) {
+          breaker.recordFailure();
+        } else {
+          breaker.recordSuccess();
+        }
+
+        const delay = firecrawlError.retryAfterMs ?? backoff(attempt);
+        if (!retryable || attempt >= maxRetries || Date.now() + delay >= deadline) {
+          report(attempt + 1);
+          throw firecrawlError;
+        }
+
+        console.log(`FireCrawl /v1/${endpoint} failed (${firecrawlError.code}), retrying in ${delay}ms...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        continue;
+      }
+
+      report(attempt + 1, data || ({} as T));
+      return data;
+    }
+  };
+
+  return {
+    async extract<T>(request: ExtractRequest, options?: CallOptions) {
+      const response = await post<ExtractResponse<T>>('extract', request.urls[0], request, options);
+      return response?.data?.[0]?.extract;
+    },
+
+    async scrape(request: ScrapeRequest, options?: CallOptions) {
+      const response = await post<ScrapeResponse>('scrape', request.url, request, options);
+      return response?.data;
+    },
+  };
+}
+
+function toFirecrawlError(error: any): FirecrawlError {
+  if (error instanceof FirecrawlError) return error;
+
+  const status: number | undefined = error.response?.status;
+  const detail: string | undefined = error.response?.data?.error;
+  const message = detail ? `${error.message}: ${detail}` : error.message;
+
+  if (!status) {
+    const timedOut = error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT' || /timeout/i.test(error.message);
+    return new FirecrawlError(message, timedOut ? 'timeout' : 'upstream');
+  }
+  if (status === 401 || status === 403) {
+    return new FirecrawlError(message, 'auth', status);
+  }
+  if (status === 429) {
+    return new FirecrawlError(message, 'rate_limited', status, parseRetryAfter(error.response.headers?.['retry-after']));
+  }
+  if (status === 408 || status === 504) {
+    return new FirecrawlError(message, 'timeout', status);
+  }
+  return new FirecrawlError(message, 'upstream', status);
+}
+
+function isRetryable(error: FirecrawlError): boolean {
+  if (error.code === 'rate_limited' || error.code === 'timeout') return true;
+  return error.code === 'upstream' && (error.status === undefined || error.status >= 500);
+}
+
+// Exponential backoff with full jitter
+function backoff(attempt: number): number {
+  return Math.round(Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt + 1)));
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && !isNaN(value) ? value : fallback;
+}
@@ -0,0 +1,134 @@
+import { runScrape, type Article, type ScrapeResponse, type SourceResult } from './scraper';
+import type { NewsSource } from './sources';
+import type { ArticleStore, NewRow } from './store';
+import type { FirecrawlClient } from './firecrawl';
+
+export type JobStatus = 'running' | 'succeeded' | 'failed';
+
+export interface SourceProgress {
+  source: string;
+  status: 'pending' | 'done' | 'failed';
+  result?: SourceResult;
+}
+
+// Row shape of the scrape_jobs table
+export interface ScrapeJob {
+  id: number;
+  status: JobStatus;
+  sources: SourceProgress[];
+  /** Articles found so far; the full set once the job has finished */
+  articles: Article[];
+  /** Final outcome, without the articles (see `articles`) */
+  result: Omit<ScrapeResponse, 'articles'> | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// Slack on top of the budget before a silent job counts as lost
+const STALE_GRACE_MS = 30000;
+
+/** Time a job may spend on FireCrawl calls: FIRECRAWL_JOB_BUDGET_MS, default 270s. */
+export function jobBudgetMs(): number {
+  return Number(process.env.FIRECRAWL_JOB_BUDGET_MS) || 270000;
+}
+
+export async function createScrapeJob(store: ArticleStore, sources: NewsSource[]): Promise<ScrapeJob> {
+  const [job] = await store.insert('scrape_jobs', [{
+    status: 'running',
+    sources: sources.map((source): SourceProgress => ({ source: source.id, status: 'pending' })),
+    articles: [],
+    result: null,
+    updated_at: new Date().toISOString(),
+    finished_at: null,
+  }]);
+  return job;
+}
+
+/**
+ * Reads a job. A job still running with no update for longer than the job
+ * budget was lost with its invocation (frozen or stopped at its time
+ * limit), so it is marked failed here; nothing else would finish it.
+ */
+export async function getScrapeJob(store: ArticleStore, id: number): Promise<ScrapeJob | undefined> {
+  const [job] = await store.query('scrape_jobs', { filters: [{ column: 'id', op: 'eq', value: id }] });
+  if (!job || job.status !== 'running' || Date.now() - Date.parse(job.updated_at) <= jobBudgetMs() + STALE_GRACE_MS) {
+    return job;
+  }
+
+  const now = new Date().toISOString();
+  // Only if it still hasn't moved, so a job that just finished keeps its result
+  const [failed] = await store.update('scrape_jobs', [
+    { column: 'id', op: 'eq', value: id },
+    { column: 'status', op: 'eq', value: 'running' },
+    { column: 'updated_at', op: 'eq', value: job.updated_at },
+  ], {
+    status: 'failed',
+    result: { success: false, error: 'The scrape job stopped before it finished', errorCode: 'timeout' },
+    updated_at: now,
+    finished_at: now,
+  });
+  if (failed) return failed;
+
+  const [current] = await store.query('scrape_jobs', { filters: [{ column: 'id', op: 'eq', value: id }] });
+  return current;
+}
+
+/**
+ * Runs the scrape behind a job, writing per-source progress and partial
+ * results to scrape_jobs as each source finishes so pollers and the event
+ * stream can follow along from any instance.
+ */
+export async function runScrapeJob(
+  job: ScrapeJob,
+  sources: NewsSource[],
+  { firecrawl, store }: { firecrawl: FirecrawlClient; store: ArticleStore }
+): Promise<void> {
+  let progress = job.sources;
+  let articles: Article[] = [];
+
+  // Progress callbacks fire concurrently; write them in order so an older
+  // snapshot never overwrites a newer one
+  let writes: Promise<void> = Promise.resolve();
+  const save = (patch: Partial<NewRow<'scrape_jobs'>>) => {
+    writes = writes
+      .then(() => store.update('scrape_jobs', [{ column: 'id', op: 'eq', value: job.id }], {
+        ...patch,
+        updated_at: new Date().toISOString(),
+      }))
+      .then(() => undefined)
+      .catch(error => console.error(`Error updating scrape job ${job.id}:`, error.message));
+    return writes;
+  };
+
+  try {
+    const { response } = await runScrape(sources, {
+      firecrawl,
+      store,
+      trigger: 'manual',
+      onSourceComplete: (result, sourceArticles) => {
+        progress = progress.map(p => (
+          p.source === result.source ? { source: p.source, status: result.error ? 'failed' : 'done', result } : p
+        ));
+        articles = articles.concat(sourceArticles);
+        return save({ sources: progress, articles });
+      },
+    });
+
+    const { articles: finalArticles, ...result } = response;
+    await save({
+      status: response.success ? 'succeeded' : 'failed',
+      sources: progress.map(p => ({ ...p, result: response.sources?.find(r => r.source === p.source) || p.result })),
+      articles: finalArticles || articles,
+      result,
+      finished_at: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    console.error(`Scrape job ${job.id} failed:`, error.message);
+    await save({
+      status: 'failed',
+      result: { success: false, error: error.message },
+      finished_at: new Date().toISOString(),
+    });
+  }
+}
@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+
+export interface MailMessage {
+  from: string;
+  to: string[];
+  subject: string;
+  /** Plain-text part */
+  text: string;
+  /** HTML part */
+  html: string;
+}
+
+export interface MailTransport {
+  /** Resolves to the Message-ID once the server has accepted the message. */
+  send(message: MailMessage): Promise<{ messageId: string }>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  /** TLS from the start (usually port 465); otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  timeoutMs: number;
+}
+
+/** SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD and SMTP_TIMEOUT_MS; undefined without SMTP_HOST. */
+export function smtpConfigFromEnv(): SmtpConfig | undefined {
+  const host = process.env.SMTP_HOST;
+  if (!host) return undefined;
+
+  const secure = process.env.SMTP_SECURE === 'true';
+  return {
+    host,
+    port: Number(process.env.SMTP_PORT) || (secure ? 465 : 587),
+    secure,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined,
+    timeoutMs: Number(process.env.SMTP_TIMEOUT_MS) || 10000,
+  };
+}
+
+/**
+ * Sends each message over its own SMTP connection: EHLO, STARTTLS when
+ * offered, AUTH PLAIN when a user is configured, then one MAIL FROM, a
+ * RCPT TO per recipient and DATA. Any reply other than the expected one
+ * rejects with the server's reply.
+ */
+export function createSmtpTransport(config: SmtpConfig): MailTransport {
+  return {
+    async send(message) {
+      const messageId = `<${crypto.randomBytes(12).toString('hex')}@${domainOf(message.from)}>`;
+      const session = await openSession(config);
+      try {
+        await session.expect(220);
+        let features = await session.command(`EHLO ${os.hostname()}`, 250);
+
+        // Each line of the EHLO reply is an extension after "250-" or "250 "
+        if (!config.secure && /^\d{3}[- ]STARTTLS\s*$/im.test(features)) {
+          await session.command('STARTTLS', 220);
+          await session.upgrade();
+          features = await session.command(`EHLO ${os.hostname()}`, 250);
+        }
+
+        if (config.user) {
+          if (!/^\d{3}[- ]AUTH\b.*\bPLAIN\b/im.test(features)) {
+            throw new Error('SMTP server does not offer AUTH PLAIN');
+          }
+          const credentials = Buffer.from(`\0${config.user}\0${config.password || ''}`).toString('base64');
+          await session.command(`AUTH PLAIN ${credentials}`, 235);
+        }
+
+        await session.command(`MAIL FROM:<${addressOf(message.from)}>`, 250);
+        for (const recipient of message.to) {
+          await session.command(`RCPT TO:<${addressOf(recipient)}>`, [250, 251]);
+        }
+        await session.command('DATA', 354);
+        // A line holding a single dot ends the data, so leading dots are doubled
+        const data = buildMimeMessage(message, messageId).replace(/^\./gm, '..');
+        await session.command(`${data}\r\n.`, 250);
+        await session.command('QUIT', 221).catch(() => undefined);
+        return { messageId };
+      } finally {
+        session.close();
+      }
+    },
+  };
+}
+
+/** The message as an RFC 5322 multipart/alternative document with CRLF line endings. */
+export function buildMimeMessage(message: MailMessage, messageId: string, date = new Date()): string {
+  const boundary = `=_${crypto.randomBytes(12).toString('hex')}`;
+  const part = (type: string, body: string) => [
+    `--${boundary}`,
+    `Content-Type: ${type}; charset=utf-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    base64Lines(body),
+  ].join('\r\n');
+
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    part('text/plain', message.text),
+    part('text/html', message.html),
+    `--${boundary}--`,
+  ].join('\r\n');
+}
+
+interface Session {
+  /** Waits for the next reply and checks its code. */
+  expect(codes: number | number[]): Promise<string>;
+  command(line: string, codes: number | number[]): Promise<string>;
+  /** Switches the connection to TLS after STARTTLS. */
+  upgrade(): Promise<void>;
+  close(): void;
+}
+
+function openSession(config: SmtpConfig): Promise<Session> {
+  return new Promise((resolve, reject) => {
+    let socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    // Also covers connecting, so a host that never answers fails in time
+    socket.setTimeout(config.timeoutMs);
+
+    let buffer = '';
+    let failure: Error | undefined;
+    let waiting: { resolve: (reply: string) => void; reject: (error: Error) => void } | undefined;
+    const replies: string[] = [];
+
+    // A reply is complete at its last line, the one with a space after the code
+    const onData = (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      let end: RegExpExecArray | null;
+      while ((end = /^\d{3}(?: [^\r\n]*)?\r?\n/m.exec(buffer))) {
+        const length = end.index + end[0].length;
+        replies.push(buffer.slice(0, length).trim());
+        buffer = buffer.slice(length);
+      }
+      flush();
+    };
+    const onError = (error: Error) => {
+      failure = failure || error;
+      flush();
+    };
+    const onTimeout = () => {
+      onError(new Error(`SMTP server did not answer within ${config.timeoutMs}ms`));
+      socket.destroy();
+    };
+    const onClose = () => onError(new Error('SMTP connection closed'));
+
+    const flush = () => {
+      if (!waiting) return;
+      const pending = waiting;
+      if (replies.length > 0) {
+        waiting = undefined;
+        pending.resolve(replies.shift()!);
+      } else if (failure) {
+        waiting = undefined;
+        pending.reject(failure);
+      }
+    };
+
+    const listen = (target: net.Socket) => {
+      target.setTimeout(config.timeoutMs);
+      target.on('data', onData);
+      target.on('error', onError);
+      target.on('timeout', onTimeout);
+      target.on('close', onClose);
+    };
+    const unlisten = (target: net.Socket) => {
+      target.off('data', onData);
+      target.off('error', onError);
+      target.off('timeout', onTimeout);
+      target.off('close', onClose);
+    };
+
+    const expect = async (codes: number | number[]) => {
+      const reply = await new Promise<string>((resolveReply, rejectReply) => {
+        waiting = { resolve: resolveReply, reject: rejectReply };
+        flush();
+      });
+      const code = Number(reply.slice(0, 3));
+      if (([] as number[]).concat(codes).indexOf(code) === -1) {
+        throw new Error(`SMTP ${reply.replace(/\r?\n/g, ' ')}`);
+      }
+      return reply;
+    };
+
+    const onConnectTimeout = () => {
+      socket.destroy();
+      reject(new Error(`Could not connect to the SMTP server within ${config.timeoutMs}ms`));
+    };
+
+    const connectEvent = config.secure ? 'secureConnect' : 'connect';
+    socket.once(connectEvent, () => {
+      socket.off('error', reject);
+      socket.off('timeout', onConnectTimeout);
+      listen(socket);
+      resolve({
+        expect,
+        command: (line, codes) => {
+          socket.write(`${line}\r\n`);
+          return expect(codes);
+        },
+        upgrade: () => new Promise((resolveUpgrade, rejectUpgrade) => {
+          unlisten(socket);
+          const secured = tls.connect({ socket, servername: config.host });
+          // The handshake gets the same deadline as every reply
+          const onHandshakeTimeout = () => {
+            secured.destroy();
+            rejectUpgrade(new Error(`SMTP server did not finish STARTTLS within ${config.timeoutMs}ms`));
+          };
+          secured.setTimeout(config.timeoutMs);
+          secured.once('secureConnect', () => {
+            secured.off('error', rejectUpgrade);
+            secured.off('timeout', onHandshakeTimeout);
+            socket = secured;
+            listen(socket);
+            resolveUpgrade();
+          });
+          secured.once('error', rejectUpgrade);
+          secured.once('timeout', onHandshakeTimeout);
+        }),
+        close: () => {
+          unlisten(socket);
+          socket.destroy();
+        },
+      });
+    });
+    socket.once('error', reject);
+    socket.once('timeout', onConnectTimeout);
+  });
+}
+
+// "Name <a@b.c>" or "a@b.c"
+function addressOf(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] || mailbox.trim();
+}
+
+function domainOf(mailbox: string): string {
+  return addressOf(mailbox).split('@')[1] || 'localhost';
+}
+
+// Non-ASCII header text as an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString('base64')}?=`;
+}
+
+function base64Lines(body: string): string {
+  return (Buffer.from(body).toString('base64').match(/.{1,76}/g) || []).join('\r\n');
+}
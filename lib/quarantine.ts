@@ -0,0 +1,43 @@
+import type { ExtractionMethod } from './scraper';
+import type { ArticleStore } from './store';
+import type { Rejection, RejectionReason } from './validation';
+
+// Row shape of the quarantined_articles table
+export interface QuarantinedArticle {
+  id: number;
+  source: string;
+  extraction_method: ExtractionMethod;
+  reason: RejectionReason;
+  detail: string;
+  raw: unknown;
+  created_at: string;
+}
+
+export interface QuarantineEntry extends Rejection {
+  source: string;
+  extractionMethod: ExtractionMethod;
+}
+
+/**
+ * Stores rejected extraction items with their raw payload so prompt
+ * regressions can be inspected. Failures are logged, not raised.
+ */
+export async function quarantineArticles(store: ArticleStore, entries: QuarantineEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    await store.insert(
+      'quarantined_articles',
+      entries.map(entry => ({
+        source: entry.source,
+        extraction_method: entry.extractionMethod,
+        reason: entry.reason,
+        detail: entry.detail,
+        raw: entry.raw,
+      }))
+    );
+    console.log(`Quarantined ${entries.length} invalid articles`);
+  } catch (error: any) {
+    console.error('Error quarantining articles:', error.message);
+  }
+}
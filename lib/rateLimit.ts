@@ -0,0 +1,50 @@
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** When the current window ends, in ms since the epoch */
+  resetAt: number;
+}
+
+export interface RateLimiter {
+  /** Counts one request for `key` against `limit` requests per window. */
+  take(key: string, limit: number): RateLimitResult;
+  /** The same answer as `take`, without counting anything. */
+  peek(key: string, limit: number): RateLimitResult;
+}
+
+/**
+ * Fixed-window request counter. Like the circuit breaker, it keeps its
+ * counts in memory, so on serverless each warm instance enforces the limit
+ * on its own and a client spread over several instances gets a little more.
+ */
+export function createRateLimiter({ windowMs }: { windowMs: number }): RateLimiter {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const current = (key: string) => {
+    const now = Date.now();
+    let window = windows.get(key);
+    if (!window || now - window.startedAt >= windowMs) {
+      window = { startedAt: now, count: 0 };
+      windows.set(key, window);
+      // Expired windows are dropped lazily, whenever a new one starts
+      windows.forEach((other, otherKey) => {
+        if (now - other.startedAt >= windowMs) windows.delete(otherKey);
+      });
+    }
+    return window;
+  };
+
+  return {
+    take(key, limit) {
+      const window = current(key);
+      const allowed = window.count < limit;
+      if (allowed) window.count++;
+      return { allowed, limit, remaining: limit - window.count, resetAt: window.startedAt + windowMs };
+    },
+    peek(key, limit) {
+      const window = current(key);
+      return { allowed: window.count < limit, limit, remaining: limit - window.count, resetAt: window.startedAt + windowMs };
+    },
+  };
+}
@@ -0,0 +1,7 @@
+/** Each role may do everything the roles before it may. */
+export const ROLES = ['viewer', 'operator', 'admin'] as const;
+export type Role = typeof ROLES[number];
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
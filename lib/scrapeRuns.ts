@@ -0,0 +1,71 @@
+import type { ExtractionMethod, ScrapeErrorCode, SourceResult } from './scraper';
+import type { ArticleStore } from './store';
+import type { FirecrawlUsage } from './firecrawl';
+import { recordUsage, type UsageRecord } from './usage';
+
+export type ScrapeTrigger = 'manual' | 'cron';
+
+// Row shape of the scrape_runs table
+export interface ScrapeRun {
+  id: number;
+  trigger: ScrapeTrigger;
+  source: string;
+  started_at: string;
+  finished_at: string;
+  article_count: number;
+  new_articles: number;
+  known_articles: number;
+  rejected_articles: number;
+  extraction_method: ExtractionMethod | null;
+  error: string | null;
+  error_code: ScrapeErrorCode | null;
+  /** Steps after storing the articles that failed; the run itself succeeded */
+  warnings: string[] | null;
+}
+
+/**
+ * Writes one scrape_runs row per source, and the FireCrawl calls each
+ * source made to the usage ledger. A failure here is logged but never
+ * fails the scrape itself: the articles are already stored by this point.
+ */
+export async function recordScrapeRuns(
+  store: ArticleStore,
+  trigger: ScrapeTrigger,
+  startedAt: string,
+  results: SourceResult[],
+  usage: Record<string, FirecrawlUsage[]> = {},
+  warnings: string[] = []
+): Promise<void> {
+  const finishedAt = new Date().toISOString();
+
+  let runs: ScrapeRun[] = [];
+  try {
+    runs = await store.insert(
+      'scrape_runs',
+      results.map(result => ({
+        trigger,
+        source: result.source,
+        started_at: startedAt,
+        finished_at: finishedAt,
+        article_count: result.articleCount,
+        new_articles: result.newArticles || 0,
+        known_articles: result.knownArticles || 0,
+        rejected_articles: result.rejectedCount || 0,
+        extraction_method: result.extractionMethod || null,
+        error: result.error || null,
+        error_code: result.errorCode || null,
+        warnings: warnings.length > 0 ? warnings : null,
+      }))
+    );
+  } catch (error: any) {
+    console.error('Error recording scrape runs:', error.message);
+  }
+
+  await recordUsage(store, trigger, results.reduce((entries, result) => entries.concat(
+    (usage[result.source] || []).map(call => ({
+      usage: call,
+      source: result.source,
+      scrapeRunId: runs.find(run => run.source === result.source)?.id,
+    }))
+  ), [] as UsageRecord[]));
+}
@@ -0,0 +1,479 @@
+import { buildPrompt, type NewsSource } from './sources';
+import { dedupeKey } from './dedupe';
+import { recordScrapeRuns, type ScrapeTrigger } from './scrapeRuns';
+import type { ArticleStore, NewsArticle } from './store';
+import { FirecrawlError, type FirecrawlClient, type FirecrawlErrorCode, type FirecrawlUsage } from './firecrawl';
+import { validateArticle, type RejectionReason } from './validation';
+import {
+  DEFAULT_CATEGORIES,
+  categorize,
+  fallbackCategory,
+  getCategories,
+  type CategoryDefinition,
+} from './categories';
+import {
+  DEFAULT_COMPANIES,
+  companiesForArticle,
+  getCompanies,
+  linkArticleCompanies,
+  type CompanyDefinition,
+} from './companies';
+import { quarantineArticles, type QuarantineEntry } from './quarantine';
+import { notifyWatchlists } from './watchlists';
+import { updateRollups } from './analytics';
+import { clusterArticles } from './clusters';
+import { bodiesEnabled, queueArticleBodies } from './bodies';
+import { scoreSentiment } from './sentiment';
+
+// How an article was obtained: FireCrawl structured extract, the markdown
+// scrape fallback, or demo data. Mock articles are never persisted.
+export type ExtractionMethod = 'extract' | 'markdown' | 'mock';
+
+// Machine-readable failure reason so clients can tell a bad key from a
+// rate limit or an outage
+export type ScrapeErrorCode = FirecrawlErrorCode | 'db' | 'config' | 'bad_request' | 'budget_exceeded';
+
+export interface Article {
+  headline: string;
+  /** Primary company: the first one in `companies` */
+  company?: string;
+  /** Every company the article is about (see lib/companies) */
+  companies?: string[];
+  /** Name of a category in the taxonomy (see lib/categories) */
+  category: string;
+  source: string;
+  url?: string;
+  publishedAt?: string;
+  extractionMethod: ExtractionMethod;
+}
+
+export interface SourceResult {
+  source: string;
+  articleCount: number;
+  newArticles?: number;
+  knownArticles?: number;
+  extractionMethod?: ExtractionMethod;
+  /** Extracted items that failed validation and were quarantined */
+  rejectedCount?: number;
+  rejectionReasons?: Partial<Record<RejectionReason, number>>;
+  /** FireCrawl credits and HTTP requests the source used */
+  credits?: number;
+  requests?: number;
+  error?: string;
+  errorCode?: ScrapeErrorCode;
+}
+
+export interface ScrapeResponse {
+  success: boolean;
+  articles?: Article[];
+  sources?: SourceResult[];
+  error?: string;
+  errorCode?: ScrapeErrorCode;
+  supabaseInserted?: boolean;
+  newArticles?: number;
+  knownArticles?: number;
+  rejectedArticles?: number;
+  /** Steps after storing the articles that failed, e.g. linking companies */
+  warnings?: string[];
+  /** Webhook deliveries created for watchlists matching new articles */
+  watchlistAlerts?: number;
+}
+
+export interface ScrapeOptions {
+  firecrawl: FirecrawlClient;
+  store: ArticleStore;
+  trigger: ScrapeTrigger;
+  /** Called as each source finishes, before anything is stored. */
+  onSourceComplete?: (result: SourceResult, articles: Article[]) => void | Promise<void>;
+}
+
+/**
+ * Scrapes the given sources, upserts what was found into news_articles and
+ * writes one scrape_runs row per source. Shared by the manual /api/scrape
+ * route and the scheduled /api/cron/scrape route.
+ */
+export async function runScrape(
+  sources: NewsSource[],
+  { firecrawl, store, trigger, onSourceComplete }: ScrapeOptions
+): Promise<{ status: number; response: ScrapeResponse }> {
+  const startedAt = new Date().toISOString();
+
+  let categories: CategoryDefinition[];
+  try {
+    categories = await getCategories(store);
+  } catch (error: any) {
+    console.error('Error loading categories, using defaults:', error.message);
+    categories = DEFAULT_CATEGORIES;
+  }
+
+  let companies: CompanyDefinition[];
+  try {
+    companies = await getCompanies(store);
+  } catch (error: any) {
+    console.error('Error loading companies, using defaults:', error.message);
+    companies = DEFAULT_COMPANIES;
+  }
+  const withCompanies = (article: Article): Article => {
+    const names = companiesForArticle(article, companies);
+    return { ...article, company: names[0], companies: names };
+  };
+
+  // FireCrawl calls per source, for the usage ledger
+  const usage: Record<string, FirecrawlUsage[]> = {};
+
+  const results = await Promise.all(
+    sources.map(async (source): Promise<{ result: SourceResult; articles: Article[] }> => {
+      const calls: FirecrawlUsage[] = usage[source.id] = [];
+      let outcome: { result: SourceResult; articles: Article[] };
+      try {
+        const scraped = await scrapeSource(source, firecrawl, categories, call => calls.push(call));
+        const { extractionMethod, rejected } = scraped;
+        const sourceArticles = scraped.articles.map(withCompanies);
+        await quarantineArticles(store, rejected);
+        outcome = {
+          result: {
+            source: source.id,
+            articleCount: sourceArticles.length,
+            extractionMethod,
+            rejectedCount: rejected.length,
+            rejectionReasons: countReasons(rejected),
+          },
+          articles: sourceArticles,
+        };
+      } catch (error: any) {
+        console.error(`API Error (${source.id}):`, error.message);
+        outcome = {
+          result: {
+            source: source.id,
+            articleCount: 0,
+            error: `FireCrawl API error: ${error.message}`,
+            errorCode: error instanceof FirecrawlError ? error.code : 'upstream',
+          },
+          articles: [],
+        };
+      }
+
+      outcome.result.credits = calls.reduce((total, call) => total + call.credits, 0);
+      outcome.result.requests = calls.reduce((total, call) => total + call.requests, 0);
+      await onSourceComplete?.(outcome.result, outcome.articles);
+      return outcome;
+    })
+  );
+
+  const sourceResults = results.map(r => r.result);
+  const articles = results.reduce((all, r) => all.concat(r.articles), [] as Article[]);
+  const rejectedArticles = sourceResults.reduce((total, r) => total + (r.rejectedCount || 0), 0);
+
+  // Every source failed: return mock data but indicate the error
+  if (sourceResults.every(r => r.error)) {
+    await recordScrapeRuns(store, trigger, startedAt, sourceResults, usage);
+    return {
+      status: statusForErrorCode(sourceResults[0].errorCode!),
+      response: {
+        success: false,
+        error: sourceResults[0].error,
+        errorCode: sourceResults[0].errorCode,
+        articles: sources.reduce((all, source) => all.concat(generateMockData(source, categories).map(withCompanies)), [] as Article[]),
+        sources: sourceResults,
+        rejectedArticles,
+      },
+    };
+  }
+
+  const fail = async (error: string) => {
+    await recordScrapeRuns(
+      store,
+      trigger,
+      startedAt,
+      sourceResults.map(result => (result.error ? result : { ...result, error, errorCode: 'db' as const })),
+      usage
+    );
+    return {
+      status: statusForErrorCode('db'),
+      response: { success: false, error, errorCode: 'db' as const, articles, sources: sourceResults, rejectedArticles },
+    };
+  };
+
+  // Upsert articles into the store, skipping ones we already know about
+  // and never persisting mock data
+  let supabaseInserted = false;
+  let newArticles = 0;
+  let knownArticles = 0;
+  let insertedRows: NewsArticle[] = [];
+  try {
+    const ingestedAt = new Date().toISOString();
+    const rows = articles.filter(article => article.extractionMethod !== 'mock').map(article => ({
+      title: article.headline,
+      url: article.url || null,
+      topic: article.category,
+      source: article.source,
+      published_date: article.publishedAt || ingestedAt,
+      extraction_method: article.extractionMethod,
+      dedupe_key: dedupeKey(article),
+      cluster_id: null,
+      sentiment: scoreSentiment(article.headline),
+    }));
+    const uniqueRows = rows.filter((row, index) => rows.findIndex(r => r.dedupe_key === row.dedupe_key) === index);
+
+    if (uniqueRows.length > 0) {
+      insertedRows = await store.upsert('news_articles', uniqueRows, {
+        onConflict: 'dedupe_key',
+        ignoreDuplicates: true,
+      });
+
+      supabaseInserted = true;
+      newArticles = insertedRows.length;
+      knownArticles = uniqueRows.length - newArticles;
+      console.log(`Upserted ${uniqueRows.length} articles (${newArticles} new)`);
+
+      const insertedKeys = new Set(insertedRows.map(row => row.dedupe_key));
+      for (const result of sourceResults) {
+        const keys = uniqueRows.filter(row => row.source === result.source).map(row => row.dedupe_key);
+        result.newArticles = keys.filter(key => insertedKeys.has(key)).length;
+        result.knownArticles = keys.length - result.newArticles;
+      }
+    }
+  } catch (storeError: any) {
+    console.error('Database Error:', storeError);
+    return fail(`Database error: ${storeError.message}`);
+  }
+
+  const warnings = await enrichArticles(store, insertedRows, articles);
+  await recordScrapeRuns(store, trigger, startedAt, sourceResults, usage, warnings);
+
+  // Only articles stored for the first time can trigger watchlist alerts
+  const insertedKeys = new Set(insertedRows.map(row => row.dedupe_key));
+  const ingested = articles.filter((article, index) => {
+    const key = dedupeKey(article);
+    return insertedKeys.has(key) && articles.findIndex(a => dedupeKey(a) === key) === index;
+  });
+  const watchlistAlerts = await notifyWatchlists(store, ingested, companies);
+
+  return {
+    status: 200,
+    response: {
+      success: true,
+      articles,
+      sources: sourceResults,
+      supabaseInserted,
+      newArticles,
+      knownArticles,
+      rejectedArticles,
+      ...(warnings.length > 0 ? { warnings } : {}),
+      watchlistAlerts,
+    },
+  };
+}
+
+/**
+ * Links, clusters, counts and queues the pages of newly stored articles.
+ * The articles are stored by then, so a failing step doesn't fail the
+ * scrape; its error is returned as a warning for the scrape run instead.
+ */
+async function enrichArticles(store: ArticleStore, inserted: NewsArticle[], articles: Article[]): Promise<string[]> {
+  if (inserted.length === 0) return [];
+
+  const warnings: string[] = [];
+  const step = async (name: string, run: () => Promise<void>) => {
+    try {
+      await run();
+    } catch (error: any) {
+      console.error(`Error ${name.toLowerCase()}:`, error.message);
+      warnings.push(`${name} failed: ${error.message}`);
+    }
+  };
+
+  await step('Linking companies', async () => {
+    const companiesByKey = new Map(articles.map(article => [dedupeKey(article), article.companies || []] as const));
+    const linkCount = await linkArticleCompanies(store, inserted.map(row => ({
+      articleId: row.id,
+      companies: companiesByKey.get(row.dedupe_key) || [],
+    })));
+    if (linkCount > 0) console.log(`Linked ${linkCount} article companies`);
+  });
+
+  await step('Clustering stories', async () => {
+    const clustered = await clusterArticles(store, inserted);
+    if (clustered > 0) console.log(`Added ${clustered} articles to existing stories`);
+  });
+
+  await step('Updating rollups', () => updateRollups(store, inserted));
+
+  if (bodiesEnabled()) {
+    await step('Queueing article bodies', async () => {
+      const queued = await queueArticleBodies(store, inserted);
+      if (queued > 0) console.log(`Queued ${queued} article bodies`);
+    });
+  }
+
+  return warnings;
+}
+
+function countReasons(rejected: QuarantineEntry[]): Partial<Record<RejectionReason, number>> {
+  return rejected.reduce((counts, entry) => {
+    counts[entry.reason] = (counts[entry.reason] || 0) + 1;
+    return counts;
+  }, {} as Partial<Record<RejectionReason, number>>);
+}
+
+/**
+ * HTTP status for a failed scrape: upstream problems are reported as
+ * gateway errors, our own as 4xx/500.
+ */
+export function statusForErrorCode(code: ScrapeErrorCode): number {
+  switch (code) {
+    case 'bad_request':
+      return 400;
+    case 'auth':
+    case 'upstream':
+      return 502;
+    case 'rate_limited':
+    case 'circuit_open':
+      return 503;
+    case 'budget_exceeded':
+      return 429;
+    case 'timeout':
+      return 504;
+    default:
+      return 500;
+  }
+}
+
+async function scrapeSource(
+  source: NewsSource,
+  firecrawl: FirecrawlClient,
+  categories: CategoryDefinition[],
+  onUsage: (usage: FirecrawlUsage) => void
+): Promise<{ articles: Article[]; extractionMethod: ExtractionMethod; rejected: QuarantineEntry[] }> {
+  // FireCrawl extract endpoint with structured data extraction
+  const extracted = await firecrawl.extract<{ articles?: unknown }>({
+    urls: [source.url],
+    prompt: buildPrompt(source, categories),
+    schema: {
+      type: 'object',
+      properties: {
+        articles: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              headline: { type: 'string' },
+              url: { type: 'string' },
+              publishedAt: { type: 'string' },
+              company: { type: 'string' },
+              category: { 
+                type: 'string',
+                enum: categories.map(category => category.name)
+              }
+            },
+            required: ['headline', 'category']
+          }
+        }
+      }
+    }
+  }, { onUsage });
+
+  // Extract articles from the response, quarantining anything invalid
+  let rejected: QuarantineEntry[] = [];
+
+  if (extracted && Array.isArray(extracted.articles)) {
+    const validated = validateAll(extracted.articles, source, 'extract', categories);
+    rejected = validated.rejected;
+
+    if (validated.articles.length > 0) {
+      return { articles: validated.articles, extractionMethod: 'extract', rejected };
+    }
+  }
+
+  // Fallback: If structured extraction doesn't work, try scraping and manual parsing
+  console.log(`Structured extraction failed for ${source.id}, trying scrape method...`);
+  
+  const document = await firecrawl.scrape({
+    url: source.url,
+    formats: ['markdown'],
+    onlyMainContent: true
+  }, { onUsage });
+
+  // Manual parsing fallback - extract headlines from markdown
+  if (document && document.markdown) {
+    const validated = validateAll(parseHeadlinesFromMarkdown(document.markdown, categories), source, 'markdown', categories);
+    rejected = rejected.concat(validated.rejected);
+
+    if (validated.articles.length > 0) {
+      return { articles: validated.articles, extractionMethod: 'markdown', rejected };
+    }
+  }
+
+  // Use mock data if no articles found
+  return { articles: generateMockData(source, categories), extractionMethod: 'mock', rejected };
+}
+
+// Validates items in order until the source's limit of valid articles is reached
+function validateAll(
+  items: unknown[],
+  source: NewsSource,
+  extractionMethod: ExtractionMethod,
+  categories: CategoryDefinition[]
+): { articles: Article[]; rejected: QuarantineEntry[] } {
+  const articles: Article[] = [];
+  const rejected: QuarantineEntry[] = [];
+
+  for (const item of items) {
+    if (articles.length >= source.limit) break;
+
+    const result = validateArticle(item, source, extractionMethod, categories);
+    if (result.valid) {
+      articles.push(result.article);
+    } else {
+      rejected.push({ ...result.rejection, source: source.id, extractionMethod });
+    }
+  }
+
+  return { articles, rejected };
+}
+
+// Headline candidates from markdown headers; validated like extracted items
+function parseHeadlinesFromMarkdown(markdown: string, categories: CategoryDefinition[]): Record<string, unknown>[] {
+  const candidates: Record<string, unknown>[] = [];
+  const lines = markdown.split('\n');
+  
+  for (const line of lines) {
+    // Look for markdown headers that might be headlines
+    const headlineMatch = line.match(/^#{1,4}\s+\[(.+?)\](?:\((\S+?)\))?/);
+    if (headlineMatch) {
+      const headline = headlineMatch[1];
+      const category = categorize(headline, categories) || fallbackCategory(categories);
+      
+      candidates.push({ headline, category, url: headlineMatch[2] });
+    }
+  }
+  
+  return candidates;
+}
+
+function generateMockData(source: NewsSource, categories: CategoryDefinition[]): Article[] {
+  const mockArticles: Pick<Article, 'headline'>[] = [
+    {
+      headline: "OpenAI announces new GPT-5 model with improved reasoning capabilities"
+    },
+    {
+      headline: "Series A funding round raises $50M for fintech startup Stripe competitor"
+    },
+    {
+      headline: "Apple releases iOS 18 with enhanced privacy features"
+    },
+    {
+      headline: "EU proposes new AI regulations for tech companies"
+    },
+    {
+      headline: "Tesla CEO discusses future of electric vehicle market"
+    }
+  ];
+
+  return mockArticles.map(article => ({
+    ...article,
+    category: categorize(article.headline, categories) || fallbackCategory(categories),
+    source: source.id,
+    extractionMethod: 'mock',
+  }));
+} 
\ No newline at end of file
@@ -0,0 +1,105 @@
+import type { ArticleStore } from './store';
+import { queryAll } from './store/paging';
+import { markdownToText } from './summary';
+
+/**
+ * Word weights from -3 (very negative) to 3 (very positive), tuned for tech
+ * and business news. Words missing here are neutral; a plural or third
+ * person "s" is looked up without it.
+ */
+const LEXICON: Record<string, number> = {
+  // Positive
+  'acclaim': 2, 'accelerate': 1, 'achieve': 2, 'achievement': 2, 'advance': 1, 'approve': 2, 'approved': 2,
+  'award': 2, 'beat': 2, 'best': 2, 'boom': 2, 'boost': 2, 'breakthrough': 3, 'celebrate': 2, 'champion': 2,
+  'dominate': 1, 'easier': 1, 'expand': 1, 'expansion': 1, 'faster': 1, 'gain': 2, 'good': 2, 'great': 3,
+  'grow': 1, 'growth': 2, 'improve': 2, 'improved': 2, 'improvement': 2, 'innovative': 2, 'jump': 1, 'lead': 1,
+  'leader': 1, 'milestone': 2, 'momentum': 1, 'partnership': 1, 'popular': 2, 'praise': 2, 'profit': 2,
+  'profitable': 2, 'record': 1, 'recover': 1, 'recovery': 1, 'rally': 2, 'rebound': 2, 'revolutionary': 2,
+  'safer': 1, 'soar': 2, 'soaring': 2, 'strong': 2, 'stronger': 2, 'succeed': 2, 'success': 2, 'successful': 2,
+  'surge': 2, 'thrive': 2, 'top': 1, 'triumph': 3, 'upgrade': 1, 'win': 2, 'winner': 2, 'wins': 2,
+  // Negative
+  'abuse': -3, 'accuse': -2, 'accused': -2, 'antitrust': -1, 'ban': -2, 'banned': -2, 'bankrupt': -3,
+  'bankruptcy': -3, 'breach': -3, 'bug': -1, 'collapse': -3, 'complaint': -2, 'concern': -1, 'crash': -3,
+  'crisis': -3, 'critic': -1, 'criticism': -2, 'criticize': -2, 'cut': -1, 'damage': -2, 'decline': -2,
+  'delay': -1, 'delayed': -1, 'drop': -1, 'exploit': -2, 'fail': -2, 'failed': -2, 'failure': -2, 'fall': -1,
+  'fine': -2, 'fined': -2, 'fired': -2, 'fraud': -3, 'hack': -2, 'hacked': -3, 'halt': -2, 'investigation': -2,
+  'inquiry': -1, 'lawsuit': -2, 'layoff': -3, 'layoffs': -3, 'leak': -2, 'loss': -2, 'lose': -2, 'losses': -2,
+  'miss': -2, 'outage': -2, 'penalty': -2, 'plunge': -3, 'probe': -2, 'problem': -2, 'recall': -2, 'resign': -1,
+  'risk': -1, 'scandal': -3, 'scam': -3, 'setback': -2, 'shutdown': -2, 'slash': -2, 'slump': -2, 'struggle': -2,
+  'sue': -2, 'sued': -2, 'suspend': -2, 'threat': -2, 'trouble': -2, 'tumble': -2, 'underperform': -2,
+  'vulnerability': -2, 'warn': -1, 'warning': -2, 'weak': -2, 'worse': -2, 'worst': -3,
+};
+
+// Flip the words that follow them, as in "not approved"
+const NEGATORS = ['not', 'no', 'never', 'without', 'isnt', 'arent', 'wasnt', 'wont', 'cant', 'dont', 'doesnt', 'didnt'];
+const NEGATION_SPAN = 3;
+const NEGATION_FACTOR = -0.75;
+// Squashes a sum of weights into -1..1; a single strong word scores about 0.6
+const NORMALIZATION = 15;
+// Share of the headline in an article's score when its body is known
+const HEADLINE_WEIGHT = 0.5;
+const RESCORE_CHUNK = 500;
+
+/** Sentiment of a text from -1 (negative) to 1 (positive); 0 when neutral. */
+export function scoreSentiment(text: string): number {
+  const tokens = text.toLowerCase().replace(/['’]/g, '').split(/[^a-z]+/).filter(Boolean);
+
+  const total = tokens.reduce((sum, token, index) => {
+    const weight = LEXICON[token] ?? (token.endsWith('s') ? LEXICON[token.slice(0, -1)] : undefined);
+    if (weight === undefined) return sum;
+
+    const negated = tokens.slice(Math.max(0, index - NEGATION_SPAN), index).some(word => NEGATORS.indexOf(word) !== -1);
+    return sum + (negated ? weight * NEGATION_FACTOR : weight);
+  }, 0);
+
+  return Math.round((total / Math.sqrt(total * total + NORMALIZATION)) * 1000) / 1000;
+}
+
+/** An article's sentiment: its headline, averaged with its page's markdown when fetched. */
+export function articleSentiment(headline: string, markdown?: string | null): number {
+  const score = scoreSentiment(headline);
+  if (!markdown) return score;
+
+  const combined = HEADLINE_WEIGHT * score + (1 - HEADLINE_WEIGHT) * scoreSentiment(markdownToText(markdown));
+  return Math.round(combined * 1000) / 1000;
+}
+
+/**
+ * Scores every stored article again, using fetched pages where there are
+ * any, e.g. after changing the lexicon. Returns the number whose score
+ * changed; rebuild the analytics rollups afterwards.
+ */
+export async function rescoreArticles(store: ArticleStore): Promise<{ scanned: number; changed: number }> {
+  const articles = await queryAll(store, 'news_articles', {});
+
+  // One update per distinct score rather than per article
+  const byScore: Record<string, number[]> = {};
+  for (let i = 0; i < articles.length; i += RESCORE_CHUNK) {
+    const chunk = articles.slice(i, i + RESCORE_CHUNK);
+    const bodies = await store.query('article_bodies', {
+      filters: [
+        { column: 'url', op: 'in', value: chunk.map(article => article.url).filter(Boolean) },
+        { column: 'status', op: 'eq', value: 'fetched' },
+      ],
+    });
+
+    chunk.forEach(article => {
+      const body = bodies.find(row => row.url === article.url);
+      const sentiment = articleSentiment(article.title, body?.markdown);
+      if (sentiment !== article.sentiment) (byScore[sentiment] = byScore[sentiment] || []).push(article.id);
+    });
+  }
+
+  let changed = 0;
+  for (const score of Object.keys(byScore)) {
+    const ids = byScore[score];
+    for (let i = 0; i < ids.length; i += RESCORE_CHUNK) {
+      await store.update('news_articles', [{ column: 'id', op: 'in', value: ids.slice(i, i + RESCORE_CHUNK) }], {
+        sentiment: Number(score),
+      });
+    }
+    changed += ids.length;
+  }
+
+  return { scanned: articles.length, changed };
+}
@@ -0,0 +1,101 @@
+import defaultSources from '../config/sources.json';
+import { describeCategories, type CategoryDefinition } from './categories';
+
+export interface NewsSource {
+  id: string;
+  name: string;
+  url: string;
+  prompt?: string;
+  limit: number;
+  enabled: boolean;
+}
+
+// Placeholders: {url}, {limit}, {name}, {categories}
+const DEFAULT_PROMPT = `Extract the latest {limit} article headlines from {url} and for each one, return:
+- headline (string)
+- url: the full link to the article (string)
+- publishedAt: the article's publish date and time in ISO 8601 format (string, if shown)
+- company mentioned (if any, string or null)
+- category: the name of the best matching category below
+
+Categories:
+{categories}
+
+Return as a JSON array with objects containing these fields.`;
+
+const DEFAULT_LIMIT = 5;
+
+/**
+ * Returns every configured source. The built-in list lives in
+ * config/sources.json and can be replaced wholesale with a JSON array in
+ * the NEWS_SOURCES environment variable.
+ */
+export function getSources(): NewsSource[] {
+  const raw: Partial<NewsSource>[] = process.env.NEWS_SOURCES
+    ? parseSources(process.env.NEWS_SOURCES)
+    : defaultSources;
+
+  return raw
+    .filter(source => source.id && source.url)
+    .map(source => ({
+      id: source.id!,
+      name: source.name || source.id!,
+      url: source.url!,
+      prompt: source.prompt,
+      limit: source.limit && source.limit > 0 ? source.limit : DEFAULT_LIMIT,
+      enabled: source.enabled !== false,
+    }));
+}
+
+function parseSources(value: string): Partial<NewsSource>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error: any) {
+    throw new Error(`Source configuration invalid. NEWS_SOURCES is not valid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error('Source configuration invalid. NEWS_SOURCES must be a JSON array of sources.');
+  }
+  return parsed;
+}
+
+export function getEnabledSources(): NewsSource[] {
+  return getSources().filter(source => source.enabled);
+}
+
+export function getSource(id: string): NewsSource | undefined {
+  return getSources().find(source => source.id === id);
+}
+
+/**
+ * Resolves the sources for a scrape request: the one requested by id, or
+ * every enabled source when none is given.
+ */
+export function selectSources(requested?: string): { sources: NewsSource[]; error?: string } {
+  if (requested) {
+    const source = getSource(requested);
+    return source ? { sources: [source] } : { sources: [], error: `Unknown source: ${requested}` };
+  }
+
+  const sources = getEnabledSources();
+  return sources.length > 0 ? { sources } : { sources, error: 'No enabled sources configured.' };
+}
+
+/**
+ * Fills in a source's prompt. Custom prompts without a {categories}
+ * placeholder get the category list appended, so the model always sees
+ * the current taxonomy.
+ */
+export function buildPrompt(source: NewsSource, categories: CategoryDefinition[]): string {
+  let prompt = source.prompt || DEFAULT_PROMPT;
+  if (!/\{categories\}/.test(prompt)) {
+    prompt += '\n\nCategories:\n{categories}';
+  }
+
+  return prompt
+    .replace(/\{url\}/g, source.url)
+    .replace(/\{limit\}/g, String(source.limit))
+    .replace(/\{name\}/g, source.name)
+    .replace(/\{categories\}/g, describeCategories(categories));
+}
@@ -0,0 +1,196 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { AggregateRow, ArticleStore, Filter, Link, TableName } from './types';
+
+type Row = Record<string, any>;
+
+interface FileData {
+  tables: Record<string, Row[]>;
+  sequences: Record<string, number>;
+}
+
+// Serialises reads and writes so concurrent API calls in one dev server
+// never interleave a read-modify-write of the file
+let queue: Promise<unknown> = Promise.resolve();
+
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = queue.then(fn, fn);
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Embedded store that keeps every table in a single JSON file. Meant for
+ * local development and tests, not for concurrent multi-process use.
+ */
+export function createFileStore(filePath: string): ArticleStore {
+  const load = async (): Promise<FileData> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return { tables: {}, sequences: {} };
+      }
+      throw error;
+    }
+  };
+
+  const save = async (data: FileData) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tmpPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(data, null, 2));
+    await fs.rename(tmpPath, filePath);
+  };
+
+  // Mirrors the id and created_at column defaults of the Postgres tables
+  const newRow = (data: FileData, table: string, row: Row): Row => {
+    const id = (data.sequences[table] || 0) + 1;
+    data.sequences[table] = id;
+    return { id, created_at: new Date().toISOString(), ...row };
+  };
+
+  return {
+    insert(table, rows) {
+      return withLock(async () => {
+        const data = await load();
+        const tableRows = (data.tables[table] = data.tables[table] || []);
+        const inserted = rows.map(row => newRow(data, table, row));
+        tableRows.push(...inserted);
+        await save(data);
+        return inserted as any[];
+      });
+    },
+
+    upsert(table, rows, { onConflict, ignoreDuplicates }) {
+      return withLock(async () => {
+        const data = await load();
+        const tableRows = (data.tables[table] = data.tables[table] || []);
+        const affected: Row[] = [];
+        const keys: string[] = ([] as string[]).concat(onConflict);
+
+        for (const row of rows as Row[]) {
+          const existing = tableRows.find(r => keys.every(key => r[key] === row[key]));
+          if (!existing) {
+            const inserted = newRow(data, table, row);
+            tableRows.push(inserted);
+            affected.push(inserted);
+          } else if (!ignoreDuplicates) {
+            Object.assign(existing, row);
+            affected.push(existing);
+          }
+        }
+
+        await save(data);
+        return affected as any[];
+      });
+    },
+
+    update(table, filters, patch) {
+      return withLock(async () => {
+        const data = await load();
+        const updated = (data.tables[table] || []).filter(row => matches(data, row, filters));
+        updated.forEach(row => Object.assign(row, patch));
+        await save(data);
+        return updated as any[];
+      });
+    },
+
+    delete(table, filters) {
+      return withLock(async () => {
+        const data = await load();
+        const rows = data.tables[table] || [];
+        const removed = rows.filter(row => matches(data, row, filters));
+        data.tables[table] = rows.filter(row => !matches(data, row, filters));
+        await save(data);
+        return removed as any[];
+      });
+    },
+
+    query(table, options = {}) {
+      return withLock(async () => {
+        const data = await load();
+        let rows = (data.tables[table] || []).filter(row => matches(data, row, options.filters));
+
+        if (options.orderBy && options.orderBy.length > 0) {
+          const orderBy = options.orderBy;
+          rows = rows.slice().sort((a, b) => {
+            for (const { column, ascending } of orderBy) {
+              const result = compare(a[column], b[column]);
+              if (result !== 0) return ascending === false ? -result : result;
+            }
+            return 0;
+          });
+        }
+
+        const offset = options.offset || 0;
+        const end = options.limit !== undefined ? offset + options.limit : undefined;
+        return rows.slice(offset, end) as any[];
+      });
+    },
+
+    aggregate(table, { filters, groupBy }) {
+      return withLock(async () => {
+        const data = await load();
+        const groups = new Map<string, AggregateRow>();
+
+        (data.tables[table] || []).filter(row => matches(data, row, filters)).forEach(row => {
+          const group: Record<string, unknown> = {};
+          groupBy.forEach(column => {
+            group[column] = row[column] ?? null;
+          });
+
+          const key = JSON.stringify(group);
+          const entry = groups.get(key) || { group, count: 0 };
+          entry.count++;
+          groups.set(key, entry);
+        });
+
+        return Array.from(groups.values());
+      });
+    },
+  };
+}
+
+function matches<K extends TableName>(data: FileData, row: Row, filters: Filter<K>[] = []): boolean {
+  return filters.every(({ column, op, value }) => {
+    const actual = row[column];
+    switch (op) {
+      case 'eq':
+        return actual === value;
+      case 'neq':
+        return actual !== value;
+      case 'gt':
+        return actual != null && compare(actual, value) > 0;
+      case 'gte':
+        return actual != null && compare(actual, value) >= 0;
+      case 'lt':
+        return actual != null && compare(actual, value) < 0;
+      case 'lte':
+        return actual != null && compare(actual, value) <= 0;
+      case 'in':
+        return (value as unknown[]).includes(actual);
+      case 'ilike':
+        return typeof actual === 'string' && likeToRegExp(String(value)).test(actual);
+      case 'linked': {
+        const link = value as Link;
+        return (data.tables[link.table] || []).some(r => r[link.via] === actual && r[link.column] === link.value);
+      }
+    }
+  });
+}
+
+// Nulls sort last, as they do in Postgres for ascending order
+function compare(a: any, b: any): number {
+  if (a == null && b == null) return 0;
+  if (a == null) return 1;
+  if (b == null) return -1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function likeToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.');
+  return new RegExp(`^${source}$`, 'i');
+}
@@ -0,0 +1,52 @@
+import path from 'path';
+import { createClient } from '@supabase/supabase-js';
+import { createFileStore } from './file';
+import { createSupabaseStore } from './supabase';
+import type { ArticleStore } from './types';
+
+export type {
+  AggregateOptions,
+  AggregateRow,
+  ArticleStore,
+  Column,
+  Filter,
+  FilterOp,
+  Link,
+  NewRow,
+  NewsArticle,
+  QueryOptions,
+  TableName,
+  Tables,
+} from './types';
+
+let store: ArticleStore | undefined;
+
+/**
+ * Returns the store selected by STORAGE_BACKEND ('supabase' or 'local').
+ * Without it, Supabase is used when SUPABASE_URL is set and the local file
+ * store otherwise. Throws when the selected backend is not configured.
+ */
+export function getStore(): ArticleStore {
+  if (store) return store;
+
+  const backend = process.env.STORAGE_BACKEND || (process.env.SUPABASE_URL ? 'supabase' : 'local');
+
+  if (backend === 'supabase') {
+    const supabaseUrl = process.env.SUPABASE_URL;
+    const supabaseKey = process.env.SUPABASE_KEY;
+
+    if (!supabaseUrl || !supabaseKey) {
+      throw new Error('Supabase configuration missing. Please add SUPABASE_URL and SUPABASE_KEY to your environment variables.');
+    }
+
+    store = createSupabaseStore(createClient(supabaseUrl, supabaseKey));
+  } else if (backend === 'local') {
+    store = createFileStore(
+      path.resolve(process.env.LOCAL_STORE_PATH || path.join('.data', 'news-monitor.json'))
+    );
+  } else {
+    throw new Error(`Unknown STORAGE_BACKEND: ${backend}. Use 'supabase' or 'local'.`);
+  }
+
+  return store;
+}
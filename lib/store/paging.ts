@@ -0,0 +1,24 @@
+import type { ArticleStore, Column, QueryOptions, TableName, Tables } from './types';
+
+// PostgREST caps responses (1000 rows by default), so large reads are paged
+const PAGE_SIZE = 1000;
+
+/**
+ * Every row matching `options`, fetched a page at a time. Rows come in
+ * `orderBy` order with the id breaking ties, or in id order without one;
+ * `limit` and `offset` don't apply.
+ */
+export async function queryAll<K extends TableName>(
+  store: ArticleStore,
+  table: K,
+  options: QueryOptions<K>
+): Promise<Tables[K][]> {
+  const rows: Tables[K][] = [];
+  const orderBy = (options.orderBy || []).concat({ column: 'id' as Column<K>, ascending: true });
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await store.query(table, { ...options, orderBy, limit: PAGE_SIZE, offset });
+    rows.push(...page);
+    if (page.length < PAGE_SIZE) return rows;
+  }
+}
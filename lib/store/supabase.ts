@@ -0,0 +1,96 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ArticleStore, Filter, Link, QueryOptions, TableName, Tables } from './types';
+
+export function createSupabaseStore(supabase: SupabaseClient): ArticleStore {
+  return {
+    async insert(table, rows) {
+      if (rows.length === 0) return [];
+
+      const { data, error } = await supabase.from(table).insert(rows).select();
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+
+    async upsert(table, rows, { onConflict, ignoreDuplicates }) {
+      if (rows.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from(table)
+        .upsert(rows, { onConflict: ([] as string[]).concat(onConflict).join(','), ignoreDuplicates })
+        .select();
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+
+    async update(table, filters, patch) {
+      const { data, error } = await applyFilters(supabase.from(table).update(patch), writable(filters)).select();
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+
+    async delete(table, filters) {
+      const { data, error } = await applyFilters(supabase.from(table).delete(), writable(filters)).select();
+      if (error) throw new Error(error.message);
+      return data || [];
+    },
+
+    async query<K extends TableName>(table: K, options: QueryOptions<K> = {}): Promise<Tables[K][]> {
+      let query = applyFilters(supabase.from(table).select(['*'].concat(embeds(options.filters)).join(', ')), options.filters);
+
+      for (const order of options.orderBy || []) {
+        query = query.order(order.column, { ascending: order.ascending !== false });
+      }
+      if (options.limit !== undefined) {
+        const offset = options.offset || 0;
+        query = query.range(offset, offset + options.limit - 1);
+      }
+
+      const { data, error } = await query;
+      if (error) throw new Error(error.message);
+      return (data || []) as unknown as Tables[K][];
+    },
+
+    // Relies on PostgREST aggregate functions (see supabase/migrations)
+    async aggregate(table, { filters, groupBy }) {
+      const columns = (groupBy as string[]).concat('count()', embeds(filters)).join(', ');
+      const { data, error } = await applyFilters(supabase.from(table).select(columns), filters);
+      if (error) throw new Error(error.message);
+
+      return ((data || []) as unknown as Record<string, unknown>[]).map(row => {
+        const group: Record<string, unknown> = {};
+        for (const column of groupBy) {
+          group[column] = row[column];
+        }
+        return { group, count: Number(row.count) };
+      });
+    },
+  };
+}
+
+// Works for both select and update builders; PostgREST's generics are too
+// deep for TypeScript to follow through a shared helper
+function applyFilters<K extends TableName, Q>(query: Q, filters: Filter<K>[] = []): Q {
+  return filters.reduce((q: any, { column, op, value }) => {
+    if (op === 'linked') {
+      const link = value as Link;
+      return q.eq(`${link.table}.${link.column}`, link.value);
+    }
+    return op === 'in' ? q.in(column, value) : q.filter(column, op, value);
+  }, query);
+}
+
+// A `linked` filter selects an empty inner embed of its table, which keeps
+// only the rows with a matching row there without returning it
+function embeds<K extends TableName>(filters: Filter<K>[] = []): string[] {
+  return filters
+    .filter(filter => filter.op === 'linked')
+    .map(filter => `${(filter.value as Link).table}!inner()`)
+    .filter((embed, index, all) => all.indexOf(embed) === index);
+}
+
+function writable<K extends TableName>(filters: Filter<K>[]): Filter<K>[] {
+  if (filters.some(filter => filter.op === 'linked')) {
+    throw new Error('linked filters only apply to queries and aggregates');
+  }
+  return filters;
+}
@@ -0,0 +1,130 @@
+import type { ExtractionMethod } from '../scraper';
+import type { ScrapeRun } from '../scrapeRuns';
+import type { ScrapeJob } from '../jobs';
+import type { QuarantinedArticle } from '../quarantine';
+import type { Category } from '../categories';
+import type { ArticleCompany, Company } from '../companies';
+import type { Watchlist } from '../watchlists';
+import type { Webhook, WebhookDelivery } from '../webhooks';
+import type { CompanyRollup, TopicRollup, WordRollup } from '../analytics';
+import type { ArticleBody } from '../bodies';
+import type { ApiKey, User } from '../auth';
+import type { UsageEntry } from '../usage';
+import type { DigestSubscriber } from '../digest';
+
+// Row shape of the news_articles table
+export interface NewsArticle {
+  id: number;
+  title: string;
+  url: string | null;
+  topic: string;
+  source: string | null;
+  published_date: string;
+  created_at: string;
+  extraction_method: ExtractionMethod | null;
+  dedupe_key: string;
+  /** Id of the story cluster (see lib/clusters); null until clustered */
+  cluster_id: number | null;
+  /** -1 (negative) to 1 (positive), see lib/sentiment; null until scored */
+  sentiment: number | null;
+}
+
+// Every table the app reads or writes, keyed by table name
+export interface Tables {
+  news_articles: NewsArticle;
+  scrape_runs: ScrapeRun;
+  scrape_jobs: ScrapeJob;
+  quarantined_articles: QuarantinedArticle;
+  categories: Category;
+  companies: Company;
+  article_companies: ArticleCompany;
+  watchlists: Watchlist;
+  webhooks: Webhook;
+  webhook_deliveries: WebhookDelivery;
+  topic_rollups: TopicRollup;
+  company_rollups: CompanyRollup;
+  word_rollups: WordRollup;
+  article_bodies: ArticleBody;
+  users: User;
+  api_keys: ApiKey;
+  firecrawl_usage: UsageEntry;
+  digest_subscribers: DigestSubscriber;
+}
+
+export type TableName = keyof Tables;
+
+// Columns filled in by the store when a row is inserted
+export type NewRow<K extends TableName> = Omit<Tables[K], 'id' | 'created_at'>;
+
+export type Column<K extends TableName> = keyof Tables[K] & string;
+
+export type FilterOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'ilike' | 'linked';
+
+export interface Filter<K extends TableName> {
+  column: Column<K>;
+  op: FilterOp;
+  /** A Link for `linked` */
+  value: unknown;
+}
+
+/**
+ * Value of a `linked` filter: keeps the rows whose column is referenced by
+ * the `via` column of a row of `table` where `column` equals `value`. For
+ * example the articles of company 7 are `{ column: 'id', op: 'linked',
+ * value: { table: 'article_companies', via: 'article_id', column:
+ * 'company_id', value: 7 } }`. The store joins, so no list of ids is sent.
+ * Only queries and aggregates take these filters.
+ */
+export interface Link {
+  table: TableName;
+  via: string;
+  column: string;
+  value: unknown;
+}
+
+export interface QueryOptions<K extends TableName> {
+  filters?: Filter<K>[];
+  orderBy?: { column: Column<K>; ascending?: boolean }[];
+  limit?: number;
+  offset?: number;
+}
+
+export interface AggregateOptions<K extends TableName> {
+  filters?: Filter<K>[];
+  groupBy: Column<K>[];
+}
+
+export interface AggregateRow {
+  group: Record<string, unknown>;
+  count: number;
+}
+
+/**
+ * Storage used by the API routes. Implemented on top of Supabase for
+ * deployments and on a local JSON file for offline development and tests.
+ */
+export interface ArticleStore {
+  insert<K extends TableName>(table: K, rows: NewRow<K>[]): Promise<Tables[K][]>;
+  /**
+   * Inserts rows, resolving conflicts on `onConflict`, one column or
+   * several that are unique together. With
+   * `ignoreDuplicates` existing rows are left alone and only the newly
+   * inserted rows are returned.
+   */
+  upsert<K extends TableName>(
+    table: K,
+    rows: NewRow<K>[],
+    options: { onConflict: Column<K> | Column<K>[]; ignoreDuplicates?: boolean }
+  ): Promise<Tables[K][]>;
+  /** Applies `patch` to every row matching `filters` and returns the updated rows. */
+  update<K extends TableName>(
+    table: K,
+    filters: Filter<K>[],
+    patch: Partial<NewRow<K>>
+  ): Promise<Tables[K][]>;
+  /** Removes every row matching `filters` and returns the removed rows. */
+  delete<K extends TableName>(table: K, filters: Filter<K>[]): Promise<Tables[K][]>;
+  query<K extends TableName>(table: K, options?: QueryOptions<K>): Promise<Tables[K][]>;
+  /** Row counts grouped by the given columns; an empty `groupBy` gives the total. */
+  aggregate<K extends TableName>(table: K, options: AggregateOptions<K>): Promise<AggregateRow[]>;
+}
@@ -0,0 +1,97 @@
+import { headlineWords } from './text';
+
+export interface Summary {
+  /** The article's most representative sentences, in reading order */
+  summary: string;
+  wordCount: number;
+  readingMinutes: number;
+}
+
+export const WORDS_PER_MINUTE = 230;
+
+const SUMMARY_SENTENCES = 3;
+// Shorter sentences are usually captions or bylines, longer ones run-ons
+const MIN_SENTENCE_WORDS = 6;
+const MAX_SENTENCE_WORDS = 60;
+// Lines with fewer words that don't end a sentence are menus, buttons or labels
+const MIN_LINE_WORDS = 8;
+
+/**
+ * The readable text of a scraped page: paragraphs separated by blank lines,
+ * without headings, images, link lists, tables or navigation fragments.
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .split(/\n\s*\n/)
+    .map(block => block
+      .split('\n')
+      .filter(line => !/^\s*(#|\||!\[|<)/.test(line))
+      .map(line => line
+        .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+        .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/<[^>]+>/g, '')
+        .replace(/[*_`]+/g, '')
+        .replace(/^\s*(>|[-+]|\d+\.)\s+/, '')
+        .trim())
+      .filter(line => line && (wordsOf(line).length >= MIN_LINE_WORDS || /[.!?]["'”’)]?$/.test(line)))
+      .join(' '))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Extractive summary of a scraped article: the sentences whose words are
+ * most frequent across the article, favouring the headline's words and the
+ * opening paragraphs. Runs locally, with no language model.
+ */
+export function summarize(markdown: string, headline = ''): Summary {
+  const text = markdownToText(markdown);
+  const wordCount = wordsOf(text).length;
+  const readingMinutes = Math.max(1, Math.round(wordCount / WORDS_PER_MINUTE));
+
+  const sentences = splitSentences(text).filter(sentence => {
+    const length = wordsOf(sentence).length;
+    return length >= MIN_SENTENCE_WORDS && length <= MAX_SENTENCE_WORDS;
+  });
+
+  const frequency: Record<string, number> = {};
+  headlineWords(text).forEach(word => {
+    frequency[word] = (frequency[word] || 0) + 1;
+  });
+  const headlineTerms = headlineWords(headline);
+
+  const scored = sentences.map((sentence, index) => {
+    const terms = headlineWords(sentence).filter((word, i, all) => all.indexOf(word) === i);
+    if (terms.length === 0) return { sentence, index, score: 0 };
+
+    const weight = terms.reduce((total, word) => total + frequency[word], 0) / terms.length;
+    const overlap = terms.filter(word => headlineTerms.indexOf(word) !== -1).length;
+    // News puts the gist first
+    const position = index < 3 ? 1.5 : index < 10 ? 1.2 : 1;
+    return { sentence, index, score: weight * (1 + overlap / Math.max(headlineTerms.length, 1)) * position };
+  });
+
+  const summary = scored
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, SUMMARY_SENTENCES)
+    .sort((a, b) => a.index - b.index)
+    .map(entry => entry.sentence)
+    .join(' ');
+
+  return { summary, wordCount, readingMinutes };
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n\n/)
+    .reduce((all, paragraph) => all.concat(
+      paragraph.replace(/([.!?]["'”’)]?)\s+(?=["'“‘(]?[A-Z0-9])/g, '$1\n').split('\n')
+    ), [] as string[])
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+}
+
+function wordsOf(text: string): string[] {
+  return text.split(/\s+/).filter(word => /[A-Za-z0-9]/.test(word));
+}
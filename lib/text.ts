@@ -0,0 +1,43 @@
+// Words too common to say anything about a headline
+export const STOPWORDS = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'up', 'about', 'into', 'through', 'during', 'before', 'after', 'above', 'below', 'between', 'among', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'cant', 'wont', 'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'hasnt', 'havent', 'hadnt', 'wouldnt', 'couldnt', 'shouldnt', 'mightnt', 'mustnt']);
+
+/** Headline words worth counting: lowercased, three letters or more, no stopwords. */
+export function headlineWords(headline: string): string[] {
+  return headline
+    .toLowerCase()
+    .split(/\W+/)
+    .filter(isCountedWord);
+}
+
+/**
+ * Adjacent pairs of counted words, e.g. "open source" or "gemini agents".
+ * A stopword between two words breaks the pair.
+ */
+export function headlinePhrases(headline: string): string[] {
+  const tokens = headline.toLowerCase().split(/\W+/);
+  const phrases: string[] = [];
+  for (let i = 0; i + 1 < tokens.length; i++) {
+    if (isCountedWord(tokens[i]) && isCountedWord(tokens[i + 1])) {
+      phrases.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+  }
+  return phrases;
+}
+
+/**
+ * Position of `phrase` in `text` as a whole word or phrase (not inside a
+ * longer word), or -1. Whitespace in the phrase matches any whitespace.
+ */
+export function phraseIndex(text: string, phrase: string, caseSensitive = false): number {
+  const escaped = phrase.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+  const match = new RegExp(`(^|[^A-Za-z0-9])${escaped}(?![A-Za-z0-9])`, caseSensitive ? '' : 'i').exec(text);
+  return match ? match.index + match[1].length : -1;
+}
+
+export function containsPhrase(text: string, phrase: string, caseSensitive = false): boolean {
+  return phraseIndex(text, phrase, caseSensitive) !== -1;
+}
+
+function isCountedWord(word: string): boolean {
+  return word.length > 2 && !STOPWORDS.has(word);
+}
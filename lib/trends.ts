@@ -0,0 +1,175 @@
+import type { ArticleStore } from './store';
+import { addDays, isPhrase } from './analytics';
+import { queryAll } from './store/paging';
+
+export interface Trend {
+  /** A headline word, a two-word phrase or a company name */
+  term: string;
+  kind: 'word' | 'phrase' | 'company';
+  /** Mentions in the recent window */
+  recent: number;
+  /** Mentions the baseline predicts for the recent window, given its volume */
+  expected: number;
+  /** How many standard deviations `recent` lies above `expected` */
+  score: number;
+  /** Mentions per day over the baseline and recent windows, oldest first */
+  series: number[];
+}
+
+export interface TrendQuery {
+  /** Days, ending today (UTC), that are checked for spikes */
+  recentDays: number;
+  /** Days before the recent window that set the usual frequency */
+  baselineDays: number;
+  limit: number;
+}
+
+export interface Trends {
+  /** First day of the baseline (YYYY-MM-DD, UTC) */
+  baselineFrom: string;
+  /** First day of the recent window */
+  recentFrom: string;
+  to: string;
+  /** Emerging words and phrases, strongest first */
+  terms: Trend[];
+  /** Emerging companies, strongest first */
+  companies: Trend[];
+}
+
+export const DEFAULT_RECENT_DAYS = 3;
+export const MAX_RECENT_DAYS = 14;
+export const DEFAULT_BASELINE_DAYS = 28;
+export const MAX_BASELINE_DAYS = 90;
+export const DEFAULT_TREND_LIMIT = 10;
+export const MAX_TREND_LIMIT = 50;
+
+// A term is emerging when it is mentioned at least this often...
+const MIN_MENTIONS = 3;
+// ...and that many mentions are this unlikely under the baseline (a Poisson
+// z-score; 3 is roughly a 1 in 1000 chance)
+const MIN_SCORE = 3;
+// Terms missing from the baseline are treated as if seen this often, so a
+// single new mention is not a spike
+const UNSEEN_BASELINE = 0.5;
+// A word is left out when one emerging phrase holds this share of its
+// mentions, e.g. "agents" next to "gemini agents"
+const PHRASE_SHARE = 0.8;
+
+type QueryParams = Partial<Record<string, string | string[]>>;
+
+/** Reads a TrendQuery from `recent`, `baseline` and `limit` query parameters. */
+export function parseTrendQuery(params: QueryParams): { query?: TrendQuery; error?: string } {
+  const number = (name: string, fallback: number, max: number, min = 1) => {
+    const value = params[name];
+    if (typeof value !== 'string' || !value.trim()) return fallback;
+    const parsed = parseInt(value, 10);
+    return isNaN(parsed) || parsed < min || parsed > max ? undefined : parsed;
+  };
+
+  const recentDays = number('recent', DEFAULT_RECENT_DAYS, MAX_RECENT_DAYS);
+  if (recentDays === undefined) return { error: `recent must be between 1 and ${MAX_RECENT_DAYS} days` };
+
+  const baselineDays = number('baseline', DEFAULT_BASELINE_DAYS, MAX_BASELINE_DAYS, recentDays);
+  if (baselineDays === undefined) {
+    return { error: `baseline must be between ${recentDays} and ${MAX_BASELINE_DAYS} days` };
+  }
+
+  const limit = number('limit', DEFAULT_TREND_LIMIT, MAX_TREND_LIMIT);
+  if (limit === undefined) return { error: `limit must be between 1 and ${MAX_TREND_LIMIT}` };
+
+  return { query: { recentDays, baselineDays, limit } };
+}
+
+/**
+ * Words, phrases and companies mentioned significantly more often in the
+ * recent window than the baseline predicts. The prediction is scaled by the
+ * change in overall volume, so a busier news day alone flags nothing.
+ * Counts come from the word and company rollups, by UTC day.
+ */
+export async function getTrends(store: ArticleStore, query: TrendQuery): Promise<Trends> {
+  const to = new Date().toISOString().slice(0, 10);
+  const recentFrom = addDays(to, 1 - query.recentDays);
+  const baselineFrom = addDays(recentFrom, -query.baselineDays);
+
+  const [words, companies] = await Promise.all([
+    queryAll(store, 'word_rollups', {
+      filters: [
+        { column: 'day', op: 'gte', value: baselineFrom },
+        { column: 'day', op: 'lte', value: to },
+      ],
+    }),
+    queryAll(store, 'company_rollups', {
+      filters: [
+        { column: 'bucket', op: 'gte', value: `${baselineFrom}T00:00:00.000Z` },
+        { column: 'bucket', op: 'lt', value: `${addDays(to, 1)}T00:00:00.000Z` },
+      ],
+    }),
+  ]);
+
+  const days = query.baselineDays + query.recentDays;
+  const dayIndex = (day: string) => Math.round((Date.parse(`${day}T00:00:00Z`) - Date.parse(`${baselineFrom}T00:00:00Z`)) / 86400000);
+
+  const wordSeries = seriesBy(words.map(row => ({ term: row.word, index: dayIndex(row.day), count: row.count })), days);
+  const companySeries = seriesBy(companies.map(row => ({ term: row.company, index: dayIndex(row.bucket.slice(0, 10)), count: row.count })), days);
+
+  // Volume is measured by single words, which every headline has
+  const volume = Object.keys(wordSeries).filter(term => !isPhrase(term)).map(term => wordSeries[term]);
+  const terms = emerging(wordSeries, volume, query.baselineDays, term => (isPhrase(term) ? 'phrase' : 'word'));
+  const phrases = terms.filter(trend => trend.kind === 'phrase');
+
+  return {
+    baselineFrom,
+    recentFrom,
+    to,
+    terms: terms
+      .filter(trend => trend.kind === 'phrase' || !phrases.some(phrase =>
+        phrase.term.split(' ').indexOf(trend.term) !== -1 && phrase.recent >= trend.recent * PHRASE_SHARE))
+      .slice(0, query.limit),
+    companies: emerging(companySeries, Object.keys(companySeries).map(company => companySeries[company]), query.baselineDays, () => 'company')
+      .slice(0, query.limit),
+  };
+}
+
+// Daily counts per term over `days` days
+function seriesBy(rows: { term: string; index: number; count: number }[], days: number): Record<string, number[]> {
+  const series: Record<string, number[]> = {};
+  rows.forEach(({ term, index, count }) => {
+    if (index < 0 || index >= days) return;
+    const counts = (series[term] = series[term] || new Array(days).fill(0));
+    counts[index] += count;
+  });
+  return series;
+}
+
+function emerging(
+  series: Record<string, number[]>,
+  volume: number[][],
+  baselineDays: number,
+  kind: (term: string) => Trend['kind']
+): Trend[] {
+  const baselineTotal = volume.reduce((total, counts) => total + sum(counts.slice(0, baselineDays)), 0);
+  const recentTotal = volume.reduce((total, counts) => total + sum(counts.slice(baselineDays)), 0);
+  // Without a baseline there is nothing to compare against
+  if (baselineTotal === 0) return [];
+
+  return Object.keys(series)
+    .map(term => {
+      const counts = series[term];
+      const recent = sum(counts.slice(baselineDays));
+      const expected = (Math.max(sum(counts.slice(0, baselineDays)), UNSEEN_BASELINE) * recentTotal) / baselineTotal;
+      return {
+        term,
+        kind: kind(term),
+        recent,
+        expected: Math.round(expected * 10) / 10,
+        score: Math.round(((recent - expected) / Math.sqrt(expected)) * 10) / 10,
+        series: counts,
+      };
+    })
+    .filter(trend => trend.recent >= MIN_MENTIONS && trend.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.term.localeCompare(b.term));
+}
+
+function sum(counts: number[]): number {
+  return counts.reduce((total, count) => total + count, 0);
+}
@@ -0,0 +1,186 @@
+import type { ArticleStore } from './store';
+import type { FirecrawlUsage } from './firecrawl';
+import type { ScrapeTrigger } from './scrapeRuns';
+import { queryAll } from './store/paging';
+
+/** What spent the credits: a scrape, or the article body stage. */
+export type UsageTrigger = ScrapeTrigger | 'bodies';
+
+// Row shape of the firecrawl_usage table: one FireCrawl extract or scrape
+// call, retries included
+export interface UsageEntry {
+  id: number;
+  endpoint: FirecrawlUsage['endpoint'];
+  url: string;
+  /** Source being scraped; null for article pages */
+  source: string | null;
+  /** The scrape_runs row of the source's run; null for article pages */
+  scrape_run_id: number | null;
+  trigger: UsageTrigger;
+  requests: number;
+  credits: number;
+  estimated: boolean;
+  success: boolean;
+  created_at: string;
+}
+
+/** One call to record, with the source and run it was made for. */
+export interface UsageRecord {
+  usage: FirecrawlUsage;
+  source?: string;
+  scrapeRunId?: number;
+}
+
+export type BudgetPeriod = 'day' | 'month';
+
+export interface UsagePeriod {
+  credits: number;
+  requests: number;
+  /** Credit budget; null when none is set */
+  budget: number | null;
+  /** Start of the period (UTC) */
+  from: string;
+  /** When the period's budget starts over */
+  resetsAt: string;
+}
+
+export interface UsageSummary {
+  today: UsagePeriod;
+  month: UsagePeriod;
+  /** Every UTC day of the month so far, oldest first */
+  daily: { date: string; credits: number; requests: number }[];
+  /** This month's usage per source; null is the article body stage */
+  bySource: { source: string | null; credits: number; requests: number }[];
+  /** Share of this month's credits that are our estimates */
+  estimatedShare: number;
+}
+
+export interface BudgetExceeded {
+  period: BudgetPeriod;
+  credits: number;
+  budget: number;
+  resetsAt: string;
+  message: string;
+}
+
+/** Writes usage to the ledger. Failures are logged, never raised: the calls have been made either way. */
+export async function recordUsage(
+  store: ArticleStore,
+  trigger: UsageTrigger,
+  entries: UsageRecord[]
+): Promise<void> {
+  if (entries.length === 0) return;
+
+  try {
+    await store.insert('firecrawl_usage', entries.map(({ usage, source, scrapeRunId }) => ({
+      ...usage,
+      source: source || null,
+      scrape_run_id: scrapeRunId ?? null,
+      trigger,
+    })));
+  } catch (error: any) {
+    console.error('Error recording FireCrawl usage:', error.message);
+  }
+}
+
+/**
+ * The daily or monthly budget (FIRECRAWL_DAILY_CREDIT_BUDGET,
+ * FIRECRAWL_MONTHLY_CREDIT_BUDGET) that this period's credits have used
+ * up, if any. Periods are UTC days and months.
+ */
+export async function checkBudget(store: ArticleStore, now = new Date()): Promise<BudgetExceeded | undefined> {
+  const budgets = { day: envBudget('FIRECRAWL_DAILY_CREDIT_BUDGET'), month: envBudget('FIRECRAWL_MONTHLY_CREDIT_BUDGET') };
+  if (budgets.day === null && budgets.month === null) return undefined;
+
+  const { today, month } = summarize(await entriesSince(store, monthStart(now)), now);
+  for (const [period, usage] of [['day', today], ['month', month]] as const) {
+    const budget = budgets[period];
+    if (budget !== null && usage.credits >= budget) {
+      const label = period === 'day' ? 'Daily' : 'Monthly';
+      return {
+        period,
+        credits: usage.credits,
+        budget,
+        resetsAt: usage.resetsAt,
+        message: `${label} FireCrawl credit budget of ${budget} reached (${usage.credits} used). Scraping resumes at ${usage.resetsAt}.`,
+      };
+    }
+  }
+  return undefined;
+}
+
+export async function getUsageSummary(store: ArticleStore, now = new Date()): Promise<UsageSummary> {
+  const entries = await entriesSince(store, monthStart(now));
+  const { today, month } = summarize(entries, now);
+
+  const daily: UsageSummary['daily'] = [];
+  for (let day = monthStart(now); day <= now; day = new Date(day.getTime() + 86400000)) {
+    const date = day.toISOString().slice(0, 10);
+    const onDay = entries.filter(entry => entry.created_at.slice(0, 10) === date);
+    daily.push({ date, credits: sum(onDay, 'credits'), requests: sum(onDay, 'requests') });
+  }
+
+  const sources = entries.map(entry => entry.source).filter((source, index, all) => all.indexOf(source) === index);
+  const bySource = sources
+    .map(source => {
+      const ofSource = entries.filter(entry => entry.source === source);
+      return { source, credits: sum(ofSource, 'credits'), requests: sum(ofSource, 'requests') };
+    })
+    .sort((a, b) => b.credits - a.credits);
+
+  const estimated = sum(entries.filter(entry => entry.estimated), 'credits');
+  return { today, month, daily, bySource, estimatedShare: month.credits ? estimated / month.credits : 0 };
+}
+
+/** Credits and requests of each of the given scrape runs, keyed by run id. */
+export async function usageByRun(store: ArticleStore, runIds: number[]): Promise<Record<number, { credits: number; requests: number }>> {
+  if (runIds.length === 0) return {};
+
+  const entries = await store.query('firecrawl_usage', { filters: [{ column: 'scrape_run_id', op: 'in', value: runIds }] });
+  const byRun: Record<number, { credits: number; requests: number }> = {};
+  runIds.forEach(id => {
+    const ofRun = entries.filter(entry => entry.scrape_run_id === id);
+    byRun[id] = { credits: sum(ofRun, 'credits'), requests: sum(ofRun, 'requests') };
+  });
+  return byRun;
+}
+
+function summarize(entries: UsageEntry[], now: Date): { today: UsagePeriod; month: UsagePeriod } {
+  const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const start = monthStart(now);
+  const today = entries.filter(entry => entry.created_at >= dayStart.toISOString());
+
+  return {
+    today: {
+      credits: sum(today, 'credits'),
+      requests: sum(today, 'requests'),
+      budget: envBudget('FIRECRAWL_DAILY_CREDIT_BUDGET'),
+      from: dayStart.toISOString(),
+      resetsAt: new Date(dayStart.getTime() + 86400000).toISOString(),
+    },
+    month: {
+      credits: sum(entries, 'credits'),
+      requests: sum(entries, 'requests'),
+      budget: envBudget('FIRECRAWL_MONTHLY_CREDIT_BUDGET'),
+      from: start.toISOString(),
+      resetsAt: new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)).toISOString(),
+    },
+  };
+}
+
+function entriesSince(store: ArticleStore, from: Date): Promise<UsageEntry[]> {
+  return queryAll(store, 'firecrawl_usage', { filters: [{ column: 'created_at', op: 'gte', value: from.toISOString() }] });
+}
+
+function monthStart(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+function sum(entries: UsageEntry[], field: 'credits' | 'requests'): number {
+  return Math.round(entries.reduce((total, entry) => total + Number(entry[field]), 0) * 100) / 100;
+}
+
+function envBudget(name: string): number | null {
+  const value = Number(process.env[name]);
+  return process.env[name] && value > 0 ? value : null;
+}
@@ -0,0 +1,106 @@
+import { normalizeUrl, parsePublishedDate } from './dedupe';
+import type { Article, ExtractionMethod } from './scraper';
+import type { NewsSource } from './sources';
+import type { CategoryDefinition } from './categories';
+
+export const HEADLINE_MIN_LENGTH = 15;
+export const HEADLINE_MAX_LENGTH = 300;
+const COMPANY_MAX_LENGTH = 100;
+
+// Navigation, consent and interstitial text the model or the markdown
+// parser sometimes mistakes for a headline
+const BOILERPLATE = [
+  /^untitled( article)?$/i,
+  /^(read|see|view|load) (more|all)\b/i,
+  /\b(subscribe|sign up|log ?in|sign in)\b.*\b(newsletter|account|free|today|now)\b/i,
+  /^(newsletter|advertisement|sponsored|cookie (policy|settings)|privacy policy|terms of (service|use))$/i,
+  /^(latest|most popular|trending|top stories|related articles|more from)\b/i,
+  /just a moment|enable javascript|access denied|are you a robot/i,
+];
+
+export type RejectionReason =
+  | 'not_an_object'
+  | 'missing_headline'
+  | 'headline_too_short'
+  | 'headline_too_long'
+  | 'boilerplate_headline'
+  | 'invalid_category'
+  | 'invalid_url';
+
+export interface Rejection {
+  reason: RejectionReason;
+  detail: string;
+  raw: unknown;
+}
+
+export type ValidationResult =
+  | { valid: true; article: Article }
+  | { valid: false; rejection: Rejection };
+
+/**
+ * Runtime check of one extracted item against the Article schema. Missing
+ * or malformed publish dates and companies are dropped rather than
+ * rejected; everything else that doesn't fit is rejected with a reason.
+ */
+export function validateArticle(
+  raw: unknown,
+  source: NewsSource,
+  extractionMethod: ExtractionMethod,
+  categories: CategoryDefinition[]
+): ValidationResult {
+  const reject = (reason: RejectionReason, detail: string): ValidationResult => ({
+    valid: false,
+    rejection: { reason, detail, raw },
+  });
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return reject('not_an_object', `Expected an object, got ${Array.isArray(raw) ? 'array' : typeof raw}`);
+  }
+
+  const item = raw as Record<string, unknown>;
+
+  if (typeof item.headline !== 'string' || !item.headline.trim()) {
+    return reject('missing_headline', 'headline is missing or not a string');
+  }
+
+  const headline = item.headline.replace(/\s+/g, ' ').trim();
+  if (headline.length < HEADLINE_MIN_LENGTH) {
+    return reject('headline_too_short', `headline has ${headline.length} characters (minimum ${HEADLINE_MIN_LENGTH})`);
+  }
+  if (headline.length > HEADLINE_MAX_LENGTH) {
+    return reject('headline_too_long', `headline has ${headline.length} characters (maximum ${HEADLINE_MAX_LENGTH})`);
+  }
+  if (BOILERPLATE.some(pattern => pattern.test(headline))) {
+    return reject('boilerplate_headline', `"${headline}" looks like page boilerplate`);
+  }
+
+  const names = categories.map(category => category.name);
+  if (typeof item.category !== 'string' || !names.includes(item.category)) {
+    return reject('invalid_category', `category ${JSON.stringify(item.category)} is not one of ${names.join(', ')}`);
+  }
+
+  let url: string | undefined;
+  if (item.url !== undefined && item.url !== null && item.url !== '') {
+    url = typeof item.url === 'string' ? normalizeUrl(item.url, source.url) : undefined;
+    if (!url) {
+      return reject('invalid_url', `url ${JSON.stringify(item.url)} is not an http(s) URL`);
+    }
+  }
+
+  const company = typeof item.company === 'string' && item.company.trim() && item.company.length <= COMPANY_MAX_LENGTH
+    ? item.company.trim()
+    : undefined;
+
+  return {
+    valid: true,
+    article: {
+      headline,
+      company,
+      category: item.category,
+      source: source.id,
+      url,
+      publishedAt: parsePublishedDate(item.publishedAt),
+      extractionMethod,
+    },
+  };
+}
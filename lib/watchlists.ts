@@ -0,0 +1,143 @@
+import type { Article } from './scraper';
+import type { ArticleStore } from './store';
+import { findCompany, type CompanyDefinition } from './companies';
+import { containsPhrase } from './text';
+import { queueDeliveries } from './webhooks';
+
+export interface WatchlistTerms {
+  /** Whole words or phrases looked for in the headline */
+  keywords: string[];
+  /** Company names or aliases (see lib/companies) */
+  companies: string[];
+  /** Category names */
+  categories: string[];
+}
+
+export interface WatchlistDefinition {
+  name: string;
+  /**
+   * An article matches when, for every non-empty group, at least one term
+   * matches: keywords OR'd together, AND companies, AND categories.
+   */
+  include: WatchlistTerms;
+  /** Any matching term here rules the article out */
+  exclude: WatchlistTerms;
+  /** Webhooks (ids) that receive the matches */
+  webhook_ids: number[];
+  enabled: boolean;
+}
+
+// Row shape of the watchlists table
+export interface Watchlist extends WatchlistDefinition {
+  id: number;
+  created_at: string;
+}
+
+const EMPTY_TERMS: WatchlistTerms = { keywords: [], companies: [], categories: [] };
+
+export async function getWatchlists(store: ArticleStore): Promise<Watchlist[]> {
+  return store.query('watchlists', { orderBy: [{ column: 'name', ascending: true }] });
+}
+
+/**
+ * Evaluates every enabled watchlist against newly ingested articles and
+ * queues the matches for the watchlists' webhooks. Failures are logged, never
+ * raised: the articles are stored either way. Returns the number of
+ * deliveries created.
+ */
+export async function notifyWatchlists(
+  store: ArticleStore,
+  articles: Article[],
+  companies: CompanyDefinition[]
+): Promise<number> {
+  if (articles.length === 0) return 0;
+
+  try {
+    const watchlists = (await getWatchlists(store)).filter(watchlist => watchlist.enabled);
+    const matches = watchlists
+      .map(watchlist => ({
+        watchlist,
+        articles: articles.filter(article => matchesWatchlist(watchlist, article, companies)),
+      }))
+      .filter(match => match.articles.length > 0);
+
+    return await queueDeliveries(store, matches);
+  } catch (error: any) {
+    console.error('Error notifying watchlists:', error.message);
+    return 0;
+  }
+}
+
+/** Checks a watchlist submitted by a client. */
+export function validateWatchlist(input: any): { watchlist?: WatchlistDefinition; error?: string } {
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+
+  const include = toTerms(input.include);
+  const exclude = toTerms(input.exclude);
+  if (!include.keywords.length && !include.companies.length && !include.categories.length) {
+    return { error: 'include needs at least one keyword, company or category' };
+  }
+
+  const webhookIds = Array.isArray(input.webhook_ids) ? input.webhook_ids.map(Number) : [];
+  if (webhookIds.some((id: number) => !Number.isInteger(id) || id <= 0)) {
+    return { error: 'webhook_ids must be webhook ids' };
+  }
+
+  return {
+    watchlist: {
+      name,
+      include,
+      exclude,
+      webhook_ids: webhookIds,
+      enabled: input.enabled !== false,
+    },
+  };
+}
+
+/** Whether an article passes a watchlist's include and exclude rules. */
+export function matchesWatchlist(
+  watchlist: WatchlistDefinition,
+  article: Article,
+  companies: CompanyDefinition[]
+): boolean {
+  const { include, exclude } = watchlist;
+
+  const groups: [string[], (term: string) => boolean][] = [
+    [include.keywords, term => containsPhrase(article.headline, term)],
+    [include.companies, term => mentionsCompany(article, term, companies)],
+    [include.categories, term => sameName(article.category, term)],
+  ];
+  const included = groups.every(([terms, matches]) => terms.length === 0 || terms.some(matches));
+
+  return included
+    && !exclude.keywords.some(term => containsPhrase(article.headline, term))
+    && !exclude.companies.some(term => mentionsCompany(article, term, companies))
+    && !exclude.categories.some(term => sameName(article.category, term));
+}
+
+// A watchlist term may be an alias; articles carry canonical company names
+function mentionsCompany(article: Article, term: string, companies: CompanyDefinition[]): boolean {
+  const name = findCompany(companies, term)?.name || term;
+  return (article.companies || []).some(company => sameName(company, name));
+}
+
+function sameName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.trim().toLowerCase();
+}
+
+function toTerms(input: any): WatchlistTerms {
+  if (!input || typeof input !== 'object') return { ...EMPTY_TERMS };
+
+  const list = (value: unknown): string[] => (Array.isArray(value) ? value : [])
+    .filter((term): term is string => typeof term === 'string' && term.trim() !== '')
+    .map(term => term.trim());
+
+  return {
+    keywords: list(input.keywords),
+    companies: list(input.companies),
+    categories: list(input.categories),
+  };
+}
@@ -0,0 +1,334 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { waitUntil } from '@vercel/functions';
+import type { Article } from './scraper';
+import type { ArticleStore } from './store';
+import type { Watchlist } from './watchlists';
+
+// `slack` posts a Slack-compatible `{ text }` message; `generic` posts the
+// matches as JSON, signed with HMAC-SHA256 when the webhook has a secret
+export type WebhookFormat = 'slack' | 'generic';
+
+export interface WebhookDefinition {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  secret: string | null;
+  enabled: boolean;
+}
+
+// Row shape of the webhooks table
+export interface Webhook extends WebhookDefinition {
+  id: number;
+  created_at: string;
+}
+
+/** Webhook as returned by the API: the secret itself never leaves the server */
+export type PublicWebhook = Omit<Webhook, 'secret'> & { has_secret: boolean };
+
+// pending: waiting for its next attempt; failed: gave up
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+// Row shape of the webhook_deliveries table: one row per watchlist match
+// batch and webhook, updated on every attempt
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: number;
+  watchlist_id: number;
+  status: DeliveryStatus;
+  payload: unknown;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  next_attempt_at: string | null;
+  delivered_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+const TIMEOUT_MS = 5000;
+const MAX_ATTEMPTS = 6;
+// Attempts made right away; the rest are left to retryDueDeliveries
+const IMMEDIATE_ATTEMPTS = 2;
+const IMMEDIATE_BACKOFF_MS = 1000;
+// How long a claimed delivery is left alone by other senders; outlasts the attempts
+const CLAIM_MS = 60000;
+
+export function toPublicWebhook({ secret, ...webhook }: Webhook): PublicWebhook {
+  return { ...webhook, has_secret: !!secret };
+}
+
+/**
+ * Checks a webhook submitted by a client. On update, an omitted secret
+ * keeps the current one and an empty string removes it.
+ */
+export function validateWebhook(
+  input: any,
+  current?: Webhook
+): { webhook?: WebhookDefinition; error?: string } {
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    return { error: 'name is required' };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    return { error: 'url must be an absolute http(s) URL' };
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return { error: 'url must be an absolute http(s) URL' };
+  }
+
+  const format = input.format || 'generic';
+  if (format !== 'slack' && format !== 'generic') {
+    return { error: 'format must be slack or generic' };
+  }
+
+  let secret = current ? current.secret : null;
+  if (input.secret !== undefined) {
+    secret = typeof input.secret === 'string' && input.secret ? input.secret : null;
+  }
+
+  return { webhook: { name, url: url.toString(), format, secret, enabled: input.enabled !== false } };
+}
+
+/** The ids among `ids` that don't belong to a webhook. */
+export async function findMissingWebhooks(store: ArticleStore, ids: number[]): Promise<number[]> {
+  if (ids.length === 0) return [];
+
+  const webhooks = await store.query('webhooks', { filters: [{ column: 'id', op: 'in', value: ids }] });
+  return ids.filter(id => !webhooks.some(webhook => webhook.id === id));
+}
+
+/**
+ * Creates one delivery per webhook of each matched watchlist and makes the
+ * first attempts in the background, after the caller has answered. Returns
+ * the number of deliveries created.
+ */
+export async function queueDeliveries(
+  store: ArticleStore,
+  matches: { watchlist: Watchlist; articles: Article[] }[]
+): Promise<number> {
+  const webhookIds = matches.reduce((ids, match) => ids.concat(match.watchlist.webhook_ids), [] as number[]);
+  if (webhookIds.length === 0) return 0;
+
+  const webhooks = await store.query('webhooks', {
+    filters: [
+      { column: 'id', op: 'in', value: webhookIds },
+      { column: 'enabled', op: 'eq', value: true },
+    ],
+  });
+
+  const now = new Date().toISOString();
+  const queued = matches.reduce((all, { watchlist, articles }) => all.concat(
+    webhooks
+      .filter(webhook => watchlist.webhook_ids.includes(webhook.id))
+      .map(webhook => ({ webhook, row: {
+        webhook_id: webhook.id,
+        watchlist_id: watchlist.id,
+        status: 'pending' as const,
+        payload: buildPayload(webhook.format, watchlist, articles),
+        attempts: 0,
+        response_status: null,
+        error: null,
+        next_attempt_at: now,
+        delivered_at: null,
+        updated_at: now,
+      } }))
+  ), [] as { webhook: Webhook; row: Omit<WebhookDelivery, 'id' | 'created_at'> }[]);
+
+  if (queued.length === 0) return 0;
+
+  const deliveries = await store.insert('webhook_deliveries', queued.map(q => q.row));
+  // Slow receivers must not hold up the scrape that matched
+  waitUntil(Promise.all(deliveries.map((delivery, i) => attemptDelivery(store, queued[i].webhook, delivery, IMMEDIATE_ATTEMPTS))));
+  return deliveries.length;
+}
+
+/**
+ * Retries pending deliveries whose backoff has elapsed. Called by the
+ * deliveries cron route.
+ */
+export async function retryDueDeliveries(store: ArticleStore): Promise<{ retried: number; delivered: number }> {
+  const due = await store.query('webhook_deliveries', {
+    filters: [
+      { column: 'status', op: 'eq', value: 'pending' },
+      { column: 'next_attempt_at', op: 'lte', value: new Date().toISOString() },
+    ],
+    orderBy: [{ column: 'next_attempt_at', ascending: true }],
+    limit: 50,
+  });
+  if (due.length === 0) return { retried: 0, delivered: 0 };
+
+  const webhooks = await store.query('webhooks', {
+    filters: [{ column: 'id', op: 'in', value: due.map(delivery => delivery.webhook_id) }],
+  });
+
+  const results = await Promise.all(due.map(delivery => {
+    const webhook = webhooks.find(w => w.id === delivery.webhook_id);
+    if (!webhook || !webhook.enabled) {
+      return finish(store, delivery, {
+        status: 'failed',
+        error: webhook ? 'Webhook is disabled' : 'Webhook no longer exists',
+      }).then(() => false);
+    }
+    return attemptDelivery(store, webhook, delivery, 1);
+  }));
+
+  return { retried: due.length, delivered: results.filter(Boolean).length };
+}
+
+function buildPayload(format: WebhookFormat, watchlist: Watchlist, articles: Article[]): unknown {
+  if (format === 'slack') {
+    const lines = articles.map(article => {
+      const title = article.url ? `<${article.url}|${escapeSlack(article.headline)}>` : escapeSlack(article.headline);
+      const details = [article.category].concat(article.companies || []).join(' · ');
+      return `• ${title} (${escapeSlack(details)})`;
+    });
+    const count = articles.length === 1 ? '1 new article' : `${articles.length} new articles`;
+    return { text: `*${escapeSlack(watchlist.name)}*: ${count}\n${lines.join('\n')}` };
+  }
+
+  return {
+    event: 'watchlist.match',
+    watchlist: { id: watchlist.id, name: watchlist.name },
+    articles: articles.map(article => ({
+      headline: article.headline,
+      url: article.url || null,
+      category: article.category,
+      companies: article.companies || [],
+      source: article.source,
+      publishedAt: article.publishedAt || null,
+    })),
+  };
+}
+
+// Makes up to `attempts` tries and records the outcome; true once delivered
+async function attemptDelivery(
+  store: ArticleStore,
+  webhook: Webhook,
+  pending: WebhookDelivery,
+  attempts: number
+): Promise<boolean> {
+  const delivery = await claim(store, pending);
+  if (!delivery) return false;
+
+  let made = delivery.attempts;
+
+  for (let i = 0; i < attempts; i++) {
+    if (i > 0) await new Promise(resolve => setTimeout(resolve, IMMEDIATE_BACKOFF_MS * i));
+
+    const result = await send(webhook, delivery);
+    made++;
+
+    if (result.ok) {
+      await finish(store, delivery, { status: 'delivered', attempts: made, response_status: result.status, error: null });
+      return true;
+    }
+
+    if (!result.retryable || made >= MAX_ATTEMPTS) {
+      await finish(store, delivery, { status: 'failed', attempts: made, response_status: result.status, error: result.error });
+      return false;
+    }
+
+    if (i === attempts - 1) {
+      await finish(store, delivery, {
+        status: 'pending',
+        attempts: made,
+        response_status: result.status,
+        error: result.error,
+        next_attempt_at: new Date(Date.now() + retryDelayMs(made)).toISOString(),
+      });
+    }
+  }
+
+  return false;
+}
+
+async function send(
+  webhook: Webhook,
+  delivery: WebhookDelivery
+): Promise<{ ok: boolean; retryable: boolean; status: number | null; error: string | null }> {
+  const body = JSON.stringify(delivery.payload);
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'firecrawl-news-monitor',
+    'X-Webhook-Delivery': String(delivery.id),
+  };
+
+  // Receivers verify HMAC-SHA256(secret, "<timestamp>.<body>") and can
+  // reject stale timestamps to stop replays
+  if (webhook.secret) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    headers['X-Webhook-Timestamp'] = timestamp;
+    headers['X-Webhook-Signature'] = `sha256=${crypto.createHmac('sha256', webhook.secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  }
+
+  try {
+    const response = await axios.post(webhook.url, body, {
+      headers,
+      timeout: TIMEOUT_MS,
+      validateStatus: () => true,
+      transformRequest: [data => data],
+    });
+
+    if (response.status >= 200 && response.status < 300) {
+      return { ok: true, retryable: false, status: response.status, error: null };
+    }
+    return {
+      ok: false,
+      retryable: response.status === 429 || response.status >= 500,
+      status: response.status,
+      error: `Webhook responded with ${response.status}`,
+    };
+  } catch (error: any) {
+    return { ok: false, retryable: true, status: null, error: error.message };
+  }
+}
+
+/**
+ * Moves the delivery's next attempt past the attempts about to be made, but
+ * only while it is unchanged since it was read. The deliveries cron and an
+ * immediate attempt therefore never send the same delivery twice.
+ */
+async function claim(store: ArticleStore, delivery: WebhookDelivery): Promise<WebhookDelivery | undefined> {
+  const now = Date.now();
+  try {
+    const [claimed] = await store.update(
+      'webhook_deliveries',
+      [
+        { column: 'id', op: 'eq', value: delivery.id },
+        { column: 'status', op: 'eq', value: 'pending' },
+        { column: 'updated_at', op: 'eq', value: delivery.updated_at },
+      ],
+      { next_attempt_at: new Date(now + CLAIM_MS).toISOString(), updated_at: new Date(now).toISOString() }
+    );
+    return claimed;
+  } catch (error: any) {
+    console.error(`Error claiming webhook delivery ${delivery.id}:`, error.message);
+    return undefined;
+  }
+}
+
+function finish(store: ArticleStore, delivery: WebhookDelivery, patch: Partial<WebhookDelivery>) {
+  const now = new Date().toISOString();
+  return store
+    .update('webhook_deliveries', [{ column: 'id', op: 'eq', value: delivery.id }], {
+      ...patch,
+      ...(patch.status === 'pending' ? {} : { next_attempt_at: null }),
+      ...(patch.status === 'delivered' ? { delivered_at: now } : {}),
+      updated_at: now,
+    })
+    .catch(error => console.error(`Error updating webhook delivery ${delivery.id}:`, error.message));
+}
+
+// 2, 4, 8... minutes between the retries that follow the immediate ones
+function retryDelayMs(attempts: number): number {
+  return Math.pow(2, attempts - IMMEDIATE_ATTEMPTS + 1) * 60000;
+}
+
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
@@ -1,6 +1,12 @@
 import '@/styles/globals.css'
 import type { AppProps } from 'next/app'
+import { AccountMenu, AccountProvider } from '../components/Account'
 
 export default function App({ Component, pageProps }: AppProps) {
-  return <Component {...pageProps} />
-} 
\ No newline at end of file
+  return (
+    <AccountProvider>
+      <AccountMenu />
+      <Component {...pageProps} />
+    </AccountProvider>
+  )
+}
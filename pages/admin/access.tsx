@@ -0,0 +1,199 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import axios from 'axios';
+import { ROLES, type Role } from '../../lib/roles';
+import type { PublicApiKey, PublicUser } from '../../lib/auth';
+import type { UsersResponse } from '../api/auth/users';
+import type { ApiKeysResponse } from '../api/auth/keys';
+import { useAccount } from '../../components/Account';
+
+const emptyUser = () => ({ email: '', password: '', role: 'viewer' as Role });
+const emptyKey = () => ({ name: '', role: 'viewer' as Role, rate_limit: '' });
+
+const inputClass = 'mt-1 w-full border border-gray-300 rounded-lg px-3 py-2';
+
+const AccessAdmin = () => {
+  const { account } = useAccount();
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [keys, setKeys] = useState<PublicApiKey[]>([]);
+  const [userForm, setUserForm] = useState(emptyUser());
+  const [keyForm, setKeyForm] = useState(emptyKey());
+  // A new key is only ever shown once, right after it is created
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const loadAll = async () => {
+    try {
+      const [usersResponse, keysResponse] = await Promise.all([
+        axios.get<UsersResponse>('/api/auth/users'),
+        axios.get<ApiKeysResponse>('/api/auth/keys'),
+      ]);
+      setUsers(usersResponse.data.users || []);
+      setKeys(keysResponse.data.keys || []);
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    }
+  };
+
+  const mutate = async (change: () => Promise<unknown>) => {
+    try {
+      await change();
+      await loadAll();
+      return true;
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+      return false;
+    }
+  };
+
+  const addUser = async () => {
+    const saved = await mutate(() => axios.post('/api/auth/users', userForm));
+    if (saved) setUserForm(emptyUser());
+  };
+
+  const addKey = async () => {
+    const saved = await mutate(async () => {
+      const response = await axios.post<ApiKeysResponse>('/api/auth/keys', keyForm);
+      setCreatedKey(response.data.key || null);
+    });
+    if (saved) setKeyForm(emptyKey());
+  };
+
+  const isSelf = (user: PublicUser) => account?.kind === 'user' && account.id === user.id;
+
+  return (
+    <>
+      <Head>
+        <title>Access · FireCrawl News Monitor</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-800 mb-2">🔐 Access</h1>
+              <p className="text-gray-600">Viewers can read the dashboard, operators can also scrape and edit settings, admins manage access.</p>
+            </div>
+            <Link href="/dashboard" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              ← Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6">{error}</div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            {/* Users */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Users</h2>
+              <div className="space-y-3 mb-6">
+                {users.length === 0 && <p className="text-sm text-gray-500">No users yet.</p>}
+                {users.map(user => (
+                  <div key={user.id} className="border border-gray-200 rounded-lg p-3 flex justify-between items-center gap-3">
+                    <span className={`font-semibold truncate ${user.disabled ? 'text-gray-400 line-through' : 'text-gray-800'}`}>{user.email}</span>
+                    {isSelf(user) ? (
+                      <span className="text-xs bg-gray-100 px-2 py-0.5 rounded-full">{user.role} · you</span>
+                    ) : (
+                      <div className="flex items-center gap-2 text-sm">
+                        <select
+                          value={user.role}
+                          onChange={e => mutate(() => axios.put(`/api/auth/users/${user.id}`, { role: e.target.value }))}
+                          className="border border-gray-300 rounded px-2 py-1"
+                        >
+                          {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                        </select>
+                        <button onClick={() => mutate(() => axios.put(`/api/auth/users/${user.id}`, { disabled: !user.disabled }))} className="text-indigo-600 hover:underline">
+                          {user.disabled ? 'Enable' : 'Disable'}
+                        </button>
+                        <button onClick={() => mutate(() => axios.delete(`/api/auth/users/${user.id}`))} className="text-red-600 hover:underline">Delete</button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="font-semibold text-gray-700 mb-2">New user</h3>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Email</span>
+                <input type="email" value={userForm.email} onChange={e => setUserForm({ ...userForm, email: e.target.value })} className={inputClass} />
+              </label>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Password (at least 8 characters)</span>
+                <input type="password" autoComplete="new-password" value={userForm.password} onChange={e => setUserForm({ ...userForm, password: e.target.value })} className={inputClass} />
+              </label>
+              <label className="block mb-4">
+                <span className="text-sm text-gray-700">Role</span>
+                <select value={userForm.role} onChange={e => setUserForm({ ...userForm, role: e.target.value as Role })} className={inputClass}>
+                  {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+              </label>
+              <button onClick={addUser} className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 font-semibold">
+                Add User
+              </button>
+            </div>
+
+            {/* API Keys */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">API Keys</h2>
+              {createdKey && (
+                <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 mb-4 text-sm">
+                  <p className="text-emerald-800 mb-1">Copy the new key now; it won&apos;t be shown again.</p>
+                  <code className="block break-all bg-white px-2 py-1 rounded">{createdKey}</code>
+                </div>
+              )}
+              <div className="space-y-3 mb-6">
+                {keys.length === 0 && <p className="text-sm text-gray-500">No API keys yet.</p>}
+                {keys.map(key => (
+                  <div key={key.id} className="border border-gray-200 rounded-lg p-3 flex justify-between items-start">
+                    <div className="min-w-0">
+                      <span className={`font-semibold ${key.revoked_at ? 'text-gray-400 line-through' : 'text-gray-800'}`}>{key.name}</span>
+                      <span className="ml-2 text-xs bg-gray-100 px-2 py-0.5 rounded">{key.role}</span>
+                      <p className="text-xs text-gray-500">
+                        <code>{key.prefix}…</code>
+                        {' · '}{key.rate_limit ? `${key.rate_limit}/min` : 'default limit'}
+                        {' · '}{key.last_used_at ? `used ${new Date(key.last_used_at).toLocaleString()}` : 'never used'}
+                        {key.revoked_at && ` · revoked ${new Date(key.revoked_at).toLocaleString()}`}
+                      </p>
+                    </div>
+                    {!key.revoked_at && (
+                      <button onClick={() => mutate(() => axios.delete(`/api/auth/keys/${key.id}`))} className="text-sm text-red-600 hover:underline">Revoke</button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="font-semibold text-gray-700 mb-2">New API key</h3>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Name</span>
+                <input value={keyForm.name} onChange={e => setKeyForm({ ...keyForm, name: e.target.value })} className={inputClass} />
+              </label>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Role</span>
+                <select value={keyForm.role} onChange={e => setKeyForm({ ...keyForm, role: e.target.value as Role })} className={inputClass}>
+                  {ROLES.map(role => <option key={role} value={role}>{role}</option>)}
+                </select>
+              </label>
+              <label className="block mb-4">
+                <span className="text-sm text-gray-700">Requests per minute (optional)</span>
+                <input type="number" min={1} value={keyForm.rate_limit} onChange={e => setKeyForm({ ...keyForm, rate_limit: e.target.value })} className={inputClass} />
+              </label>
+              <button onClick={addKey} className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 font-semibold">
+                Create Key
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default AccessAdmin;
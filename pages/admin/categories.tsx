@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import axios from 'axios';
+import CategoryBadge from '../../components/CategoryBadge';
+import type { CategoryDefinition, CategoryRule, RecategorizeResult } from '../../lib/categories';
+import type { CategoriesResponse } from '../api/categories';
+import type { RecategorizeResponse } from '../api/categories/recategorize';
+
+// Rules are edited one per line; /pattern/ lines are regexes, the rest keywords
+interface EditableCategory {
+  name: string;
+  color: string;
+  description: string;
+  rules: string;
+}
+
+const toEditable = (category: CategoryDefinition): EditableCategory => ({
+  name: category.name,
+  color: category.color,
+  description: category.description,
+  rules: category.rules
+    .map(rule => (rule.type === 'regex' ? `/${rule.pattern}/` : rule.pattern))
+    .join('\n'),
+});
+
+const toDefinition = (category: EditableCategory): CategoryDefinition => ({
+  name: category.name,
+  color: category.color,
+  description: category.description,
+  rules: category.rules
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map((line): CategoryRule => {
+      const regex = /^\/(.+)\/$/.exec(line);
+      return regex ? { type: 'regex', pattern: regex[1] } : { type: 'keyword', pattern: line };
+    }),
+});
+
+const CategoriesAdmin = () => {
+  const [categories, setCategories] = useState<EditableCategory[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [recategorizing, setRecategorizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [recategorized, setRecategorized] = useState<RecategorizeResult | null>(null);
+
+  useEffect(() => {
+    axios.get<CategoriesResponse>('/api/categories')
+      .then(response => setCategories((response.data.categories || []).map(toEditable)))
+      .catch(err => setError(err.response?.data?.error || err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateCategory = (index: number, patch: Partial<EditableCategory>) => {
+    setCategories(categories.map((category, i) => (i === index ? { ...category, ...patch } : category)));
+  };
+
+  const moveCategory = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= categories.length) return;
+
+    const next = categories.slice();
+    [next[index], next[target]] = [next[target], next[index]];
+    setCategories(next);
+  };
+
+  const removeCategory = (index: number) => {
+    setCategories(categories.filter((_, i) => i !== index));
+  };
+
+  const addCategory = () => {
+    setCategories(categories.concat({ name: '', color: '#6B7280', description: '', rules: '' }));
+  };
+
+  const save = async () => {
+    setSaving(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await axios.put<CategoriesResponse>('/api/categories', {
+        categories: categories.map(toDefinition),
+      });
+      setCategories((response.data.categories || []).map(toEditable));
+      setNotice('Categories saved. New scrapes use them right away; re-run categorization to update stored articles.');
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const recategorize = async () => {
+    setRecategorizing(true);
+    setError(null);
+    setNotice(null);
+
+    try {
+      const response = await axios.post<RecategorizeResponse>('/api/categories/recategorize');
+      setRecategorized(response.data.result || null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setRecategorizing(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Categories · FireCrawl News Monitor</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-8 max-w-4xl">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-800 mb-2">🏷️ Categories</h1>
+              <p className="text-gray-600">
+                Headlines get the first category whose rules match; anything unmatched falls into the last one.
+              </p>
+            </div>
+            <Link href="/dashboard" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              ← Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6">{error}</div>
+          )}
+          {notice && (
+            <div className="bg-green-50 border border-green-200 text-green-700 rounded-lg p-4 mb-6">{notice}</div>
+          )}
+          {recategorized && (
+            <div className="bg-indigo-50 border border-indigo-200 text-indigo-800 rounded-lg p-4 mb-6">
+              Re-categorized {recategorized.changed} of {recategorized.scanned} stored articles.
+              <div className="mt-2 flex flex-wrap gap-2">
+                {Object.entries(recategorized.counts).map(([name, count]) => (
+                  <span key={name} className="text-sm">{name}: {count}</span>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex justify-center py-16">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {categories.map((category, index) => (
+                <div key={index} className="bg-white rounded-xl shadow-lg p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <CategoryBadge name={category.name || 'Unnamed'} color={category.color} />
+                    <div className="flex gap-2 text-sm">
+                      <button onClick={() => moveCategory(index, -1)} disabled={index === 0} className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-40">↑</button>
+                      <button onClick={() => moveCategory(index, 1)} disabled={index === categories.length - 1} className="px-2 py-1 rounded bg-gray-100 hover:bg-gray-200 disabled:opacity-40">↓</button>
+                      <button onClick={() => removeCategory(index)} className="px-2 py-1 rounded bg-red-50 text-red-600 hover:bg-red-100">Remove</button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-4 mb-4">
+                    <label className="block">
+                      <span className="text-sm font-medium text-gray-700">Name</span>
+                      <input
+                        value={category.name}
+                        onChange={e => updateCategory(index, { name: e.target.value })}
+                        className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+                      />
+                    </label>
+                    <label className="block">
+                      <span className="text-sm font-medium text-gray-700">Color</span>
+                      <input
+                        type="color"
+                        value={category.color}
+                        onChange={e => updateCategory(index, { color: e.target.value })}
+                        className="mt-1 block h-10 w-16 border border-gray-300 rounded-lg"
+                      />
+                    </label>
+                  </div>
+
+                  <label className="block mb-4">
+                    <span className="text-sm font-medium text-gray-700">Description (sent to FireCrawl with the extraction prompt)</span>
+                    <input
+                      value={category.description}
+                      onChange={e => updateCategory(index, { description: e.target.value })}
+                      className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2"
+                    />
+                  </label>
+
+                  <label className="block">
+                    <span className="text-sm font-medium text-gray-700">Rules (one per line: a keyword or phrase, or /regex/)</span>
+                    <textarea
+                      value={category.rules}
+                      onChange={e => updateCategory(index, { rules: e.target.value })}
+                      rows={4}
+                      className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 font-mono text-sm"
+                    />
+                  </label>
+                </div>
+              ))}
+
+              <div className="flex flex-wrap gap-3">
+                <button onClick={addCategory} className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow hover:shadow-lg font-semibold">
+                  + Add Category
+                </button>
+                <button
+                  onClick={save}
+                  disabled={saving}
+                  className="bg-indigo-600 text-white px-6 py-3 rounded-xl shadow hover:bg-indigo-700 font-semibold disabled:opacity-50"
+                >
+                  {saving ? 'Saving...' : 'Save Categories'}
+                </button>
+                <button
+                  onClick={recategorize}
+                  disabled={recategorizing}
+                  className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow hover:shadow-lg font-semibold disabled:opacity-50"
+                >
+                  {recategorizing ? 'Re-running...' : '🔄 Re-run Categorization'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default CategoriesAdmin;
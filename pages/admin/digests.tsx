@@ -0,0 +1,272 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import axios from 'axios';
+import { DIGEST_PERIODS, type DigestFilters, type DigestPeriod, type DigestSubscriber } from '../../lib/digest';
+import type { CategoryDefinition } from '../../lib/categories';
+import type { CategoriesResponse } from '../api/categories';
+import type { SubscribersResponse } from '../api/digests/subscribers';
+import type { DigestPreviewResponse } from '../api/digests/preview';
+import type { DigestSendResponse } from '../api/digests/send';
+import { useAccount } from '../../components/Account';
+
+// Companies are edited as a comma-separated list
+interface SubscriberForm {
+  id?: number;
+  email: string;
+  period: DigestPeriod;
+  categories: string[];
+  companies: string;
+  enabled: boolean;
+}
+
+const emptySubscriber = (): SubscriberForm => ({ email: '', period: 'daily', categories: [], companies: '', enabled: true });
+
+const toForm = (subscriber: DigestSubscriber): SubscriberForm => ({
+  id: subscriber.id,
+  email: subscriber.email,
+  period: subscriber.period,
+  categories: subscriber.categories,
+  companies: subscriber.companies.join(', '),
+  enabled: subscriber.enabled,
+});
+
+const toFilters = (form: SubscriberForm): DigestFilters => ({
+  period: form.period,
+  categories: form.categories,
+  companies: form.companies.split(',').map(c => c.trim()).filter(Boolean),
+});
+
+const describeFilters = (filters: DigestFilters) => {
+  const parts = [
+    filters.categories.length > 0 ? `categories: ${filters.categories.join(' | ')}` : '',
+    filters.companies.length > 0 ? `companies: ${filters.companies.join(' | ')}` : '',
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' OR ') : 'everything';
+};
+
+const inputClass = 'mt-1 w-full border border-gray-300 rounded-lg px-3 py-2';
+
+const DigestsAdmin = () => {
+  const { can } = useAccount();
+  const [subscribers, setSubscribers] = useState<DigestSubscriber[]>([]);
+  const [categories, setCategories] = useState<CategoryDefinition[]>([]);
+  const [form, setForm] = useState<SubscriberForm>(emptySubscriber());
+  const [preview, setPreview] = useState<DigestPreviewResponse | null>(null);
+  const [view, setView] = useState<'html' | 'text'>('html');
+  const [previewing, setPreviewing] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const canManage = can('operator');
+
+  useEffect(() => {
+    loadAll();
+    loadPreview(toFilters(emptySubscriber()));
+  }, [canManage]);
+
+  const loadAll = async () => {
+    try {
+      const [categoriesResponse, subscribersResponse] = await Promise.all([
+        axios.get<CategoriesResponse>('/api/categories'),
+        canManage ? axios.get<SubscribersResponse>('/api/digests/subscribers') : Promise.resolve(null),
+      ]);
+      setCategories(categoriesResponse.data.categories || []);
+      setSubscribers(subscribersResponse?.data.subscribers || []);
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    }
+  };
+
+  const loadPreview = async (filters: DigestFilters) => {
+    setPreviewing(true);
+    try {
+      const response = await axios.get<DigestPreviewResponse>('/api/digests/preview', {
+        params: { period: filters.period, category: filters.categories, company: filters.companies },
+        // Repeated parameters: category=AI&category=Funding
+        paramsSerializer: { indexes: null },
+      });
+      setPreview(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const mutate = async (change: () => Promise<unknown>) => {
+    try {
+      await change();
+      await loadAll();
+      return true;
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+      return false;
+    }
+  };
+
+  const saveSubscriber = async () => {
+    const { id, ...rest } = form;
+    const body = { ...rest, ...toFilters(form) };
+    const saved = await mutate(() => (id ? axios.put(`/api/digests/subscribers/${id}`, body) : axios.post('/api/digests/subscribers', body)));
+    if (saved) setForm(emptySubscriber());
+  };
+
+  const edit = (subscriber: DigestSubscriber) => {
+    setForm(toForm(subscriber));
+    loadPreview(subscriber);
+  };
+
+  const sendNow = async (subscriber: DigestSubscriber) => {
+    setNotice(null);
+    await mutate(async () => {
+      const response = await axios.post<DigestSendResponse>('/api/digests/send', { subscriber_id: subscriber.id });
+      setNotice(response.data.outcome === 'sent'
+        ? `Digest sent to ${subscriber.email}.`
+        : `Nothing new for ${subscriber.email}, so no digest was sent.`);
+    });
+  };
+
+  const toggleCategory = (name: string) => {
+    const chosen = form.categories;
+    setForm({ ...form, categories: chosen.includes(name) ? chosen.filter(c => c !== name) : chosen.concat(name) });
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Digests · FireCrawl News Monitor</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-800 mb-2">📧 Digests</h1>
+              <p className="text-gray-600">Daily and weekly emails of new headlines by category, with watched companies and trends.</p>
+            </div>
+            <Link href="/dashboard" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              ← Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6">{error}</div>
+          )}
+          {notice && (
+            <div className="bg-emerald-50 border border-emerald-200 text-emerald-800 rounded-lg p-4 mb-6">{notice}</div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+            {/* Subscribers */}
+            <div className="bg-white rounded-xl shadow-lg p-6 lg:col-span-2">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Subscribers</h2>
+              {canManage && (
+                <div className="space-y-3 mb-6">
+                  {subscribers.length === 0 && <p className="text-sm text-gray-500">No subscribers yet.</p>}
+                  {subscribers.map(subscriber => (
+                    <div key={subscriber.id} className="border border-gray-200 rounded-lg p-3">
+                      <div className="flex justify-between items-center gap-2">
+                        <span className={`font-semibold truncate ${subscriber.enabled ? 'text-gray-800' : 'text-gray-400'}`}>{subscriber.email}</span>
+                        <span className="text-xs bg-gray-100 px-2 py-0.5 rounded">{subscriber.period}</span>
+                      </div>
+                      <p className="text-xs text-gray-600 mt-1">{describeFilters(subscriber)}</p>
+                      <p className="text-xs text-gray-400">
+                        {subscriber.last_sent_at ? `last sent ${new Date(subscriber.last_sent_at).toLocaleString()}` : 'never sent'}
+                      </p>
+                      {subscriber.last_error && <p className="text-xs text-red-600">{subscriber.last_error}</p>}
+                      <div className="flex gap-3 text-sm mt-2">
+                        <button onClick={() => edit(subscriber)} className="text-indigo-600 hover:underline">Edit</button>
+                        <button onClick={() => sendNow(subscriber)} className="text-indigo-600 hover:underline">Send now</button>
+                        <button onClick={() => mutate(() => axios.delete(`/api/digests/subscribers/${subscriber.id}`))} className="text-red-600 hover:underline">Delete</button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <h3 className="font-semibold text-gray-700 mb-2">{form.id ? 'Edit subscriber' : canManage ? 'New subscriber' : 'Digest settings'}</h3>
+              {canManage && (
+                <label className="block mb-3">
+                  <span className="text-sm text-gray-700">Email</span>
+                  <input type="email" value={form.email} onChange={e => setForm({ ...form, email: e.target.value })} className={inputClass} />
+                </label>
+              )}
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Period</span>
+                <select value={form.period} onChange={e => setForm({ ...form, period: e.target.value as DigestPeriod })} className={inputClass}>
+                  {DIGEST_PERIODS.map(period => <option key={period} value={period}>{period === 'daily' ? 'Daily (last 24 hours)' : 'Weekly (last 7 days)'}</option>)}
+                </select>
+              </label>
+              <div className="mb-3">
+                <span className="text-sm text-gray-700">Categories (none for all)</span>
+                <div className="flex flex-wrap gap-3 mt-1">
+                  {categories.map(category => (
+                    <label key={category.name} className="text-sm text-gray-700 flex items-center gap-1">
+                      <input type="checkbox" checked={form.categories.includes(category.name)} onChange={() => toggleCategory(category.name)} />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Companies (comma-separated; also included from any category)</span>
+                <input value={form.companies} onChange={e => setForm({ ...form, companies: e.target.value })} className={inputClass} />
+              </label>
+              {canManage && (
+                <label className="text-sm text-gray-700 flex items-center gap-2 mb-4">
+                  <input type="checkbox" checked={form.enabled} onChange={e => setForm({ ...form, enabled: e.target.checked })} />
+                  Enabled
+                </label>
+              )}
+              <div className="flex flex-wrap gap-3">
+                <button onClick={() => loadPreview(toFilters(form))} className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 font-semibold">
+                  Preview
+                </button>
+                {canManage && (
+                  <button onClick={saveSubscriber} className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 font-semibold">
+                    {form.id ? 'Save Subscriber' : 'Add Subscriber'}
+                  </button>
+                )}
+                {form.id && (
+                  <button onClick={() => setForm(emptySubscriber())} className="text-gray-600 px-4 py-2">Cancel</button>
+                )}
+              </div>
+            </div>
+
+            {/* Preview */}
+            <div className="bg-white rounded-xl shadow-lg p-6 lg:col-span-3">
+              <div className="flex justify-between items-center mb-2">
+                <h2 className="text-xl font-bold text-gray-800">Preview</h2>
+                <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                  {(['html', 'text'] as const).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setView(option)}
+                      className={`px-3 py-1 text-sm ${view === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+                    >
+                      {option === 'html' ? 'HTML' : 'Plain text'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              {preview?.digest && (
+                <p className="text-sm text-gray-500 mb-4">
+                  {previewing ? 'Loading...' : <>Subject: <span className="text-gray-800">{preview.subject}</span> · {describeFilters(preview.digest.filters)}</>}
+                </p>
+              )}
+              {preview && (view === 'html' ? (
+                <iframe title="Digest preview" srcDoc={preview.html} sandbox="" className="w-full h-[640px] border border-gray-200 rounded-lg" />
+              ) : (
+                <pre className="text-sm bg-gray-50 p-4 rounded-lg whitespace-pre-wrap h-[640px] overflow-y-auto">{preview.text}</pre>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default DigestsAdmin;
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import axios from 'axios';
+import type { Watchlist, WatchlistTerms } from '../../lib/watchlists';
+import type { DeliveryStatus, PublicWebhook, WebhookDelivery, WebhookFormat } from '../../lib/webhooks';
+import type { WatchlistsResponse } from '../api/watchlists';
+import type { WebhooksResponse } from '../api/webhooks';
+import type { DeliveriesResponse } from '../api/webhooks/deliveries';
+
+// Terms are edited as comma-separated lists
+interface WatchlistForm {
+  id?: number;
+  name: string;
+  include: Record<keyof WatchlistTerms, string>;
+  exclude: Record<keyof WatchlistTerms, string>;
+  webhook_ids: number[];
+  enabled: boolean;
+}
+
+const TERM_GROUPS: (keyof WatchlistTerms)[] = ['keywords', 'companies', 'categories'];
+
+const emptyTerms = () => ({ keywords: '', companies: '', categories: '' });
+const emptyWatchlist = (): WatchlistForm => ({ name: '', include: emptyTerms(), exclude: emptyTerms(), webhook_ids: [], enabled: true });
+const emptyWebhook = () => ({ name: '', url: '', format: 'slack' as WebhookFormat, secret: '' });
+
+const toForm = (watchlist: Watchlist): WatchlistForm => ({
+  id: watchlist.id,
+  name: watchlist.name,
+  include: { keywords: watchlist.include.keywords.join(', '), companies: watchlist.include.companies.join(', '), categories: watchlist.include.categories.join(', ') },
+  exclude: { keywords: watchlist.exclude.keywords.join(', '), companies: watchlist.exclude.companies.join(', '), categories: watchlist.exclude.categories.join(', ') },
+  webhook_ids: watchlist.webhook_ids,
+  enabled: watchlist.enabled,
+});
+
+const toTerms = (terms: Record<keyof WatchlistTerms, string>): WatchlistTerms => ({
+  keywords: terms.keywords.split(',').map(t => t.trim()).filter(Boolean),
+  companies: terms.companies.split(',').map(t => t.trim()).filter(Boolean),
+  categories: terms.categories.split(',').map(t => t.trim()).filter(Boolean),
+});
+
+const describeTerms = (terms: WatchlistTerms) => TERM_GROUPS
+  .filter(group => terms[group].length > 0)
+  .map(group => `${group}: ${terms[group].join(' | ')}`)
+  .join(' AND ');
+
+const statusClasses: Record<DeliveryStatus, string> = {
+  delivered: 'bg-green-50 text-green-700',
+  pending: 'bg-yellow-50 text-yellow-800',
+  failed: 'bg-red-50 text-red-700',
+};
+
+const inputClass = 'mt-1 w-full border border-gray-300 rounded-lg px-3 py-2';
+
+const WatchlistsAdmin = () => {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [webhooks, setWebhooks] = useState<PublicWebhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [watchlistForm, setWatchlistForm] = useState<WatchlistForm>(emptyWatchlist());
+  const [webhookForm, setWebhookForm] = useState(emptyWebhook());
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadAll();
+  }, []);
+
+  const loadAll = async () => {
+    try {
+      const [watchlistsResponse, webhooksResponse, deliveriesResponse] = await Promise.all([
+        axios.get<WatchlistsResponse>('/api/watchlists'),
+        axios.get<WebhooksResponse>('/api/webhooks'),
+        axios.get<DeliveriesResponse>('/api/webhooks/deliveries'),
+      ]);
+      setWatchlists(watchlistsResponse.data.watchlists || []);
+      setWebhooks(webhooksResponse.data.webhooks || []);
+      setDeliveries(deliveriesResponse.data.deliveries || []);
+      setError(null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    }
+  };
+
+  // Runs a change, then reloads everything so the lists stay in sync
+  const mutate = async (change: () => Promise<unknown>) => {
+    try {
+      await change();
+      await loadAll();
+      return true;
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+      return false;
+    }
+  };
+
+  const saveWatchlist = async () => {
+    const { id, ...form } = watchlistForm;
+    const body = { ...form, include: toTerms(form.include), exclude: toTerms(form.exclude) };
+    const saved = await mutate(() => (id ? axios.put(`/api/watchlists/${id}`, body) : axios.post('/api/watchlists', body)));
+    if (saved) setWatchlistForm(emptyWatchlist());
+  };
+
+  const saveWebhook = async () => {
+    const saved = await mutate(() => axios.post('/api/webhooks', webhookForm));
+    if (saved) setWebhookForm(emptyWebhook());
+  };
+
+  const toggleWebhookId = (id: number) => {
+    const ids = watchlistForm.webhook_ids;
+    setWatchlistForm({ ...watchlistForm, webhook_ids: ids.includes(id) ? ids.filter(i => i !== id) : ids.concat(id) });
+  };
+
+  const nameOf = (items: { id: number; name: string }[], id: number) => items.find(item => item.id === id)?.name || `#${id}`;
+
+  return (
+    <>
+      <Head>
+        <title>Watchlists · FireCrawl News Monitor</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-8 max-w-6xl">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-800 mb-2">🔔 Watchlists</h1>
+              <p className="text-gray-600">New articles matching a watchlist are posted to its webhooks.</p>
+            </div>
+            <Link href="/dashboard" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              ← Dashboard
+            </Link>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4 mb-6">{error}</div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
+            {/* Watchlists */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Watchlists</h2>
+              <div className="space-y-3 mb-6">
+                {watchlists.length === 0 && <p className="text-sm text-gray-500">No watchlists yet.</p>}
+                {watchlists.map(watchlist => (
+                  <div key={watchlist.id} className="border border-gray-200 rounded-lg p-3">
+                    <div className="flex justify-between items-center">
+                      <span className={`font-semibold ${watchlist.enabled ? 'text-gray-800' : 'text-gray-400'}`}>{watchlist.name}</span>
+                      <div className="flex gap-2 text-sm">
+                        <button onClick={() => setWatchlistForm(toForm(watchlist))} className="text-indigo-600 hover:underline">Edit</button>
+                        <button onClick={() => mutate(() => axios.delete(`/api/watchlists/${watchlist.id}`))} className="text-red-600 hover:underline">Delete</button>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-600 mt-1">Include {describeTerms(watchlist.include)}</p>
+                    {describeTerms(watchlist.exclude) && (
+                      <p className="text-xs text-gray-600">Exclude {describeTerms(watchlist.exclude)}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">
+                      → {watchlist.webhook_ids.map(id => nameOf(webhooks, id)).join(', ') || 'no webhooks'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="font-semibold text-gray-700 mb-2">{watchlistForm.id ? 'Edit watchlist' : 'New watchlist'}</h3>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Name</span>
+                <input value={watchlistForm.name} onChange={e => setWatchlistForm({ ...watchlistForm, name: e.target.value })} className={inputClass} />
+              </label>
+              {(['include', 'exclude'] as const).map(side => (
+                <fieldset key={side} className="mb-3">
+                  <legend className="text-sm font-medium text-gray-700 capitalize">{side} (comma-separated)</legend>
+                  {TERM_GROUPS.map(group => (
+                    <input
+                      key={group}
+                      placeholder={group}
+                      value={watchlistForm[side][group]}
+                      onChange={e => setWatchlistForm({ ...watchlistForm, [side]: { ...watchlistForm[side], [group]: e.target.value } })}
+                      className={inputClass}
+                    />
+                  ))}
+                </fieldset>
+              ))}
+              <div className="mb-3">
+                <span className="text-sm font-medium text-gray-700">Webhooks</span>
+                <div className="flex flex-wrap gap-3 mt-1">
+                  {webhooks.map(webhook => (
+                    <label key={webhook.id} className="text-sm text-gray-700 flex items-center gap-1">
+                      <input type="checkbox" checked={watchlistForm.webhook_ids.includes(webhook.id)} onChange={() => toggleWebhookId(webhook.id)} />
+                      {webhook.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <label className="text-sm text-gray-700 flex items-center gap-2 mb-4">
+                <input type="checkbox" checked={watchlistForm.enabled} onChange={e => setWatchlistForm({ ...watchlistForm, enabled: e.target.checked })} />
+                Enabled
+              </label>
+              <div className="flex gap-3">
+                <button onClick={saveWatchlist} className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 font-semibold">
+                  {watchlistForm.id ? 'Save Watchlist' : 'Add Watchlist'}
+                </button>
+                {watchlistForm.id && (
+                  <button onClick={() => setWatchlistForm(emptyWatchlist())} className="text-gray-600 px-4 py-2">Cancel</button>
+                )}
+              </div>
+            </div>
+
+            {/* Webhooks */}
+            <div className="bg-white rounded-xl shadow-lg p-6">
+              <h2 className="text-xl font-bold text-gray-800 mb-4">Webhooks</h2>
+              <div className="space-y-3 mb-6">
+                {webhooks.length === 0 && <p className="text-sm text-gray-500">No webhooks yet.</p>}
+                {webhooks.map(webhook => (
+                  <div key={webhook.id} className="border border-gray-200 rounded-lg p-3 flex justify-between items-start">
+                    <div className="min-w-0">
+                      <span className="font-semibold text-gray-800">{webhook.name}</span>
+                      <span className="ml-2 text-xs bg-gray-100 px-2 py-0.5 rounded">{webhook.format}</span>
+                      {webhook.has_secret && <span className="ml-2 text-xs text-emerald-700">signed</span>}
+                      <p className="text-xs text-gray-500 truncate">{webhook.url}</p>
+                    </div>
+                    <button onClick={() => mutate(() => axios.delete(`/api/webhooks/${webhook.id}`))} className="text-sm text-red-600 hover:underline">Delete</button>
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="font-semibold text-gray-700 mb-2">New webhook</h3>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Name</span>
+                <input value={webhookForm.name} onChange={e => setWebhookForm({ ...webhookForm, name: e.target.value })} className={inputClass} />
+              </label>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">URL</span>
+                <input value={webhookForm.url} onChange={e => setWebhookForm({ ...webhookForm, url: e.target.value })} className={inputClass} />
+              </label>
+              <label className="block mb-3">
+                <span className="text-sm text-gray-700">Format</span>
+                <select value={webhookForm.format} onChange={e => setWebhookForm({ ...webhookForm, format: e.target.value as WebhookFormat })} className={inputClass}>
+                  <option value="slack">Slack-compatible</option>
+                  <option value="generic">Generic JSON</option>
+                </select>
+              </label>
+              <label className="block mb-4">
+                <span className="text-sm text-gray-700">Signing secret (optional)</span>
+                <input type="password" value={webhookForm.secret} onChange={e => setWebhookForm({ ...webhookForm, secret: e.target.value })} className={inputClass} />
+              </label>
+              <button onClick={saveWebhook} className="bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 font-semibold">
+                Add Webhook
+              </button>
+            </div>
+          </div>
+
+          {/* Delivery Log */}
+          <div className="bg-white rounded-xl shadow-lg p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-bold text-gray-800">Delivery Log</h2>
+              <button onClick={loadAll} className="text-sm text-indigo-600 hover:underline">🔄 Refresh</button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Created</th>
+                    <th className="py-2 pr-4">Watchlist</th>
+                    <th className="py-2 pr-4">Webhook</th>
+                    <th className="py-2 pr-4">Status</th>
+                    <th className="py-2 pr-4">Attempts</th>
+                    <th className="py-2">Last response</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {deliveries.map(delivery => (
+                    <tr key={delivery.id} className="border-b last:border-0 align-top">
+                      <td className="py-2 pr-4 text-gray-500">{new Date(delivery.created_at).toLocaleString()}</td>
+                      <td className="py-2 pr-4 text-gray-700">{nameOf(watchlists, delivery.watchlist_id)}</td>
+                      <td className="py-2 pr-4 text-gray-700">{nameOf(webhooks, delivery.webhook_id)}</td>
+                      <td className="py-2 pr-4">
+                        <span className={`text-xs px-2 py-1 rounded ${statusClasses[delivery.status]}`}>{delivery.status}</span>
+                        {delivery.status === 'pending' && delivery.next_attempt_at && (
+                          <span className="block text-xs text-gray-400 mt-1">next {new Date(delivery.next_attempt_at).toLocaleTimeString()}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{delivery.attempts}</td>
+                      <td className="py-2 text-gray-500">
+                        {delivery.response_status ?? '—'}
+                        {delivery.error && <span className="block text-xs text-red-600">{delivery.error}</span>}
+                        <details className="mt-1">
+                          <summary className="text-xs text-indigo-600 cursor-pointer">Payload</summary>
+                          <pre className="text-xs bg-gray-50 p-2 rounded mt-1 whitespace-pre-wrap">{JSON.stringify(delivery.payload, null, 2)}</pre>
+                        </details>
+                      </td>
+                    </tr>
+                  ))}
+                  {deliveries.length === 0 && (
+                    <tr><td colSpan={6} className="py-4 text-center text-gray-500">No deliveries yet.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default WatchlistsAdmin;
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getAnalytics, parseAnalyticsWindow, type Analytics } from '../../../lib/analytics';
+import { authorize } from '../../../lib/auth';
+
+export interface AnalyticsResponse extends Partial<Analytics> {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Dashboard aggregates for `?days=` (default 7) ending today, or for
+ * `?from=&to=`, with days counted in the `?tz=` timezone.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AnalyticsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const { window, error } = parseAnalyticsWindow(req.query);
+  if (!window) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  try {
+    const analytics = await getAnalytics(getStore(), window);
+
+    // Per caller, and fresh, so "Update dashboard" shows the articles just announced
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ success: true, ...analytics });
+  } catch (error: any) {
+    console.error('Analytics Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { rescoreArticles } from '../../../lib/sentiment';
+import { rebuildRollups } from '../../../lib/analytics';
+import { authorize } from '../../../lib/auth';
+
+export interface RescoreResponse {
+  success: boolean;
+  scanned?: number;
+  changed?: number;
+  error?: string;
+}
+
+/** Scores the sentiment of every stored article again and rebuilds the rollups when any changed. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RescoreResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  try {
+    const store = getStore();
+    const { scanned, changed } = await rescoreArticles(store);
+    if (changed > 0) await rebuildRollups(store);
+
+    console.log(`Rescored ${scanned} articles (${changed} changed)`);
+    return res.status(200).json({ success: true, scanned, changed });
+  } catch (error: any) {
+    console.error('Rescore Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
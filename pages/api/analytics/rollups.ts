@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { rebuildRollups, type RollupRebuildResult } from '../../../lib/analytics';
+import { authorize } from '../../../lib/auth';
+
+export interface RollupsResponse {
+  success: boolean;
+  result?: RollupRebuildResult;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RollupsResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  try {
+    const result = await rebuildRollups(getStore());
+
+    console.log(`Rebuilt analytics rollups for ${result.articles} articles`);
+    return res.status(200).json({ success: true, result });
+  } catch (error: any) {
+    console.error('Rollups Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
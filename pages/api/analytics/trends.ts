@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getTrends, parseTrendQuery, type Trends } from '../../../lib/trends';
+import { authorize } from '../../../lib/auth';
+
+export interface TrendsResponse extends Partial<Trends> {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Emerging words, phrases and companies: the last `?recent=` days (default
+ * 3) compared against the `?baseline=` days before them (default 28).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<TrendsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const { query, error } = parseTrendQuery(req.query);
+  if (!query) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  try {
+    const trends = await getTrends(getStore(), query);
+
+    res.setHeader('Cache-Control', 'private, no-store');
+    return res.status(200).json({ success: true, ...trends });
+  } catch (error: any) {
+    console.error('Trends Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../lib/store';
+import { listArticles, parseArticleQuery, type ListedArticle } from '../../lib/articles';
+import { authorize } from '../../lib/auth';
+
+export interface ArticlesResponse {
+  success: boolean;
+  articles?: ListedArticle[];
+  nextCursor?: string | null;
+  total?: number;
+  error?: string;
+}
+
+/**
+ * Stored articles, one page at a time. Filters: `topic`, `company` (name or
+ * alias), `source`, `from`/`to` and `q`; `sort` is `published` (default) or
+ * `ingested`. Pass `nextCursor` back as `cursor` to get the next page.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ArticlesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const { query, error } = parseArticleQuery(req.query);
+  if (!query) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  try {
+    const result = await listArticles(getStore(), query);
+    if (!result.page) {
+      return res.status(404).json({ success: false, error: result.error });
+    }
+
+    return res.status(200).json({ success: true, ...result.page });
+  } catch (error: any) {
+    console.error('Articles Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,98 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore, type ArticleStore } from '../../../lib/store';
+import { latestArticleId, listNewArticles, parseArticleQuery, type ListedArticle } from '../../../lib/articles';
+import { authorize } from '../../../lib/auth';
+
+const POLL_INTERVAL_MS = 5000;
+// Close before the function's maxDuration; EventSource reconnects by itself
+const STREAM_DURATION_MS = 25000;
+
+/**
+ * Server-sent events for newly stored articles: an `articles` event with
+ * every batch ingested since the last one. Takes the filters of
+ * /api/articles. Each event's id is the newest article's id, so a
+ * reconnecting EventSource resumes from it through Last-Event-ID; a new
+ * stream starts at `after`, or at the latest article without it.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const { query, error } = parseArticleQuery(req.query);
+  if (!query) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  const resumeFrom = req.headers['last-event-id'] || req.query.after;
+  if (resumeFrom !== undefined && !/^\d+$/.test(String(resumeFrom))) {
+    return res.status(400).json({ success: false, error: 'after must be an article id' });
+  }
+
+  let store: ArticleStore;
+  try {
+    store = getStore();
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message, errorCode: 'config' });
+  }
+
+  let lastId: number;
+  let articles: ListedArticle[];
+  try {
+    lastId = resumeFrom !== undefined ? Number(resumeFrom) : await latestArticleId(store);
+    // Checked before the stream starts, so an unknown company is a plain 404
+    const first = await listNewArticles(store, query, lastId);
+    if (!first.articles) {
+      return res.status(404).json({ success: false, error: first.error });
+    }
+    articles = first.articles;
+  } catch (error: any) {
+    console.error('Article Events Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${POLL_INTERVAL_MS}\n`);
+  // Lets a client that didn't pass `after` resume from here
+  res.write(`id: ${lastId}\nevent: ready\ndata: {}\n\n`);
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  const deadline = Date.now() + STREAM_DURATION_MS;
+
+  while (!closed) {
+    if (articles.length > 0) {
+      lastId = articles[articles.length - 1].id;
+      res.write(`id: ${lastId}\nevent: articles\ndata: ${JSON.stringify({ articles })}\n\n`);
+    } else {
+      // A comment, so idle proxies don't drop the connection
+      res.write(': waiting\n\n');
+    }
+
+    if (Date.now() + POLL_INTERVAL_MS > deadline) break;
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    if (closed) break;
+
+    try {
+      const next = await listNewArticles(store, query, lastId);
+      articles = next.articles || [];
+    } catch (error: any) {
+      // The client reconnects from the last id it received
+      console.error('Article Events Error:', error.message);
+      break;
+    }
+  }
+
+  res.end();
+}
@@ -0,0 +1,39 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../../lib/store';
+import { authorize, toPublicApiKey } from '../../../../lib/auth';
+import type { ApiKeysResponse } from './index';
+
+/** DELETE revokes an API key; it stays listed as revoked. Admins only. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiKeysResponse>
+) {
+  if (req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'admin'))) return;
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid API key id' });
+  }
+  const byId = [{ column: 'id' as const, op: 'eq' as const, value: id }];
+
+  try {
+    const store = getStore();
+    const [current] = await store.query('api_keys', { filters: byId });
+    if (!current) {
+      return res.status(404).json({ success: false, error: 'API key not found' });
+    }
+    if (current.revoked_at) {
+      return res.status(200).json({ success: true, apiKey: toPublicApiKey(current) });
+    }
+
+    const [revoked] = await store.update('api_keys', byId, { revoked_at: new Date().toISOString() });
+    return res.status(200).json({ success: true, apiKey: toPublicApiKey(revoked) });
+  } catch (error: any) {
+    console.error('API Key Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../../lib/store';
+import { authorize, generateApiKey, toPublicApiKey, validateApiKey, type PublicApiKey } from '../../../../lib/auth';
+
+export interface ApiKeysResponse {
+  success: boolean;
+  keys?: PublicApiKey[];
+  apiKey?: PublicApiKey;
+  /** The new key itself; only returned when it is created */
+  key?: string;
+  error?: string;
+}
+
+/**
+ * GET lists the API keys; POST creates one with `{ name, role, rate_limit }`
+ * and returns the key once. Admins only.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ApiKeysResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'admin'))) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const keys = await store.query('api_keys', { orderBy: [{ column: 'created_at', ascending: false }] });
+      return res.status(200).json({ success: true, keys: keys.map(toPublicApiKey) });
+    }
+
+    const { apiKey, error } = validateApiKey(req.body);
+    if (!apiKey) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const { key, prefix, key_hash } = generateApiKey();
+    const [created] = await store.insert('api_keys', [{ ...apiKey, prefix, key_hash, last_used_at: null, revoked_at: null }]);
+    return res.status(201).json({ success: true, apiKey: toPublicApiKey(created), key });
+  } catch (error: any) {
+    console.error('API Keys Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { authEnabled, loginRetryAfter, recordFailedLogin, sessionCookie, signIn } from '../../../lib/auth';
+import type { AccountResponse } from './me';
+
+/** Signs in with `{ "email", "password" }` and sets the session cookie. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AccountResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!authEnabled()) {
+    return res.status(400).json({ success: false, error: 'Authentication is disabled (AUTH_DISABLED=true)' });
+  }
+  if (!process.env.AUTH_SECRET) {
+    return res.status(500).json({
+      success: false,
+      error: 'Authentication not configured. Please add AUTH_SECRET to your environment variables.',
+      errorCode: 'config',
+    });
+  }
+
+  const { email, password } = req.body || {};
+  if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+    return res.status(400).json({ success: false, error: 'email and password are required' });
+  }
+
+  const retryAfter = loginRetryAfter(req, email);
+  if (retryAfter) {
+    res.setHeader('Retry-After', String(retryAfter));
+    return res.status(429).json({
+      success: false,
+      error: `Too many failed sign-ins. Try again in ${Math.ceil(retryAfter / 60)} min`,
+      errorCode: 'too_many_requests',
+    });
+  }
+
+  try {
+    const user = await signIn(getStore(), email, password);
+    if (!user) {
+      recordFailedLogin(req, email);
+      return res.status(401).json({ success: false, error: 'Wrong email or password', errorCode: 'unauthenticated' });
+    }
+
+    res.setHeader('Set-Cookie', sessionCookie(user));
+    return res.status(200).json({ success: true, account: { kind: 'user', id: user.id, name: user.email, role: user.role } });
+  } catch (error: any) {
+    console.error('Login Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}`, errorCode: 'db' });
+  }
+}
@@ -0,0 +1,16 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sessionCookie } from '../../../lib/auth';
+import type { AccountResponse } from './me';
+
+/** Clears the session cookie. */
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AccountResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  res.setHeader('Set-Cookie', sessionCookie());
+  return res.status(200).json({ success: true });
+}
@@ -0,0 +1,25 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { authorize, type AuthErrorCode, type Principal } from '../../../lib/auth';
+
+export interface AccountResponse {
+  success: boolean;
+  account?: Principal;
+  error?: string;
+  errorCode?: AuthErrorCode;
+}
+
+/** The signed-in user or the API key the request was made with; 401 for anonymous callers. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AccountResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const account = await authorize(req, res, 'viewer');
+  if (!account) return;
+
+  const { rateLimit, ...visible } = account;
+  return res.status(200).json({ success: true, account: visible });
+}
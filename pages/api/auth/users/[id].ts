@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../../lib/store';
+import { authorize, toPublicUser, validateUser } from '../../../../lib/auth';
+import type { UsersResponse } from './index';
+
+/**
+ * PUT changes an account's email, password, role or `disabled` flag;
+ * DELETE removes it. Admins only, and not for their own account.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UsersResponse>
+) {
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const principal = await authorize(req, res, 'admin');
+  if (!principal) return;
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid user id' });
+  }
+  // Keeps an admin from locking themselves out
+  if (principal.kind === 'user' && principal.id === id) {
+    return res.status(400).json({ success: false, error: 'Ask another admin to change or remove your own account' });
+  }
+  const byId = [{ column: 'id' as const, op: 'eq' as const, value: id }];
+
+  try {
+    const store = getStore();
+    const [current] = await store.query('users', { filters: byId });
+    if (!current) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      await store.delete('users', byId);
+      return res.status(200).json({ success: true, user: toPublicUser(current) });
+    }
+
+    const { user, error } = validateUser(req.body, current);
+    if (!user) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    if (user.email !== current.email) {
+      const taken = await store.query('users', { filters: [{ column: 'email', op: 'eq', value: user.email }] });
+      if (taken.length > 0) {
+        return res.status(400).json({ success: false, error: `${user.email} is already in use` });
+      }
+    }
+
+    const [updated] = await store.update('users', byId, user);
+    return res.status(200).json({ success: true, user: toPublicUser(updated) });
+  } catch (error: any) {
+    // Another account took the email after the check above
+    if (/duplicate key|unique constraint/i.test(error.message)) {
+      return res.status(400).json({ success: false, error: 'That email is already in use' });
+    }
+    console.error('User Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../../lib/store';
+import { authorize, toPublicUser, validateUser, type PublicUser } from '../../../../lib/auth';
+
+export interface UsersResponse {
+  success: boolean;
+  users?: PublicUser[];
+  user?: PublicUser;
+  error?: string;
+}
+
+/** GET lists the accounts; POST creates one with `{ email, password, role }`. Admins only. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UsersResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'admin'))) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const users = await store.query('users', { orderBy: [{ column: 'email', ascending: true }] });
+      return res.status(200).json({ success: true, users: users.map(toPublicUser) });
+    }
+
+    const { user, error } = validateUser(req.body);
+    if (!user) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const existing = await store.query('users', { filters: [{ column: 'email', op: 'eq', value: user.email }] });
+    if (existing.length > 0) {
+      return res.status(409).json({ success: false, error: `${user.email} already has an account` });
+    }
+
+    const [created] = await store.insert('users', [user]);
+    return res.status(201).json({ success: true, user: toPublicUser(created) });
+  } catch (error: any) {
+    console.error('Users Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getArticleSummaries, type ArticleSummary } from '../../../lib/bodies';
+import { authorize } from '../../../lib/auth';
+
+export interface BodiesResponse {
+  success: boolean;
+  /** Keyed by the requested URL; URLs that were never queued are missing */
+  bodies?: Record<string, ArticleSummary>;
+  error?: string;
+}
+
+const MAX_URLS = 100;
+
+/** Summaries and reading times for the article URLs given as `?url=` (repeatable). */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BodiesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const urls = ([] as string[]).concat(req.query.url || []).filter(Boolean);
+  if (urls.length === 0 || urls.length > MAX_URLS) {
+    return res.status(400).json({ success: false, error: `Pass between 1 and ${MAX_URLS} url parameters` });
+  }
+
+  try {
+    const bodies = await getArticleSummaries(getStore(), urls);
+    return res.status(200).json({ success: true, bodies });
+  } catch (error: any) {
+    console.error('Bodies Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getArticleBody, type ArticleBody } from '../../../lib/bodies';
+import { authorize } from '../../../lib/auth';
+
+export interface BodyTextResponse {
+  success: boolean;
+  body?: ArticleBody;
+  error?: string;
+}
+
+/** The stored body of one article, with its markdown, for `?url=`. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BodyTextResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const url = typeof req.query.url === 'string' ? req.query.url : '';
+  if (!url) {
+    return res.status(400).json({ success: false, error: 'url is required' });
+  }
+
+  try {
+    const body = await getArticleBody(getStore(), url);
+    if (!body) {
+      return res.status(404).json({ success: false, error: 'No body stored for this URL' });
+    }
+
+    res.setHeader('Cache-Control', body.status === 'fetched' ? 'private, max-age=86400' : 'no-store');
+    return res.status(200).json({ success: true, body });
+  } catch (error: any) {
+    console.error('Body Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import {
+  getCategories,
+  saveCategories,
+  validateCategories,
+  type CategoryDefinition,
+} from '../../../lib/categories';
+import { authorize } from '../../../lib/auth';
+
+export interface CategoriesResponse {
+  success: boolean;
+  categories?: CategoryDefinition[];
+  error?: string;
+}
+
+/**
+ * GET lists the category taxonomy; PUT replaces it with
+ * `{ "categories": [...] }`. Stored articles keep their topics until
+ * POST /api/categories/recategorize is run.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CategoriesResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, req.method === 'GET' ? 'viewer' : 'operator'))) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'PUT') {
+      const { categories, error } = validateCategories(req.body?.categories);
+      if (error) {
+        return res.status(400).json({ success: false, error });
+      }
+      await saveCategories(store, categories);
+    }
+
+    return res.status(200).json({ success: true, categories: await getCategories(store) });
+  } catch (error: any) {
+    console.error('Categories Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
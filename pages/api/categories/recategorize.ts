@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getCategories, recategorizeArticles, type RecategorizeResult } from '../../../lib/categories';
+import { rebuildRollups } from '../../../lib/analytics';
+import { authorize } from '../../../lib/auth';
+
+export interface RecategorizeResponse {
+  success: boolean;
+  result?: RecategorizeResult;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RecategorizeResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  try {
+    const store = getStore();
+    const result = await recategorizeArticles(store, await getCategories(store));
+
+    console.log(`Recategorized ${result.changed} of ${result.scanned} articles`);
+
+    // The topic counts behind the dashboard are now stale
+    if (result.changed > 0) {
+      await rebuildRollups(store);
+    }
+    return res.status(200).json({ success: true, result });
+  } catch (error: any) {
+    console.error('Recategorize Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,34 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getCompanyProfile, type CompanyProfile } from '../../../lib/companies';
+import { authorize } from '../../../lib/auth';
+
+export interface CompanyResponse extends Partial<CompanyProfile> {
+  success: boolean;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CompanyResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const name = String(req.query.name);
+
+  try {
+    const profile = await getCompanyProfile(getStore(), name);
+    if (!profile) {
+      return res.status(404).json({ success: false, error: `Unknown company: ${name}` });
+    }
+
+    return res.status(200).json({ success: true, ...profile });
+  } catch (error: any) {
+    console.error('Company Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,36 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { countCompanyArticles, getCompanies, type Company } from '../../../lib/companies';
+import { authorize } from '../../../lib/auth';
+
+export interface CompaniesResponse {
+  success: boolean;
+  companies?: (Company & { articleCount: number })[];
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CompaniesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  try {
+    const store = getStore();
+    const [companies, counts] = await Promise.all([getCompanies(store), countCompanyArticles(store)]);
+
+    return res.status(200).json({
+      success: true,
+      companies: companies
+        .map(company => ({ ...company, articleCount: counts[company.id] || 0 }))
+        .sort((a, b) => b.articleCount - a.articleCount || a.name.localeCompare(b.name)),
+    });
+  } catch (error: any) {
+    console.error('Companies Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
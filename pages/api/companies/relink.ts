@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { relinkArticles } from '../../../lib/companies';
+import { rebuildRollups } from '../../../lib/analytics';
+import { authorize } from '../../../lib/auth';
+
+export interface RelinkResponse {
+  success: boolean;
+  scanned?: number;
+  linked?: number;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RelinkResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  try {
+    const store = getStore();
+    const { scanned, linked } = await relinkArticles(store);
+
+    console.log(`Added ${linked} company links across ${scanned} articles`);
+    if (linked > 0) {
+      await rebuildRollups(store);
+    }
+    return res.status(200).json({ success: true, scanned, linked });
+  } catch (error: any) {
+    console.error('Relink Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
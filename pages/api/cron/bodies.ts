@@ -0,0 +1,67 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore, type ArticleStore } from '../../../lib/store';
+import { createFirecrawlClient } from '../../../lib/firecrawl';
+import { bodiesEnabled, fetchPendingBodies, type BodyFetchResult } from '../../../lib/bodies';
+
+export interface BodyFetchResponse extends Partial<BodyFetchResult> {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Fetches a batch of queued article bodies. Vercel Cron calls this with
+ * `Authorization: Bearer $CRON_SECRET` (see vercel.json).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<BodyFetchResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return res.status(500).json({
+      success: false,
+      error: 'Cron secret not configured. Please add CRON_SECRET to your environment variables.',
+    });
+  }
+
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' });
+  }
+
+  if (!bodiesEnabled()) {
+    return res.status(200).json({ success: true, fetched: 0, failed: 0, remaining: 0 });
+  }
+
+  const firecrawlApiKey = process.env.FIRECRAWL_API_KEY;
+  if (!firecrawlApiKey) {
+    return res.status(500).json({
+      success: false,
+      error: 'FireCrawl API key not configured. Please add FIRECRAWL_API_KEY to your environment variables.',
+    });
+  }
+
+  let store: ArticleStore;
+  try {
+    store = getStore();
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+
+  try {
+    const result = await fetchPendingBodies(store, createFirecrawlClient({ apiKey: firecrawlApiKey }));
+
+    if (result.budgetExceeded) {
+      console.warn(`Article bodies skipped: ${result.budgetExceeded}`);
+    } else {
+      console.log(`Article bodies: ${result.fetched} fetched, ${result.failed} failed, ${result.remaining} pending`);
+    }
+    return res.status(200).json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('Body Fetch Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
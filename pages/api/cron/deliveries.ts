@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { retryDueDeliveries } from '../../../lib/webhooks';
+
+export interface DeliveryRetryResponse {
+  success: boolean;
+  retried?: number;
+  delivered?: number;
+  error?: string;
+}
+
+/**
+ * Retries webhook deliveries whose backoff has elapsed. Vercel Cron calls
+ * this with `Authorization: Bearer $CRON_SECRET` (see vercel.json).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DeliveryRetryResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return res.status(500).json({
+      success: false,
+      error: 'Cron secret not configured. Please add CRON_SECRET to your environment variables.',
+    });
+  }
+
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' });
+  }
+
+  try {
+    const { retried, delivered } = await retryDueDeliveries(getStore());
+
+    console.log(`Webhook retries: ${delivered} of ${retried} delivered`);
+    return res.status(200).json({ success: true, retried, delivered });
+  } catch (error: any) {
+    console.error('Delivery Retry Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { digestMailOptions, sendDueDigests, type DigestRun } from '../../../lib/digest';
+import { createSmtpTransport, smtpConfigFromEnv } from '../../../lib/mail';
+
+export interface DigestRunResponse extends Partial<DigestRun> {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Emails the digests that are due: daily ones a day after the last, weekly
+ * ones a week after. Vercel Cron calls this every morning with
+ * `Authorization: Bearer $CRON_SECRET` (see vercel.json).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DigestRunResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return res.status(500).json({
+      success: false,
+      error: 'Cron secret not configured. Please add CRON_SECRET to your environment variables.',
+    });
+  }
+
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' });
+  }
+
+  const smtp = smtpConfigFromEnv();
+  if (!smtp) {
+    return res.status(500).json({
+      success: false,
+      error: 'SMTP not configured. Please add SMTP_HOST to your environment variables.',
+    });
+  }
+
+  try {
+    const run = await sendDueDigests(getStore(), createSmtpTransport(smtp), digestMailOptions());
+
+    console.log(`Digests: ${run.sent} sent, ${run.empty} empty, ${run.failed} failed`);
+    return res.status(200).json({ success: true, ...run });
+  } catch (error: any) {
+    console.error('Digest Run Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
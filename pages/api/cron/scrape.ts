@@ -0,0 +1,78 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getEnabledSources, type NewsSource } from '../../../lib/sources';
+import { runScrape, type ScrapeResponse } from '../../../lib/scraper';
+import { getStore, type ArticleStore } from '../../../lib/store';
+import { createFirecrawlClient } from '../../../lib/firecrawl';
+import { checkBudget } from '../../../lib/usage';
+
+/**
+ * Scheduled ingestion of every enabled source. Vercel Cron calls this with
+ * `Authorization: Bearer $CRON_SECRET` (see the crons entry in vercel.json).
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ScrapeResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    return res.status(500).json({
+      success: false,
+      error: 'Cron secret not configured. Please add CRON_SECRET to your environment variables.',
+      errorCode: 'config'
+    });
+  }
+
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return res.status(401).json({ success: false, error: 'Unauthorized' });
+  }
+
+  const firecrawlApiKey = process.env.FIRECRAWL_API_KEY;
+  if (!firecrawlApiKey) {
+    return res.status(500).json({
+      success: false,
+      error: 'FireCrawl API key not configured. Please add FIRECRAWL_API_KEY to your environment variables.',
+      errorCode: 'config'
+    });
+  }
+
+  let store: ArticleStore;
+  try {
+    store = getStore();
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message, errorCode: 'config' });
+  }
+
+  // Skipped runs show up as 429s in the cron log until the budget resets
+  try {
+    const exceeded = await checkBudget(store);
+    if (exceeded) {
+      res.setHeader('Retry-After', String(Math.ceil((new Date(exceeded.resetsAt).getTime() - Date.now()) / 1000)));
+      return res.status(429).json({ success: false, error: exceeded.message, errorCode: 'budget_exceeded' });
+    }
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}`, errorCode: 'db' });
+  }
+
+  let sources: NewsSource[];
+  try {
+    sources = getEnabledSources();
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message, errorCode: 'config' });
+  }
+  if (sources.length === 0) {
+    return res.status(200).json({ success: true, articles: [], sources: [] });
+  }
+
+  const { status, response } = await runScrape(sources, {
+    firecrawl: createFirecrawlClient({ apiKey: firecrawlApiKey }),
+    store,
+    trigger: 'cron',
+  });
+
+  console.log(`Cron scrape finished: ${response.newArticles || 0} new, ${response.knownArticles || 0} known`);
+  return res.status(status).json(response);
+}
@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import {
+  buildDigest,
+  digestMailOptions,
+  digestSubject,
+  renderDigestHtml,
+  renderDigestText,
+  validateFilters,
+  type Digest,
+  type DigestFilters,
+} from '../../../lib/digest';
+import { authorize } from '../../../lib/auth';
+
+export interface DigestPreviewResponse {
+  success: boolean;
+  digest?: Digest;
+  subject?: string;
+  html?: string;
+  text?: string;
+  error?: string;
+}
+
+/**
+ * The digest that would be sent now, rendered as the email's HTML and
+ * plain text. Either `?subscriber=<id>` for a subscriber's digest, or
+ * `?period=daily|weekly` with repeatable `?category=` and `?company=`.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DigestPreviewResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  try {
+    const store = getStore();
+
+    let filters: DigestFilters | undefined;
+    if (req.query.subscriber !== undefined) {
+      const id = Number(req.query.subscriber);
+      if (!Number.isInteger(id)) {
+        return res.status(400).json({ success: false, error: 'Invalid subscriber id' });
+      }
+      [filters] = await store.query('digest_subscribers', { filters: [{ column: 'id', op: 'eq', value: id }] });
+      if (!filters) {
+        return res.status(404).json({ success: false, error: 'Subscriber not found' });
+      }
+    } else {
+      const parsed = validateFilters({
+        period: req.query.period,
+        categories: ([] as string[]).concat(req.query.category || []),
+        companies: ([] as string[]).concat(req.query.company || []),
+      });
+      if (!parsed.filters) {
+        return res.status(400).json({ success: false, error: parsed.error });
+      }
+      filters = parsed.filters;
+    }
+
+    const digest = await buildDigest(store, filters);
+    const { siteUrl } = digestMailOptions();
+    return res.status(200).json({
+      success: true,
+      digest,
+      subject: digestSubject(digest),
+      html: renderDigestHtml(digest, siteUrl),
+      text: renderDigestText(digest, siteUrl),
+    });
+  } catch (error: any) {
+    console.error('Digest Preview Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
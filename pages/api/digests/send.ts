@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { buildDigest, digestMailOptions, sendDigest, type Digest, type DigestSubscriber } from '../../../lib/digest';
+import { createSmtpTransport, smtpConfigFromEnv } from '../../../lib/mail';
+import { authorize } from '../../../lib/auth';
+
+export interface DigestSendResponse {
+  success: boolean;
+  /** `empty` when there was nothing to send */
+  outcome?: 'sent' | 'empty';
+  error?: string;
+  errorCode?: 'config' | 'smtp' | 'db';
+}
+
+/** Sends a subscriber's digest now, whether or not it is due: POST `{ "subscriber_id": <id> }`. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DigestSendResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  const smtp = smtpConfigFromEnv();
+  if (!smtp) {
+    return res.status(500).json({
+      success: false,
+      error: 'SMTP not configured. Please add SMTP_HOST to your environment variables.',
+      errorCode: 'config',
+    });
+  }
+
+  const id = Number(req.body?.subscriber_id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ success: false, error: 'subscriber_id must be a subscriber id' });
+  }
+
+  const store = getStore();
+  let subscriber: DigestSubscriber | undefined;
+  let digest: Digest;
+  try {
+    [subscriber] = await store.query('digest_subscribers', { filters: [{ column: 'id', op: 'eq', value: id }] });
+    if (!subscriber) {
+      return res.status(404).json({ success: false, error: 'Subscriber not found' });
+    }
+    digest = await buildDigest(store, subscriber);
+  } catch (error: any) {
+    console.error('Digest Send Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}`, errorCode: 'db' });
+  }
+
+  try {
+    const outcome = await sendDigest(store, createSmtpTransport(smtp), subscriber, { ...digestMailOptions(), digest });
+    return res.status(200).json({ success: true, outcome });
+  } catch (error: any) {
+    console.error('Digest Send Error:', error.message);
+    return res.status(502).json({ success: false, error: `Sending failed: ${error.message}`, errorCode: 'smtp' });
+  }
+}
@@ -0,0 +1,57 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../../lib/store';
+import { validateSubscriber } from '../../../../lib/digest';
+import type { SubscribersResponse } from './index';
+import { authorize } from '../../../../lib/auth';
+
+/** GET, PUT (full replacement) or DELETE one digest subscriber. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SubscribersResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid subscriber id' });
+  }
+  const byId = [{ column: 'id' as const, op: 'eq' as const, value: id }];
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const [subscriber] = await store.query('digest_subscribers', { filters: byId });
+      if (!subscriber) {
+        return res.status(404).json({ success: false, error: 'Subscriber not found' });
+      }
+      return res.status(200).json({ success: true, subscriber });
+    }
+
+    if (req.method === 'DELETE') {
+      const [deleted] = await store.delete('digest_subscribers', byId);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Subscriber not found' });
+      }
+      return res.status(200).json({ success: true, subscriber: deleted });
+    }
+
+    const { subscriber, error } = validateSubscriber(req.body);
+    if (!subscriber) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const [updated] = await store.update('digest_subscribers', byId, subscriber);
+    if (!updated) {
+      return res.status(404).json({ success: false, error: 'Subscriber not found' });
+    }
+    return res.status(200).json({ success: true, subscriber: updated });
+  } catch (error: any) {
+    console.error('Subscriber Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../../lib/store';
+import { getSubscribers, validateSubscriber, type DigestSubscriber } from '../../../../lib/digest';
+import { authorize } from '../../../../lib/auth';
+
+export interface SubscribersResponse {
+  success: boolean;
+  subscribers?: DigestSubscriber[];
+  subscriber?: DigestSubscriber;
+  error?: string;
+}
+
+/** GET lists digest subscribers; POST adds one. Both need an operator, as the list holds email addresses. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SubscribersResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, subscribers: await getSubscribers(store) });
+    }
+
+    const { subscriber, error } = validateSubscriber(req.body);
+    if (!subscriber) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const [created] = await store.insert('digest_subscribers', [{ ...subscriber, last_sent_at: null, last_error: null }]);
+    return res.status(201).json({ success: true, subscriber: created });
+  } catch (error: any) {
+    console.error('Subscribers Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getAnalytics, parseAnalyticsWindow } from '../../../lib/analytics';
+import {
+  ANALYTICS_SERIES,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  analyticsTable,
+  createExportWriter,
+  exportFilename,
+  type AnalyticsSeries,
+  type ExportFormat,
+} from '../../../lib/export';
+import { authorize } from '../../../lib/auth';
+
+/**
+ * The series behind the dashboard charts as a download: `?series=topics`
+ * (articles and sentiment per topic), `dates` (articles per day) or
+ * `timeline` (articles per bucket and topic), as `?format=csv|json|ndjson`.
+ * The window parameters are those of /api/analytics.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const format = (req.query.format || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ success: false, error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+  }
+
+  const series = req.query.series as AnalyticsSeries;
+  if (!ANALYTICS_SERIES.includes(series)) {
+    return res.status(400).json({ success: false, error: `series must be one of ${ANALYTICS_SERIES.join(', ')}` });
+  }
+
+  const { window, error } = parseAnalyticsWindow(req.query);
+  if (!window) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  try {
+    const { columns, records } = analyticsTable(await getAnalytics(getStore(), window), series);
+
+    res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(series, format, `${window.from}-to-${window.to}`)}"`);
+    res.status(200);
+
+    const writer = createExportWriter(res, format, columns);
+    await writer.write(records);
+    writer.end();
+  } catch (error: any) {
+    console.error('Export Error:', error.message);
+    if (res.headersSent) return res.destroy();
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
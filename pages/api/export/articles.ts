@@ -0,0 +1,73 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { parseArticleQuery, scanArticles } from '../../../lib/articles';
+import {
+  ARTICLE_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  articleRecord,
+  createExportWriter,
+  exportFilename,
+  type ExportFormat,
+  type ExportRecord,
+} from '../../../lib/export';
+import { authorize } from '../../../lib/auth';
+
+// Exports are streamed, so Next.js shouldn't warn about their size
+export const config = { api: { responseLimit: false } };
+
+/**
+ * Every stored article matching the filters of /api/articles (`topic` or
+ * `category`, `company`, `source`, `from`/`to`, `q`, `sort`) as a CSV, JSON
+ * or NDJSON download, chosen with `?format=` (default csv).
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const format = (req.query.format || 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return res.status(400).json({ success: false, error: `format must be one of ${EXPORT_FORMATS.join(', ')}` });
+  }
+
+  // An export has no pages, so limit and cursor are left out
+  const { limit, cursor, category, ...params } = req.query;
+  const { query, error } = parseArticleQuery({ ...params, topic: params.topic || category });
+  if (!query) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  let next: () => Promise<ExportRecord[]>;
+  let batch: ExportRecord[];
+  try {
+    const scan = await scanArticles(getStore(), query);
+    if (!scan.next) {
+      return res.status(404).json({ success: false, error: scan.error });
+    }
+    next = async () => (await scan.next!()).map(articleRecord);
+    batch = await next();
+  } catch (error: any) {
+    console.error('Export Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+
+  res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFilename('articles', format)}"`);
+  res.status(200);
+
+  const writer = createExportWriter(res, format, ARTICLE_COLUMNS);
+  try {
+    while (batch.length > 0) {
+      await writer.write(batch);
+      batch = await next();
+    }
+    writer.end();
+  } catch (error: any) {
+    // The download has started; cutting the connection tells the client it is incomplete
+    console.error('Export Error:', error.message);
+    res.destroy();
+  }
+}
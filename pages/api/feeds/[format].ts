@@ -0,0 +1,75 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { FEED_FORMATS, getFeedItems, renderFeed, type FeedFilters, type FeedFormat } from '../../../lib/feeds';
+import { authorize } from '../../../lib/auth';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * Stored articles as RSS 2.0 (/api/feeds/rss), Atom (/api/feeds/atom) or
+ * JSON Feed (/api/feeds/json), newest first. Optional filters: `?source=`,
+ * `?category=`, `?company=`, `?watchlist=<id>`; `?limit=` up to 200.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer', { allowQueryKey: true }))) return;
+
+  const format = req.query.format as FeedFormat;
+  if (!FEED_FORMATS.includes(format)) {
+    return res.status(404).json({ success: false, error: `Unknown feed format. Use ${FEED_FORMATS.join(', ')}` });
+  }
+
+  const param = (name: string) => (typeof req.query[name] === 'string' && req.query[name] ? req.query[name] as string : undefined);
+
+  const filters: FeedFilters = {
+    source: param('source'),
+    category: param('category'),
+    company: param('company'),
+  };
+
+  const watchlist = param('watchlist');
+  if (watchlist !== undefined) {
+    filters.watchlist = Number(watchlist);
+    if (!Number.isInteger(filters.watchlist)) {
+      return res.status(400).json({ success: false, error: 'watchlist must be a watchlist id' });
+    }
+  }
+
+  const limit = param('limit') ? parseInt(param('limit')!, 10) : DEFAULT_LIMIT;
+  if (isNaN(limit) || limit <= 0 || limit > MAX_LIMIT) {
+    return res.status(400).json({ success: false, error: `limit must be between 1 and ${MAX_LIMIT}` });
+  }
+
+  try {
+    const { items, error } = await getFeedItems(getStore(), filters, limit);
+    if (error) {
+      return res.status(404).json({ success: false, error });
+    }
+
+    const siteUrl = process.env.SITE_URL?.replace(/\/+$/, '')
+      || `${req.headers['x-forwarded-proto'] || 'http'}://${req.headers.host}`;
+    // The self link must not hand out the API key the reader subscribed with
+    const feedUrl = new URL(req.url || '', siteUrl);
+    feedUrl.searchParams.delete('key');
+    const labels = [filters.category, filters.company, filters.source].filter(Boolean);
+
+    const { contentType, body } = renderFeed(format, {
+      title: ['FireCrawl News Monitor'].concat(labels.length > 0 ? [labels.join(' · ')] : []).join(': '),
+      feedUrl: feedUrl.toString(),
+      siteUrl,
+      items,
+    });
+
+    res.setHeader('Content-Type', contentType);
+    // Responses depend on the caller's credentials, so shared caches must not keep them
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    return res.status(200).send(body);
+  } catch (error: any) {
+    console.error('Feed Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
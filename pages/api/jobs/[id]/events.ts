@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore, type ArticleStore } from '../../../../lib/store';
+import { getScrapeJob } from '../../../../lib/jobs';
+import { authorize } from '../../../../lib/auth';
+
+const POLL_INTERVAL_MS = 1000;
+// Close before the function's maxDuration; EventSource reconnects by itself
+const STREAM_DURATION_MS = 25000;
+
+/**
+ * Server-sent events for a scrape job: a `progress` event with the job
+ * whenever it changes and a final `done` event once it has finished.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid job id' });
+  }
+
+  // Before the stream starts, while an error can still be a JSON response
+  let store: ArticleStore;
+  try {
+    store = getStore();
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message, errorCode: 'config' });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'Content-Encoding': 'none',
+    'X-Accel-Buffering': 'no',
+  });
+  res.write(`retry: ${POLL_INTERVAL_MS}\n\n`);
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+  });
+
+  const deadline = Date.now() + STREAM_DURATION_MS;
+  let lastUpdate: string | undefined;
+
+  while (!closed && Date.now() < deadline) {
+    try {
+      const job = await getScrapeJob(store, id);
+      if (!job) {
+        send('failure', { error: 'Job not found' });
+        break;
+      }
+      if (job.status !== 'running') {
+        send('done', job);
+        break;
+      }
+      if (job.updated_at !== lastUpdate) {
+        send('progress', job);
+        lastUpdate = job.updated_at;
+      }
+    } catch (error: any) {
+      console.error('Job Events Error:', error.message);
+      send('failure', { error: `Database error: ${error.message}` });
+      break;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+
+  res.end();
+}
@@ -0,0 +1,32 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../../lib/store';
+import { getScrapeJob } from '../../../../lib/jobs';
+import type { JobResponse } from '../index';
+import { authorize } from '../../../../lib/auth';
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<JobResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid job id', errorCode: 'bad_request' });
+  }
+
+  try {
+    const job = await getScrapeJob(getStore(), id);
+    if (!job) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+    return res.status(200).json({ success: true, job });
+  } catch (error: any) {
+    console.error('Job Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}`, errorCode: 'db' });
+  }
+}
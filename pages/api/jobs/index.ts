@@ -0,0 +1,108 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { waitUntil } from '@vercel/functions';
+import { selectSources, type NewsSource } from '../../../lib/sources';
+import { getStore, type ArticleStore } from '../../../lib/store';
+import { createFirecrawlClient, type FirecrawlClient } from '../../../lib/firecrawl';
+import { createScrapeJob, jobBudgetMs, runScrapeJob, type ScrapeJob } from '../../../lib/jobs';
+import { bodiesEnabled, fetchPendingBodies } from '../../../lib/bodies';
+import type { ScrapeErrorCode } from '../../../lib/scraper';
+import { authorize } from '../../../lib/auth';
+import { checkBudget } from '../../../lib/usage';
+
+export interface JobResponse {
+  success: boolean;
+  job?: ScrapeJob;
+  error?: string;
+  errorCode?: ScrapeErrorCode;
+}
+
+/**
+ * Starts a scrape job and answers 202 with the job straight away. Follow it
+ * with GET /api/jobs/:id or the event stream at /api/jobs/:id/events.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<JobResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  const firecrawlApiKey = process.env.FIRECRAWL_API_KEY;
+  if (!firecrawlApiKey) {
+    return res.status(500).json({
+      success: false,
+      error: 'FireCrawl API key not configured. Please add FIRECRAWL_API_KEY to your environment variables.',
+      errorCode: 'config'
+    });
+  }
+
+  let store: ArticleStore;
+  try {
+    store = getStore();
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message, errorCode: 'config' });
+  }
+
+  // Checked before the job exists, so a refused scrape leaves no failed job behind
+  try {
+    const exceeded = await checkBudget(store);
+    if (exceeded) {
+      res.setHeader('Retry-After', String(Math.ceil((new Date(exceeded.resetsAt).getTime() - Date.now()) / 1000)));
+      return res.status(429).json({ success: false, error: exceeded.message, errorCode: 'budget_exceeded' });
+    }
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}`, errorCode: 'db' });
+  }
+
+  let selected: ReturnType<typeof selectSources>;
+  try {
+    selected = selectSources((req.body?.source || req.query.source) as string | undefined);
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message, errorCode: 'config' });
+  }
+  const { sources, error } = selected;
+  if (error) {
+    return res.status(400).json({ success: false, error, errorCode: 'bad_request' });
+  }
+
+  let job: ScrapeJob;
+  try {
+    job = await createScrapeJob(store, sources);
+  } catch (error: any) {
+    console.error('Job Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}`, errorCode: 'db' });
+  }
+
+  const firecrawl = createFirecrawlClient({
+    apiKey: firecrawlApiKey,
+    deadline: Date.now() + jobBudgetMs(),
+  });
+
+  // Keeps the invocation alive after the response, up to the 300s
+  // maxDuration in vercel.json. Should it end early anyway, reading the
+  // job marks it failed (see getScrapeJob)
+  waitUntil(runJob(job, sources, { firecrawl, store }));
+
+  return res.status(202).json({ success: true, job });
+}
+
+async function runJob(
+  job: ScrapeJob,
+  sources: NewsSource[],
+  context: { firecrawl: FirecrawlClient; store: ArticleStore }
+): Promise<void> {
+  await runScrapeJob(job, sources, context);
+
+  // Spend what is left of the budget on the bodies the job queued
+  if (bodiesEnabled()) {
+    try {
+      const { fetched, remaining } = await fetchPendingBodies(context.store, context.firecrawl);
+      console.log(`Scrape job ${job.id}: fetched ${fetched} article bodies, ${remaining} pending`);
+    } catch (error: any) {
+      console.error(`Error fetching article bodies after job ${job.id}:`, error.message);
+    }
+  }
+}
@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../lib/store';
+import type { ScrapeRun } from '../../lib/scrapeRuns';
+import { authorize } from '../../lib/auth';
+import { usageByRun } from '../../lib/usage';
+
+export interface RunsResponse {
+  success: boolean;
+  /** With the FireCrawl credits and requests each run used */
+  runs?: (ScrapeRun & { credits: number; requests: number })[];
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<RunsResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  try {
+    const store = getStore();
+    const runs = await store.query('scrape_runs', {
+      orderBy: [{ column: 'started_at', ascending: false }],
+      limit: 10,
+    });
+    const usage = await usageByRun(store, runs.map(run => run.id));
+
+    return res.status(200).json({ success: true, runs: runs.map(run => ({ ...run, ...usage[run.id] })) });
+  } catch (error: any) {
+    console.error('Runs Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -1,19 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
-import axios from 'axios';
-import { createClient } from '@supabase/supabase-js';
+import { selectSources } from '../../lib/sources';
+import { runScrape, type ScrapeResponse } from '../../lib/scraper';
+import { getStore, type ArticleStore } from '../../lib/store';
+import { createFirecrawlClient } from '../../lib/firecrawl';
+import { authorize } from '../../lib/auth';
+import { checkBudget } from '../../lib/usage';
 
-export interface Article {
-  headline: string;
-  company?: string;
-  category: 'AI' | 'Funding' | 'Product' | 'Regulation' | 'Other';
-}
-
-export interface ScrapeResponse {
-  success: boolean;
-  articles?: Article[];
-  error?: string;
-  supabaseInserted?: boolean;
-}
+export type { Article, ExtractionMethod, ScrapeErrorCode, ScrapeResponse, SourceResult } from '../../lib/scraper';
 
 export default async function handler(
   req: NextApiRequest,
@@ -23,248 +16,53 @@ export default async function handler(
     return res.status(405).json({ success: false, error: 'Method not allowed' });
   }
 
-  try {
-    // Check required environment variables
-    const firecrawlApiKey = process.env.FIRECRAWL_API_KEY;
-    const supabaseUrl = process.env.SUPABASE_URL;
-    const supabaseKey = process.env.SUPABASE_KEY;
-    
-    if (!firecrawlApiKey) {
-      return res.status(500).json({ 
-        success: false, 
-        error: 'FireCrawl API key not configured. Please add FIRECRAWL_API_KEY to your environment variables.' 
-      });
-    }
-
-    if (!supabaseUrl || !supabaseKey) {
-      return res.status(500).json({ 
-        success: false, 
-        error: 'Supabase configuration missing. Please add SUPABASE_URL and SUPABASE_KEY to your environment variables.' 
-      });
-    }
-
-    // Initialize Supabase client
-    const supabase = createClient(supabaseUrl, supabaseKey);
-
-    // FireCrawl extract endpoint with structured data extraction
-    const response = await axios.post(
-      'https://api.firecrawl.dev/v1/extract',
-      {
-        urls: ['https://techcrunch.com/'],
-        prompt: `Extract the latest 5 article headlines from https://techcrunch.com/ and for each one, return:
-- headline (string)
-- company mentioned (if any, string or null)
-- category: choose from ["AI", "Funding", "Product", "Regulation", "Other"]
-
-Return as a JSON array with objects containing these fields.`,
-        schema: {
-          type: 'object',
-          properties: {
-            articles: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  headline: { type: 'string' },
-                  company: { type: 'string' },
-                  category: { 
-                    type: 'string',
-                    enum: ['AI', 'Funding', 'Product', 'Regulation', 'Other']
-                  }
-                },
-                required: ['headline', 'category']
-              }
-            }
-          }
-        }
-      },
-      {
-        headers: {
-          'Authorization': `Bearer ${firecrawlApiKey}`,
-          'Content-Type': 'application/json',
-        },
-      }
-    );
-
-    // Extract articles from the response
-    let articles: Article[] = [];
-    
-    if (response.data && response.data.data && response.data.data.length > 0) {
-      const extractedData = response.data.data[0].extract;
-      if (extractedData && extractedData.articles) {
-        articles = extractedData.articles.map((article: any) => ({
-          headline: article.headline || 'Untitled Article',
-          company: article.company || undefined,
-          category: article.category || 'Other'
-        }));
-      }
-    }
-
-    // Fallback: If structured extraction doesn't work, try scraping and manual parsing
-    if (articles.length === 0) {
-      console.log('Structured extraction failed, trying scrape method...');
-      
-      const scrapeResponse = await axios.post(
-        'https://api.firecrawl.dev/v1/scrape',
-        {
-          url: 'https://techcrunch.com/',
-          formats: ['markdown'],
-          onlyMainContent: true
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${firecrawlApiKey}`,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-
-      // Manual parsing fallback - extract headlines from markdown
-      if (scrapeResponse.data && scrapeResponse.data.data && scrapeResponse.data.data.markdown) {
-        const markdown = scrapeResponse.data.data.markdown;
-        const headlines = parseHeadlinesFromMarkdown(markdown);
-        articles = headlines.slice(0, 5); // Take first 5
-      }
-    }
-
-    // Use mock data if no articles found
-    if (articles.length === 0) {
-      articles = generateMockData();
-    }
-
-    // Insert articles into Supabase
-    let supabaseInserted = false;
-    try {
-      if (articles.length > 0) {
-        const { error: supabaseError } = await supabase
-          .from('news_articles')
-          .insert(
-            articles.map(article => ({
-              title: article.headline,
-              url: 'https://techcrunch.com/', // Placeholder URL
-              topic: article.category,
-              published_date: new Date().toISOString(),
-            }))
-          );
-
-        if (supabaseError) {
-          console.error('Supabase Error:', supabaseError);
-          return res.status(500).json({ 
-            success: false, 
-            error: `Database error: ${supabaseError.message}`,
-            articles 
-          });
-        }
-
-        supabaseInserted = true;
-        console.log(`Successfully inserted ${articles.length} articles into Supabase`);
-      }
-    } catch (supabaseError: any) {
-      console.error('Supabase Error:', supabaseError);
-      return res.status(500).json({ 
-        success: false, 
-        error: `Database connection error: ${supabaseError.message}`,
-        articles 
-      });
-    }
-
-    return res.status(200).json({ 
-      success: true, 
-      articles,
-      supabaseInserted
-    });
+  if (!(await authorize(req, res, 'operator'))) return;
 
-  } catch (error: any) {
-    console.error('API Error:', error.response?.data || error.message);
-    
-    // Return mock data in case of API failure but indicate the error
+  // Check required environment variables
+  const firecrawlApiKey = process.env.FIRECRAWL_API_KEY;
+  
+  if (!firecrawlApiKey) {
     return res.status(500).json({ 
       success: false, 
-      error: `FireCrawl API error: ${error.message}`,
-      articles: generateMockData()
+      error: 'FireCrawl API key not configured. Please add FIRECRAWL_API_KEY to your environment variables.',
+      errorCode: 'config'
     });
   }
-}
 
-function parseHeadlinesFromMarkdown(markdown: string): Article[] {
-  const articles: Article[] = [];
-  const lines = markdown.split('\n');
-  
-  for (const line of lines) {
-    // Look for markdown headers that might be headlines
-    const headlineMatch = line.match(/^#{1,4}\s+\[(.+?)\]/);
-    if (headlineMatch) {
-      const headline = headlineMatch[1];
-      const company = extractCompanyFromHeadline(headline);
-      const category = categorizeHeadline(headline);
-      
-      articles.push({ headline, company, category });
-      
-      if (articles.length >= 5) break;
-    }
+  let store: ArticleStore;
+  try {
+    store = getStore();
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message, errorCode: 'config' });
   }
-  
-  return articles;
-}
 
-function extractCompanyFromHeadline(headline: string): string | undefined {
-  // Simple company extraction logic
-  const companies = ['Microsoft', 'Google', 'Apple', 'Amazon', 'Meta', 'Tesla', 'OpenAI', 'Anthropic', 'SpaceX', 'Uber', 'Airbnb', 'Netflix', 'X', 'TikTok', 'ByteDance'];
-  
-  for (const company of companies) {
-    if (headline.toLowerCase().includes(company.toLowerCase())) {
-      return company;
+  // Refuse before spending anything once a credit budget is used up
+  try {
+    const exceeded = await checkBudget(store);
+    if (exceeded) {
+      res.setHeader('Retry-After', String(Math.ceil((new Date(exceeded.resetsAt).getTime() - Date.now()) / 1000)));
+      return res.status(429).json({ success: false, error: exceeded.message, errorCode: 'budget_exceeded' });
     }
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}`, errorCode: 'db' });
   }
-  
-  return undefined;
-}
 
-function categorizeHeadline(headline: string): Article['category'] {
-  const lower = headline.toLowerCase();
-  
-  if (lower.includes('ai') || lower.includes('artificial intelligence') || lower.includes('machine learning') || lower.includes('chatgpt') || lower.includes('openai')) {
-    return 'AI';
-  }
-  if (lower.includes('funding') || lower.includes('investment') || lower.includes('raises') || lower.includes('series') || lower.includes('venture')) {
-    return 'Funding';
-  }
-  if (lower.includes('product') || lower.includes('launch') || lower.includes('release') || lower.includes('update') || lower.includes('feature')) {
-    return 'Product';
+  // Scrape one explicitly requested source, or every enabled one
+  let selected: ReturnType<typeof selectSources>;
+  try {
+    selected = selectSources((req.body?.source || req.query.source) as string | undefined);
+  } catch (error: any) {
+    return res.status(500).json({ success: false, error: error.message, errorCode: 'config' });
   }
-  if (lower.includes('regulation') || lower.includes('policy') || lower.includes('government') || lower.includes('legal') || lower.includes('lawsuit')) {
-    return 'Regulation';
+  const { sources, error } = selected;
+  if (error) {
+    return res.status(400).json({ success: false, error, errorCode: 'bad_request' });
   }
-  
-  return 'Other';
-}
 
-function generateMockData(): Article[] {
-  return [
-    {
-      headline: "OpenAI announces new GPT-5 model with improved reasoning capabilities",
-      company: "OpenAI",
-      category: "AI"
-    },
-    {
-      headline: "Series A funding round raises $50M for fintech startup Stripe competitor",
-      company: undefined,
-      category: "Funding"
-    },
-    {
-      headline: "Apple releases iOS 18 with enhanced privacy features",
-      company: "Apple",
-      category: "Product"
-    },
-    {
-      headline: "EU proposes new AI regulations for tech companies",
-      company: undefined,
-      category: "Regulation"
-    },
-    {
-      headline: "Tesla CEO discusses future of electric vehicle market",
-      company: "Tesla",
-      category: "Other"
-    }
-  ];
-} 
\ No newline at end of file
+  const { status, response } = await runScrape(sources, {
+    firecrawl: createFirecrawlClient({ apiKey: firecrawlApiKey }),
+    store,
+    trigger: 'manual',
+  });
+  return res.status(status).json(response);
+}
@@ -0,0 +1,27 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSources, type NewsSource } from '../../lib/sources';
+import { authorize } from '../../lib/auth';
+
+export interface SourcesResponse {
+  success: boolean;
+  sources?: NewsSource[];
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<SourcesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  try {
+    return res.status(200).json({ success: true, sources: getSources() });
+  } catch (error: any) {
+    console.error('Sources Error:', error.message);
+    return res.status(500).json({ success: false, error: error.message });
+  }
+}
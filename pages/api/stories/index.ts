@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getStories, type Story, type StorySort } from '../../../lib/clusters';
+import { authorize } from '../../../lib/auth';
+
+export interface StoriesResponse {
+  success: boolean;
+  stories?: Story[];
+  error?: string;
+}
+
+const MAX_DAYS = 30;
+const MAX_LIMIT = 200;
+
+/**
+ * Recent stories: near-duplicate articles from different outlets grouped
+ * into one. `?days=` (default 3), `?limit=` (default 50), `?sort=recent`
+ * or `coverage`, `?minSources=` to keep only widely covered stories.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<StoriesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  const number = (name: string, fallback: number) => (req.query[name] ? parseInt(req.query[name] as string, 10) : fallback);
+  const days = number('days', 3);
+  const limit = number('limit', 50);
+  const minSources = number('minSources', 1);
+  const sort = (req.query.sort || 'recent') as StorySort;
+
+  if (isNaN(days) || days < 1 || days > MAX_DAYS) {
+    return res.status(400).json({ success: false, error: `days must be between 1 and ${MAX_DAYS}` });
+  }
+  if (isNaN(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return res.status(400).json({ success: false, error: `limit must be between 1 and ${MAX_LIMIT}` });
+  }
+  if (isNaN(minSources) || minSources < 1) {
+    return res.status(400).json({ success: false, error: 'minSources must be a positive integer' });
+  }
+  if (sort !== 'recent' && sort !== 'coverage') {
+    return res.status(400).json({ success: false, error: 'sort must be recent or coverage' });
+  }
+
+  try {
+    const stories = await getStories(getStore(), { days, limit, sort, minSources });
+    return res.status(200).json({ success: true, stories });
+  } catch (error: any) {
+    console.error('Stories Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
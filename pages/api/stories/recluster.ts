@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { reclusterArticles } from '../../../lib/clusters';
+import { rebuildRollups } from '../../../lib/analytics';
+import { authorize } from '../../../lib/auth';
+
+export interface ReclusterResponse {
+  success: boolean;
+  scanned?: number;
+  changed?: number;
+  clusters?: number;
+  error?: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<ReclusterResponse>
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  try {
+    const store = getStore();
+    const result = await reclusterArticles(store);
+
+    console.log(`Reclustered ${result.scanned} articles into ${result.clusters} stories (${result.changed} changed)`);
+    // Story counts and word counts depend on which article leads each story
+    if (result.changed > 0) {
+      await rebuildRollups(store);
+    }
+
+    return res.status(200).json({ success: true, ...result });
+  } catch (error: any) {
+    console.error('Recluster Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
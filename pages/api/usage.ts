@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../lib/store';
+import { getUsageSummary, type UsageSummary } from '../../lib/usage';
+import { authorize } from '../../lib/auth';
+
+export interface UsageResponse {
+  success: boolean;
+  usage?: UsageSummary;
+  error?: string;
+}
+
+/** FireCrawl credits and requests of today and this month (UTC), against their budgets. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<UsageResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'viewer'))) return;
+
+  try {
+    return res.status(200).json({ success: true, usage: await getUsageSummary(getStore()) });
+  } catch (error: any) {
+    console.error('Usage Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
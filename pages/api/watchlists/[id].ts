@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { validateWatchlist } from '../../../lib/watchlists';
+import { findMissingWebhooks } from '../../../lib/webhooks';
+import type { WatchlistsResponse } from './index';
+import { authorize } from '../../../lib/auth';
+
+/** GET, PUT (full replacement) or DELETE one watchlist. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WatchlistsResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, req.method === 'GET' ? 'viewer' : 'operator'))) return;
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid watchlist id' });
+  }
+  const byId = [{ column: 'id' as const, op: 'eq' as const, value: id }];
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const [watchlist] = await store.query('watchlists', { filters: byId });
+      if (!watchlist) {
+        return res.status(404).json({ success: false, error: 'Watchlist not found' });
+      }
+      return res.status(200).json({ success: true, watchlist });
+    }
+
+    if (req.method === 'DELETE') {
+      const [deleted] = await store.delete('watchlists', byId);
+      if (!deleted) {
+        return res.status(404).json({ success: false, error: 'Watchlist not found' });
+      }
+      return res.status(200).json({ success: true, watchlist: deleted });
+    }
+
+    const { watchlist, error } = validateWatchlist(req.body);
+    if (!watchlist) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const missing = await findMissingWebhooks(store, watchlist.webhook_ids);
+    if (missing.length > 0) {
+      return res.status(400).json({ success: false, error: `Unknown webhooks: ${missing.join(', ')}` });
+    }
+
+    const [updated] = await store.update('watchlists', byId, watchlist);
+    if (!updated) {
+      return res.status(404).json({ success: false, error: 'Watchlist not found' });
+    }
+    return res.status(200).json({ success: true, watchlist: updated });
+  } catch (error: any) {
+    console.error('Watchlist Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
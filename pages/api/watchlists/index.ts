@@ -0,0 +1,48 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { getWatchlists, validateWatchlist, type Watchlist } from '../../../lib/watchlists';
+import { findMissingWebhooks } from '../../../lib/webhooks';
+import { authorize } from '../../../lib/auth';
+
+export interface WatchlistsResponse {
+  success: boolean;
+  watchlists?: Watchlist[];
+  watchlist?: Watchlist;
+  error?: string;
+}
+
+/** GET lists watchlists; POST creates one. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WatchlistsResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, req.method === 'GET' ? 'viewer' : 'operator'))) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ success: true, watchlists: await getWatchlists(store) });
+    }
+
+    const { watchlist, error } = validateWatchlist(req.body);
+    if (!watchlist) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const missing = await findMissingWebhooks(store, watchlist.webhook_ids);
+    if (missing.length > 0) {
+      return res.status(400).json({ success: false, error: `Unknown webhooks: ${missing.join(', ')}` });
+    }
+
+    const [created] = await store.insert('watchlists', [watchlist]);
+    return res.status(201).json({ success: true, watchlist: created });
+  } catch (error: any) {
+    console.error('Watchlists Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
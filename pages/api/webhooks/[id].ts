@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { toPublicWebhook, validateWebhook } from '../../../lib/webhooks';
+import type { WebhooksResponse } from './index';
+import { authorize } from '../../../lib/auth';
+
+/** PUT (full replacement) or DELETE one webhook. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WebhooksResponse>
+) {
+  if (req.method !== 'PUT' && req.method !== 'DELETE') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  const id = Number(req.query.id);
+  if (!Number.isInteger(id)) {
+    return res.status(400).json({ success: false, error: 'Invalid webhook id' });
+  }
+  const byId = [{ column: 'id' as const, op: 'eq' as const, value: id }];
+
+  try {
+    const store = getStore();
+    const [current] = await store.query('webhooks', { filters: byId });
+    if (!current) {
+      return res.status(404).json({ success: false, error: 'Webhook not found' });
+    }
+
+    if (req.method === 'DELETE') {
+      await store.delete('webhooks', byId);
+      return res.status(200).json({ success: true, webhook: toPublicWebhook(current) });
+    }
+
+    const { webhook, error } = validateWebhook(req.body, current);
+    if (!webhook) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const [updated] = await store.update('webhooks', byId, webhook);
+    return res.status(200).json({ success: true, webhook: toPublicWebhook(updated) });
+  } catch (error: any) {
+    console.error('Webhook Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
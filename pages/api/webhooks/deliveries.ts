@@ -0,0 +1,65 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore, type Filter } from '../../../lib/store';
+import type { DeliveryStatus, WebhookDelivery } from '../../../lib/webhooks';
+import { authorize } from '../../../lib/auth';
+
+export interface DeliveriesResponse {
+  success: boolean;
+  deliveries?: WebhookDelivery[];
+  error?: string;
+}
+
+const STATUSES: DeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+/**
+ * Delivery log, newest first. Optional filters: `?status=`, `?webhook_id=`,
+ * `?watchlist_id=`; `?limit=` defaults to 50.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<DeliveriesResponse>
+) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  const filters: Filter<'webhook_deliveries'>[] = [];
+
+  const status = req.query.status as DeliveryStatus | undefined;
+  if (status) {
+    if (!STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, error: `status must be one of ${STATUSES.join(', ')}` });
+    }
+    filters.push({ column: 'status', op: 'eq', value: status });
+  }
+
+  for (const column of ['webhook_id', 'watchlist_id'] as const) {
+    if (req.query[column] === undefined) continue;
+
+    const value = Number(req.query[column]);
+    if (!Number.isInteger(value)) {
+      return res.status(400).json({ success: false, error: `${column} must be an integer` });
+    }
+    filters.push({ column, op: 'eq', value });
+  }
+
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
+  if (isNaN(limit) || limit <= 0) {
+    return res.status(400).json({ success: false, error: 'limit must be a positive integer' });
+  }
+
+  try {
+    const deliveries = await getStore().query('webhook_deliveries', {
+      filters,
+      orderBy: [{ column: 'created_at', ascending: false }],
+      limit,
+    });
+
+    return res.status(200).json({ success: true, deliveries });
+  } catch (error: any) {
+    console.error('Deliveries Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getStore } from '../../../lib/store';
+import { toPublicWebhook, validateWebhook, type PublicWebhook } from '../../../lib/webhooks';
+import { authorize } from '../../../lib/auth';
+
+export interface WebhooksResponse {
+  success: boolean;
+  webhooks?: PublicWebhook[];
+  webhook?: PublicWebhook;
+  error?: string;
+}
+
+/** GET lists webhooks (without their secrets); POST creates one. */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<WebhooksResponse>
+) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  if (!(await authorize(req, res, 'operator'))) return;
+
+  try {
+    const store = getStore();
+
+    if (req.method === 'GET') {
+      const webhooks = await store.query('webhooks', { orderBy: [{ column: 'name', ascending: true }] });
+      return res.status(200).json({ success: true, webhooks: webhooks.map(toPublicWebhook) });
+    }
+
+    const { webhook, error } = validateWebhook(req.body);
+    if (!webhook) {
+      return res.status(400).json({ success: false, error });
+    }
+
+    const [created] = await store.insert('webhooks', [webhook]);
+    return res.status(201).json({ success: true, webhook: toPublicWebhook(created) });
+  } catch (error: any) {
+    console.error('Webhooks Error:', error.message);
+    return res.status(500).json({ success: false, error: `Database error: ${error.message}` });
+  }
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import Head from 'next/head';
+import Link from 'next/link';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import CategoryBadge from '../../components/CategoryBadge';
+import { categoryColor, type CategoryDefinition } from '../../lib/categories';
+import type { ListedArticle } from '../../lib/articles';
+import type { ArticlesResponse } from '../api/articles';
+import type { CategoriesResponse } from '../api/categories';
+import type { CompanyResponse } from '../api/companies/[name]';
+
+const CompanyPage = () => {
+  const router = useRouter();
+  const name = typeof router.query.name === 'string' ? router.query.name : undefined;
+
+  const [profile, setProfile] = useState<CompanyResponse | null>(null);
+  const [categories, setCategories] = useState<CategoryDefinition[]>([]);
+  const [articles, setArticles] = useState<ListedArticle[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!name) return;
+
+    setLoading(true);
+    Promise.all([
+      axios.get<CompanyResponse>(`/api/companies/${encodeURIComponent(name)}`),
+      axios.get<CategoriesResponse>('/api/categories'),
+      fetchArticles(name),
+    ])
+      .then(([companyResponse, categoriesResponse, articlesResponse]) => {
+        setProfile(companyResponse.data);
+        setCategories(categoriesResponse.data.categories || []);
+        setArticles(articlesResponse.data.articles || []);
+        setNextCursor(articlesResponse.data.nextCursor || null);
+        setError(null);
+      })
+      .catch(err => setError(err.response?.data?.error || err.message))
+      .finally(() => setLoading(false));
+  }, [name]);
+
+  const loadMore = async () => {
+    if (!name || !nextCursor) return;
+
+    setLoadingMore(true);
+    try {
+      const response = await fetchArticles(name, nextCursor);
+      setArticles(current => current.concat(response.data.articles || []));
+      setNextCursor(response.data.nextCursor || null);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const articleCount = profile?.articleCount || 0;
+  const topics = profile?.topics || [];
+
+  // Timeline: linked articles grouped by publish day, newest first
+  const timeline = articles.reduce((days, article) => {
+    const day = new Date(article.published_date).toLocaleDateString();
+    const last = days[days.length - 1];
+    if (last && last.day === day) {
+      last.articles.push(article);
+    } else {
+      days.push({ day, articles: [article] });
+    }
+    return days;
+  }, [] as { day: string; articles: ListedArticle[] }[]);
+
+  return (
+    <>
+      <Head>
+        <title>{profile?.company?.name || name || 'Company'} · FireCrawl News Monitor</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
+        <div className="container mx-auto px-4 py-8 max-w-5xl">
+          {/* Header */}
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-4xl font-bold text-gray-800 mb-2">🏢 {profile?.company?.name || name}</h1>
+              {profile?.company && profile.company.aliases.length > 0 && (
+                <p className="text-gray-600">Also known as {profile.company.aliases.join(', ')}</p>
+              )}
+            </div>
+            <Link href="/dashboard" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              ← Dashboard
+            </Link>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-16">
+              <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : error ? (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-4">{error}</div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+              {/* Topic Mix */}
+              <div className="bg-white rounded-xl shadow-lg p-6 h-fit">
+                <h2 className="text-xl font-bold text-gray-800 mb-2">📊 Topic Mix</h2>
+                <p className="text-sm text-gray-500 mb-6">{articleCount} {articleCount === 1 ? 'article' : 'articles'}</p>
+                <div className="space-y-3">
+                  {topics.map(item => (
+                    <div key={item.topic}>
+                      <div className="flex justify-between text-sm text-gray-600 mb-1">
+                        <span>{item.topic}</span>
+                        <span>{Math.round((item.count / articleCount) * 100)}%</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div
+                          className="h-2 rounded-full"
+                          style={{
+                            width: `${(item.count / articleCount) * 100}%`,
+                            backgroundColor: categoryColor(item.topic, categories),
+                          }}
+                        ></div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Article Timeline */}
+              <div className="bg-white rounded-xl shadow-lg p-6 lg:col-span-2">
+                <h2 className="text-xl font-bold text-gray-800 mb-6">🕒 Timeline</h2>
+                {timeline.length === 0 && (
+                  <p className="text-gray-500">No stored articles mention this company yet.</p>
+                )}
+                <div className="space-y-6">
+                  {timeline.map(({ day, articles: dayArticles }) => (
+                    <div key={day}>
+                      <h3 className="text-sm font-semibold text-gray-500 mb-2">{day}</h3>
+                      <div className="space-y-3 border-l-2 border-indigo-200 pl-4">
+                        {dayArticles.map(article => (
+                          <div key={article.id}>
+                            <a
+                              href={article.url || undefined}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="font-medium text-gray-800 hover:text-indigo-600"
+                            >
+                              {article.title}
+                            </a>
+                            <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                              <CategoryBadge name={article.topic} color={categoryColor(article.topic, categories)} />
+                              {article.source && <span>{article.source}</span>}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {nextCursor && (
+                  <button
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="w-full mt-6 bg-indigo-50 text-indigo-600 py-2 rounded-lg hover:bg-indigo-100 transition-colors text-sm font-medium disabled:opacity-50"
+                  >
+                    {loadingMore ? 'Loading...' : 'Load older articles'}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+function fetchArticles(company: string, cursor?: string) {
+  return axios.get<ArticlesResponse>('/api/articles', { params: { company, cursor } });
+}
+
+export default CompanyPage;
@@ -1,134 +1,163 @@
-import { useState, useEffect } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface NewsArticle {
-  id: number;
-  title: string;
-  url: string;
-  topic: string;
-  published_date: string;
-  created_at: string;
-}
-
-interface TopicDistribution {
-  topic: string;
-  count: number;
-  percentage: number;
-  color: string;
-}
-
-interface ArticlesByDate {
-  date: string;
-  count: number;
-}
-
-interface WordFrequency {
-  word: string;
-  count: number;
-}
+import axios from 'axios';
+import type { NewsSource } from '../lib/sources';
+import { GRANULARITIES, type Analytics, type Granularity } from '../lib/analytics';
+import type { Story } from '../lib/clusters';
+import type { Trends } from '../lib/trends';
+import type { AnalyticsResponse } from './api/analytics';
+import type { StoriesResponse } from './api/stories';
+import type { TrendsResponse } from './api/analytics/trends';
+import type { RunsResponse } from './api/runs';
+import type { CategoriesResponse } from './api/categories';
+import type { SourcesResponse } from './api/sources';
+import type { UsageResponse } from './api/usage';
+import type { UsagePeriod, UsageSummary } from '../lib/usage';
+import type { CategoryDefinition } from '../lib/categories';
+import type { AnalyticsSeries } from '../lib/export';
+import { formatDay } from '../lib/calendar';
+import ArticleBrowser, { type ArticlePreset } from '../components/ArticleBrowser';
+import NewArticlesBanner, { useNewArticles } from '../components/NewArticles';
+import TopicShareChart from '../components/TopicShareChart';
+import VolumeChart from '../components/VolumeChart';
+import CompanyRankingChart from '../components/CompanyRankingChart';
+import Sparkline from '../components/Sparkline';
+import SentimentChart from '../components/SentimentChart';
+import CreditUsageChart from '../components/CreditUsageChart';
+
+// Number of days ending today, or a custom from..to range
+type RangeOption = '7' | '30' | '90' | '365' | 'custom';
+
+const RANGE_OPTIONS: { value: RangeOption; label: string }[] = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last 12 months' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+const SERIES_DOWNLOADS: { series: AnalyticsSeries; label: string }[] = [
+  { series: 'topics', label: 'Topics' },
+  { series: 'dates', label: 'Daily counts' },
+  { series: 'timeline', label: 'Timeline' },
+];
 
 const Dashboard = () => {
-  const [articles, setArticles] = useState<NewsArticle[]>([]);
-  const [topicDistribution, setTopicDistribution] = useState<TopicDistribution[]>([]);
-  const [articlesByDate, setArticlesByDate] = useState<ArticlesByDate[]>([]);
-  const [wordFrequency, setWordFrequency] = useState<WordFrequency[]>([]);
-  const [recentArticles, setRecentArticles] = useState<NewsArticle[]>([]);
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [range, setRange] = useState<RangeOption>('30');
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [chartsLoading, setChartsLoading] = useState(false);
+  const [counting, setCounting] = useState(false);
+  const [drilldown, setDrilldown] = useState<ArticlePreset | undefined>(undefined);
+  const browserRef = useRef<HTMLDivElement>(null);
+  const [categories, setCategories] = useState<CategoryDefinition[]>([]);
+  const [sources, setSources] = useState<NewsSource[]>([]);
+  const [stories, setStories] = useState<Story[]>([]);
+  const [trends, setTrends] = useState<Trends | null>(null);
+  const [recentRuns, setRecentRuns] = useState<NonNullable<RunsResponse['runs']>>([]);
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-
-  const topicColors = {
-    'AI': '#8B5CF6',
-    'Funding': '#10B981',
-    'Product': '#F59E0B',
-    'Regulation': '#EF4444',
-    'Other': '#6B7280'
-  };
+  const live = useNewArticles();
+  // Ids of the articles included by the last live update, to mark their stories
+  const [fresh, setFresh] = useState<Set<number>>(new Set());
 
   useEffect(() => {
     fetchDashboardData();
   }, []);
 
-  const fetchDashboardData = async () => {
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('news_articles')
-        .select('*')
-        .order('created_at', { ascending: false });
+  useEffect(() => {
+    if (!loading) fetchAnalytics();
+  }, [range, customFrom, customTo, granularity]);
+
+  const analyticsParams = () => {
+    // Days are counted in the browser's timezone
+    const params: Record<string, string> = { granularity, tz: Intl.DateTimeFormat().resolvedOptions().timeZone };
+    if (range === 'custom' && customFrom && customTo) {
+      params.from = customFrom;
+      params.to = customTo;
+    } else {
+      params.days = range === 'custom' ? '30' : range;
+    }
+    return params;
+  };
 
-      if (error) throw error;
+  const fetchAnalytics = async () => {
+    if (range === 'custom' && customFrom && customTo && customFrom > customTo) return;
 
-      setArticles(data || []);
-      processAnalytics(data || []);
+    try {
+      setChartsLoading(true);
+      const response = await axios.get<AnalyticsResponse>('/api/analytics', { params: analyticsParams() });
+      setAnalytics(toAnalytics(response.data));
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setChartsLoading(false);
+    }
+  };
+
+  // In the background, the current figures stay on screen until the new ones arrive
+  const fetchDashboardData = async (background = false) => {
+    try {
+      if (!background) setLoading(true);
+      const [analyticsResponse, storiesResponse, trendsResponse, runsResponse, categoriesResponse, sourcesResponse, usageResponse] = await Promise.all([
+        axios.get<AnalyticsResponse>('/api/analytics', { params: analyticsParams() }),
+        axios.get<StoriesResponse>('/api/stories', { params: { days: 3, limit: 5 } }),
+        axios.get<TrendsResponse>('/api/analytics/trends', { params: { limit: 8 } }),
+        axios.get<RunsResponse>('/api/runs'),
+        axios.get<CategoriesResponse>('/api/categories'),
+        axios.get<SourcesResponse>('/api/sources'),
+        axios.get<UsageResponse>('/api/usage'),
+      ]);
+
+      setAnalytics(toAnalytics(analyticsResponse.data));
+      setStories(storiesResponse.data.stories || []);
+      setTrends(toTrends(trendsResponse.data));
+      setRecentRuns(runsResponse.data.runs || []);
+      setCategories(categoriesResponse.data.categories || []);
+      setSources(sourcesResponse.data.sources || []);
+      setUsage(usageResponse.data.usage || null);
       setError(null);
     } catch (err: any) {
-      setError(err.message);
+      setError(err.response?.data?.error || err.message);
       console.error('Error fetching dashboard data:', err);
     } finally {
       setLoading(false);
     }
   };
 
-  const processAnalytics = (data: NewsArticle[]) => {
-    // Topic Distribution
-    const topicCounts = data.reduce((acc, article) => {
-      acc[article.topic] = (acc[article.topic] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const total = data.length;
-    const distribution = Object.entries(topicCounts).map(([topic, count]) => ({
-      topic,
-      count,
-      percentage: Math.round((count / total) * 100),
-      color: topicColors[topic as keyof typeof topicColors] || topicColors.Other
-    }));
-
-    setTopicDistribution(distribution);
-
-    // Articles by Date
-    const dateGroups = data.reduce((acc, article) => {
-      const date = new Date(article.published_date).toLocaleDateString();
-      acc[date] = (acc[date] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const byDate = Object.entries(dateGroups)
-      .map(([date, count]) => ({ date, count }))
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())
-      .slice(-7); // Last 7 days
-
-    setArticlesByDate(byDate);
-
-    // Word Frequency (excluding stopwords)
-    const stopwords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'from', 'up', 'about', 'into', 'through', 'during', 'before', 'after', 'above', 'below', 'between', 'among', 'is', 'are', 'was', 'were', 'be', 'been', 'being', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'cant', 'wont', 'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'hasnt', 'havent', 'hadnt', 'wouldnt', 'couldnt', 'shouldnt', 'mightnt', 'mustnt']);
-
-    const words = data
-      .flatMap(article => article.title.toLowerCase().split(/\W+/))
-      .filter(word => word.length > 2 && !stopwords.has(word));
-
-    const wordCounts = words.reduce((acc, word) => {
-      acc[word] = (acc[word] || 0) + 1;
-      return acc;
-    }, {} as Record<string, number>);
-
-    const topWords = Object.entries(wordCounts)
-      .map(([word, count]) => ({ word, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 5);
-
-    setWordFrequency(topWords);
-
-    // Recent Articles
-    setRecentArticles(data.slice(0, 5));
+  // Articles stored before the rollup tables existed aren't charted until counted
+  const countRollups = async () => {
+    try {
+      setCounting(true);
+      await axios.post('/api/analytics/rollups');
+      await fetchDashboardData(true);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+    } finally {
+      setCounting(false);
+    }
+  };
+
+  const showNew = () => {
+    setFresh(new Set(live.pending.map(article => article.id)));
+    live.clear();
+    fetchDashboardData(true);
   };
 
+  const drill = (preset: ArticlePreset) => {
+    setDrilldown(preset);
+    browserRef.current?.scrollIntoView({ behavior: 'smooth' });
+  };
+
+  const topicDistribution = analytics?.topicDistribution || [];
+  const wordFrequency = analytics?.wordFrequency || [];
+  const timeline = analytics?.timeline || [];
+  const topicSentiment = (topic: string) => analytics?.sentiment.byTopic.find(entry => entry.topic === topic)?.average;
+  const period = analytics ? `${formatDay(analytics.window.from)} – ${formatDay(analytics.window.to)}` : '';
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center">
@@ -145,7 +174,7 @@ const Dashboard = () => {
             <h2 className="text-xl font-bold mb-2">Error Loading Dashboard</h2>
             <p>{error}</p>
             <button 
-              onClick={fetchDashboardData}
+              onClick={() => fetchDashboardData()}
               className="mt-4 bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 transition-colors"
             >
               Retry
@@ -165,11 +194,37 @@ const Dashboard = () => {
             <h1 className="text-4xl font-bold text-gray-800 mb-2">📊 News Analytics Dashboard</h1>
             <p className="text-gray-600">Real-time insights from your news monitoring system</p>
           </div>
-          <Link href="/" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
-            ← Back to Monitor
-          </Link>
+          <div className="flex gap-3">
+            <Link href="/admin/watchlists" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              🔔 Watchlists
+            </Link>
+            <Link href="/admin/digests" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              📧 Digests
+            </Link>
+            <Link href="/admin/categories" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              🏷️ Categories
+            </Link>
+            <Link href="/" className="bg-white text-indigo-600 px-6 py-3 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 font-semibold">
+              ← Back to Monitor
+            </Link>
+          </div>
         </div>
 
+        <NewArticlesBanner count={live.pending.length} action="Update dashboard" floating onShow={showNew} />
+
+        {analytics?.rollupsMissing && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-4 mb-8 flex justify-between items-center">
+            <span>The stored articles haven&apos;t been counted for the charts yet.</span>
+            <button
+              onClick={countRollups}
+              disabled={counting}
+              className="bg-amber-600 text-white px-4 py-2 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+            >
+              {counting ? 'Counting…' : 'Count now'}
+            </button>
+          </div>
+        )}
+
         {/* Stats Overview */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
@@ -179,7 +234,8 @@ const Dashboard = () => {
               </div>
               <div className="ml-4">
                 <h3 className="text-sm font-medium text-gray-500">Total Articles</h3>
-                <p className="text-2xl font-bold text-gray-900">{articles.length}</p>
+                <p className="text-2xl font-bold text-gray-900">{analytics?.totals.articles || 0}</p>
+                <p className="text-xs text-gray-500">{analytics?.totals.stories || 0} stories in this period</p>
               </div>
             </div>
           </div>
@@ -191,7 +247,7 @@ const Dashboard = () => {
               </div>
               <div className="ml-4">
                 <h3 className="text-sm font-medium text-gray-500">Topics Covered</h3>
-                <p className="text-2xl font-bold text-gray-900">{topicDistribution.length}</p>
+                <p className="text-2xl font-bold text-gray-900">{analytics?.totals.topics || 0}</p>
               </div>
             </div>
           </div>
@@ -203,9 +259,7 @@ const Dashboard = () => {
               </div>
               <div className="ml-4">
                 <h3 className="text-sm font-medium text-gray-500">Today's Articles</h3>
-                <p className="text-2xl font-bold text-gray-900">
-                  {articles.filter(a => new Date(a.published_date).toDateString() === new Date().toDateString()).length}
-                </p>
+                <p className="text-2xl font-bold text-gray-900">{analytics?.totals.today || 0}</p>
               </div>
             </div>
           </div>
@@ -218,23 +272,158 @@ const Dashboard = () => {
               <div className="ml-4">
                 <h3 className="text-sm font-medium text-gray-500">Last Updated</h3>
                 <p className="text-sm font-bold text-gray-900">
-                  {articles.length > 0 ? new Date(articles[0].created_at).toLocaleTimeString() : 'Never'}
+                  {analytics?.totals.lastIngestedAt ? new Date(analytics.totals.lastIngestedAt).toLocaleTimeString() : 'Never'}
                 </p>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Chart Controls */}
+        <div className="bg-white rounded-xl shadow-lg p-4 mb-8 flex flex-wrap items-center gap-3">
+          <select
+            value={range}
+            onChange={e => setRange(e.target.value as RangeOption)}
+            className="border border-gray-300 rounded-lg px-3 py-2 text-sm"
+          >
+            {RANGE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {range === 'custom' && (
+            <>
+              <input type="date" value={customFrom} onChange={e => setCustomFrom(e.target.value)} className="border border-gray-300 rounded-lg px-3 py-2 text-sm" />
+              <span className="text-gray-400">–</span>
+              <input type="date" value={customTo} onChange={e => setCustomTo(e.target.value)} className="border border-gray-300 rounded-lg px-3 py-2 text-sm" />
+              {customFrom && customTo && customFrom > customTo && (
+                <span className="text-sm text-red-600">The start date is after the end date</span>
+              )}
+            </>
+          )}
+          <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+            {GRANULARITIES.map(option => (
+              <button
+                key={option}
+                onClick={() => setGranularity(option)}
+                className={`px-3 py-2 text-sm capitalize ${granularity === option ? 'bg-indigo-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <span className="text-sm text-gray-500">
+            ⬇ CSV:{' '}
+            {SERIES_DOWNLOADS.map(({ series, label }, index) => (
+              <span key={series}>
+                {index > 0 && ' · '}
+                <a href={`/api/export/analytics?${new URLSearchParams({ ...analyticsParams(), series })}`} className="text-indigo-600 hover:underline">
+                  {label}
+                </a>
+              </span>
+            ))}
+          </span>
+          <span className="ml-auto text-sm text-gray-500">
+            {chartsLoading ? 'Loading...' : `${period} · ${analytics?.totals.inWindow || 0} articles · click a chart to list its articles`}
+          </span>
+        </div>
+
         {/* Analytics Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Topic Share */}
+          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 lg:col-span-2">
+            <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
+              📈 Topic Share Over Time
+            </h2>
+            <TopicShareChart timeline={timeline} topics={topicDistribution} granularity={granularity} onDrill={drill} />
+          </div>
+
+          {/* Articles Over Time */}
+          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+            <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
+              🕒 Articles Over Time
+            </h2>
+            <VolumeChart timeline={timeline} topics={topicDistribution} granularity={granularity} onDrill={drill} />
+          </div>
+
+          {/* Company Ranking */}
+          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+            <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
+              🏢 Most Mentioned Companies
+            </h2>
+            {analytics && (
+              <CompanyRankingChart
+                companies={analytics.companyRanking}
+                from={analytics.window.from}
+                to={analytics.window.to}
+                onDrill={drill}
+              />
+            )}
+          </div>
+
+          {/* Sentiment */}
+          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 lg:col-span-2">
+            <h2 className="text-xl font-bold text-gray-800 mb-1 flex items-center">
+              🌡️ Sentiment Over Time
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {analytics?.sentiment.average != null
+                ? `Average ${formatSentiment(analytics.sentiment.average)} from -1 (negative) to 1 (positive). Watched companies are those in your watchlists.`
+                : 'No scored articles in this period.'}
+            </p>
+            {analytics && (
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="lg:col-span-2">
+                  <SentimentChart
+                    timeline={timeline}
+                    companies={analytics.sentiment.byCompany}
+                    topics={topicDistribution}
+                    granularity={granularity}
+                    onDrill={drill}
+                  />
+                </div>
+                <table className="w-full text-sm self-start">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Company</th>
+                      <th className="py-2 pr-4 font-medium">Average</th>
+                      <th className="py-2 font-medium">Shift</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {analytics.sentiment.byCompany.map(entry => (
+                      <tr
+                        key={entry.company}
+                        onClick={() => drill({ company: entry.company, from: analytics.window.from, to: analytics.window.to })}
+                        className="border-b last:border-0 cursor-pointer hover:bg-gray-50"
+                      >
+                        <td className="py-2 pr-4 text-gray-700">
+                          {entry.company}
+                          {entry.watched && <span className="ml-2 bg-indigo-100 text-indigo-800 text-xs px-2 py-0.5 rounded-full">watched</span>}
+                        </td>
+                        <td className={`py-2 pr-4 font-medium ${sentimentClass(entry.average)}`}>{formatSentiment(entry.average)}</td>
+                        <td className={`py-2 ${entry.shift === null ? 'text-gray-400' : sentimentClass(entry.shift)}`}>
+                          {entry.shift === null ? '–' : `${entry.shift > 0 ? '▲' : entry.shift < 0 ? '▼' : ''} ${formatSentiment(entry.shift)}`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+
           {/* Topic Distribution */}
           <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
             <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
               📊 Topic Distribution
             </h2>
             <div className="space-y-4">
-              {topicDistribution.map((item, index) => (
-                <div key={item.topic} className="flex items-center justify-between">
+              {topicDistribution.map(item => (
+                <button
+                  key={item.topic}
+                  onClick={() => analytics && drill({ topic: item.topic, from: analytics.window.from, to: analytics.window.to })}
+                  className="w-full flex items-center justify-between hover:bg-gray-50 rounded-lg"
+                >
                   <div className="flex items-center space-x-3">
                     <div 
                       className="w-4 h-4 rounded-full"
@@ -243,53 +432,15 @@ const Dashboard = () => {
                     <span className="font-medium text-gray-700">{item.topic}</span>
                   </div>
                   <div className="flex items-center space-x-2">
+                    {topicSentiment(item.topic) !== undefined && (
+                      <span className={`text-xs ${sentimentClass(topicSentiment(item.topic)!)}`}>
+                        sentiment {formatSentiment(topicSentiment(item.topic)!)}
+                      </span>
+                    )}
                     <span className="text-sm text-gray-500">{item.count} articles</span>
                     <span className="text-sm font-bold text-gray-700">{item.percentage}%</span>
                   </div>
-                </div>
-              ))}
-            </div>
-            {/* Visual Bar Chart */}
-            <div className="mt-6 space-y-2">
-              {topicDistribution.map((item, index) => (
-                <div key={item.topic} className="relative">
-                  <div className="flex justify-between text-xs text-gray-600 mb-1">
-                    <span>{item.topic}</span>
-                    <span>{item.percentage}%</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-2">
-                    <div 
-                      className="h-2 rounded-full transition-all duration-1000 ease-out"
-                      style={{ 
-                        width: `${item.percentage}%`,
-                        backgroundColor: item.color
-                      }}
-                    ></div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </div>
-
-          {/* Articles Over Time */}
-          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
-            <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
-              🕒 Articles Over Time (Last 7 Days)
-            </h2>
-            <div className="space-y-4">
-              {articlesByDate.map((item, index) => (
-                <div key={item.date} className="flex items-center justify-between">
-                  <span className="text-sm text-gray-600">{item.date}</span>
-                  <div className="flex items-center space-x-2">
-                    <div className="w-24 bg-gray-200 rounded-full h-2">
-                      <div 
-                        className="bg-indigo-500 h-2 rounded-full transition-all duration-1000 ease-out"
-                        style={{ width: `${Math.max((item.count / Math.max(...articlesByDate.map(a => a.count))) * 100, 10)}%` }}
-                      ></div>
-                    </div>
-                    <span className="text-sm font-bold text-gray-700 w-8">{item.count}</span>
-                  </div>
-                </div>
+                </button>
               ))}
             </div>
           </div>
@@ -314,37 +465,245 @@ const Dashboard = () => {
             </div>
           </div>
 
-          {/* Recent Articles Feed */}
-          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300">
+          {/* Emerging */}
+          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 lg:col-span-2">
+            <h2 className="text-xl font-bold text-gray-800 mb-1 flex items-center">
+              🚀 Emerging
+            </h2>
+            <p className="text-sm text-gray-500 mb-6">
+              {trends
+                ? `Mentioned far more often since ${formatDay(trends.recentFrom)} than in the ${trendBaselineDays(trends)} days before`
+                : 'Trends are unavailable'}
+            </p>
+            {trends && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {[
+                  { title: 'Words and phrases', items: trends.terms },
+                  { title: 'Companies', items: trends.companies },
+                ].map(group => (
+                  <div key={group.title}>
+                    <h3 className="text-sm font-semibold text-gray-600 mb-3">{group.title}</h3>
+                    <div className="space-y-2">
+                      {group.items.map(trend => (
+                        <button
+                          key={trend.term}
+                          onClick={() => drill(trend.kind === 'company'
+                            ? { company: trend.term, from: trends.recentFrom, to: trends.to }
+                            : { q: trend.term, from: trends.recentFrom, to: trends.to })}
+                          className="w-full flex items-center justify-between gap-3 p-2 bg-gray-50 rounded-lg hover:bg-gray-100 text-left"
+                        >
+                          <div>
+                            <span className="font-medium text-gray-700 capitalize">{trend.term}</span>
+                            {trend.kind === 'phrase' && (
+                              <span className="ml-2 bg-indigo-100 text-indigo-800 text-xs px-2 py-0.5 rounded-full">phrase</span>
+                            )}
+                            <p className="text-xs text-gray-500">
+                              {trend.recent} mentions, ~{trend.expected} expected
+                            </p>
+                          </div>
+                          <Sparkline values={trend.series} highlightFrom={trendBaselineDays(trends)} />
+                        </button>
+                      ))}
+                      {group.items.length === 0 && <p className="text-sm text-gray-500">Nothing stands out yet.</p>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Latest Stories */}
+          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 lg:col-span-2">
             <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
-              🌍 Recent Articles Feed
+              🌍 Latest Stories
             </h2>
             <div className="space-y-4">
-              {recentArticles.map((article, index) => (
-                <div key={article.id} className="border-l-4 border-indigo-500 pl-4 py-2">
+              {stories.map(story => (
+                <div key={story.id} className={`border-l-4 border-indigo-500 pl-4 py-2 ${story.articles.some(article => fresh.has(article.id)) ? 'bg-indigo-50 rounded-r' : ''}`}>
                   <h3 className="font-semibold text-gray-800 mb-1 line-clamp-2">
-                    {article.title}
+                    <a href={story.url || undefined} target="_blank" rel="noopener noreferrer" className="hover:text-indigo-600">
+                      {story.headline}
+                    </a>
                   </h3>
                   <div className="flex items-center justify-between text-sm text-gray-500">
-                    <span className="bg-gray-100 px-2 py-1 rounded-full text-xs">
-                      {article.topic}
-                    </span>
-                    <span>{new Date(article.published_date).toLocaleDateString()}</span>
+                    <div className="flex items-center space-x-2">
+                      <span className="bg-gray-100 px-2 py-1 rounded-full text-xs">
+                        {story.topic}
+                      </span>
+                      <span className="text-xs">
+                        {story.sources.length > 0 ? `Covered by ${story.sources.join(', ')}` : 'Unknown outlet'}
+                      </span>
+                    </div>
+                    <span>{new Date(story.lastPublished).toLocaleDateString()}</span>
                   </div>
+                  {story.articles.length > 1 && (
+                    <ul className="mt-2 space-y-1 text-xs text-gray-500">
+                      {story.articles.slice(1).map(article => (
+                        <li key={article.id}>
+                          <a href={article.url || undefined} target="_blank" rel="noopener noreferrer" className="hover:text-indigo-600">
+                            {article.source ? `${article.source}: ` : ''}{article.title}
+                          </a>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               ))}
+              {stories.length === 0 && <p className="text-sm text-gray-500">No stories in the last 3 days.</p>}
             </div>
             <button 
-              onClick={fetchDashboardData}
+              onClick={() => fetchDashboardData()}
               className="w-full mt-4 bg-indigo-50 text-indigo-600 py-2 rounded-lg hover:bg-indigo-100 transition-colors text-sm font-medium"
             >
               🔄 Refresh Data
             </button>
           </div>
+
+          {/* Article Browser */}
+          <div ref={browserRef} className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 lg:col-span-2">
+            <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
+              🔎 Browse Articles
+            </h2>
+            <ArticleBrowser categories={categories} sources={sources} preset={drilldown} />
+          </div>
+
+          {/* FireCrawl Credits */}
+          {usage && (
+            <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 lg:col-span-2">
+              <h2 className="text-xl font-bold text-gray-800 mb-1 flex items-center">
+                💳 FireCrawl Credits
+              </h2>
+              <p className="text-sm text-gray-500 mb-4">
+                UTC days and months.
+                {usage.estimatedShare > 0 && ` ${Math.round(usage.estimatedShare * 100)}% of this month's credits are estimates, for calls FireCrawl didn't report a cost for.`}
+              </p>
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                <div className="space-y-5">
+                  <BudgetMeter label="Today" period={usage.today} />
+                  <BudgetMeter label="This month" period={usage.month} />
+                  {usage.bySource.length > 0 && (
+                    <ul className="text-sm space-y-1">
+                      {usage.bySource.map(entry => (
+                        <li key={entry.source || 'bodies'} className="flex justify-between text-gray-600">
+                          <span>{entry.source ? sources.find(source => source.id === entry.source)?.name || entry.source : 'Article pages'}</span>
+                          <span>{entry.credits} credits · {entry.requests} requests</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div className="lg:col-span-2">
+                  <CreditUsageChart daily={usage.daily} budget={usage.today.budget} />
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Recent Scrape Runs */}
+          <div className="bg-white rounded-xl shadow-lg p-6 hover:shadow-xl transition-shadow duration-300 lg:col-span-2">
+            <h2 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
+              ⏱️ Recent Scrape Runs
+            </h2>
+            {recentRuns.length === 0 ? (
+              <p className="text-sm text-gray-500">No scrape runs recorded yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Started</th>
+                      <th className="py-2 pr-4 font-medium">Source</th>
+                      <th className="py-2 pr-4 font-medium">Trigger</th>
+                      <th className="py-2 pr-4 font-medium">Articles</th>
+                      <th className="py-2 pr-4 font-medium">Method</th>
+                      <th className="py-2 pr-4 font-medium">Credits</th>
+                      <th className="py-2 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentRuns.map(run => (
+                      <tr key={run.id} className="border-b last:border-0">
+                        <td className="py-2 pr-4 text-gray-700">
+                          {new Date(run.started_at).toLocaleString()}
+                          <span className="text-xs text-gray-400 ml-1">
+                            ({Math.round((new Date(run.finished_at).getTime() - new Date(run.started_at).getTime()) / 1000)}s)
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700">{run.source}</td>
+                        <td className="py-2 pr-4 text-gray-500">{run.trigger}</td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {run.article_count} <span className="text-xs text-gray-400">({run.new_articles} new{run.rejected_articles ? `, ${run.rejected_articles} rejected` : ''})</span>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-500">{run.extraction_method || '—'}</td>
+                        <td className="py-2 pr-4 text-gray-700">
+                          {run.credits} <span className="text-xs text-gray-400">({run.requests} requests)</span>
+                        </td>
+                        <td className="py-2">
+                          {run.error ? (
+                            <span className="text-red-600" title={run.error}>Failed{run.error_code ? ` (${run.error_code})` : ''}</span>
+                          ) : run.warnings && run.warnings.length > 0 ? (
+                            <span className="text-amber-600" title={run.warnings.join('\n')}>OK, with warnings</span>
+                          ) : (
+                            <span className="text-green-600">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
         </div>
       </div>
     </div>
   );
 };
 
+function toAnalytics({ success, error, ...analytics }: AnalyticsResponse): Analytics {
+  return analytics as Analytics;
+}
+
+function toTrends({ success, error, ...trends }: TrendsResponse): Trends {
+  return trends as Trends;
+}
+
+// Credits used against a budget, as a bar that turns red once it is used up
+const BudgetMeter: React.FC<{ label: string; period: UsagePeriod }> = ({ label, period }) => {
+  const share = period.budget ? Math.min(1, period.credits / period.budget) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-sm mb-1">
+        <span className="font-medium text-gray-700">{label}</span>
+        <span className="text-gray-600">
+          {period.credits}{period.budget !== null ? ` / ${period.budget}` : ''} credits
+        </span>
+      </div>
+      {period.budget !== null ? (
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div className={`h-2 rounded-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-yellow-500' : 'bg-green-500'}`} style={{ width: `${share * 100}%` }}></div>
+        </div>
+      ) : (
+        <p className="text-xs text-gray-400">No budget set</p>
+      )}
+      <p className="text-xs text-gray-400 mt-1">{period.requests} requests</p>
+    </div>
+  );
+};
+
+// Signed, two decimals: +0.25, -0.40
+function formatSentiment(value: number): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(2)}`;
+}
+
+function sentimentClass(value: number): string {
+  if (value >= 0.05) return 'text-green-600';
+  if (value <= -0.05) return 'text-red-600';
+  return 'text-gray-600';
+}
+
+function trendBaselineDays(trends: Trends): number {
+  return Math.round((Date.parse(trends.recentFrom) - Date.parse(trends.baselineFrom)) / 86400000);
+}
+
 export default Dashboard; 
\ No newline at end of file
@@ -1,49 +1,198 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import Head from 'next/head';
 import Link from 'next/link';
 import axios from 'axios';
-import type { Article, ScrapeResponse } from './api/scrape';
+import type { Article, ScrapeErrorCode, ScrapeResponse } from './api/scrape';
+import type { SourcesResponse } from './api/sources';
+import type { JobResponse } from './api/jobs';
+import type { NewsSource } from '../lib/sources';
+import type { ScrapeJob, SourceProgress } from '../lib/jobs';
+import NewsCard from '../components/NewsCard';
+import { categoryColor, type CategoryDefinition } from '../lib/categories';
+import type { CategoriesResponse } from './api/categories';
+import type { BodiesResponse } from './api/bodies';
+import type { ArticleSummary } from '../lib/bodies';
+import type { ListedArticle } from '../lib/articles';
+import { useAccount } from '../components/Account';
+import NewArticlesBanner, { useNewArticles } from '../components/NewArticles';
+
+const errorMessages: Partial<Record<ScrapeErrorCode, string>> = {
+  auth: 'FireCrawl rejected the API key. Check FIRECRAWL_API_KEY.',
+  rate_limited: 'FireCrawl rate limit reached. Please try again in a minute.',
+  circuit_open: 'FireCrawl is failing repeatedly, so scraping is paused briefly. Please try again in a minute.',
+  timeout: 'FireCrawl took too long to respond. Try a single source, or try again later.',
+  db: 'The articles were scraped but could not be saved.',
+};
+
+const describeError = (data?: Pick<ScrapeResponse, 'error' | 'errorCode'> | null) =>
+  (data?.errorCode && errorMessages[data.errorCode]) || data?.error;
+
+const POLL_INTERVAL_MS = 2000;
+
+// A stored article in the shape a scrape job lists it
+const toArticle = (article: ListedArticle): Article => ({
+  headline: article.title,
+  company: article.companies[0],
+  companies: article.companies,
+  category: article.topic,
+  source: article.source || '',
+  url: article.url || undefined,
+  publishedAt: article.published_date,
+  // Rows stored before the method was recorded came from structured extraction
+  extractionMethod: article.extraction_method || 'extract',
+});
+
+const articleKey = (article: Article) => article.url || article.headline;
 
 const NewsMonitor: React.FC = () => {
+  const { can } = useAccount();
   const [articles, setArticles] = useState<Article[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [sources, setSources] = useState<NewsSource[]>([]);
+  const [categories, setCategories] = useState<CategoryDefinition[]>([]);
+  const [selectedSource, setSelectedSource] = useState('');
+  const [ingestSummary, setIngestSummary] = useState<{ newArticles: number; knownArticles: number; rejectedArticles: number } | null>(null);
+  const [progress, setProgress] = useState<SourceProgress[]>([]);
+  // Summaries of the listed articles, keyed by URL
+  const [bodies, setBodies] = useState<Record<string, ArticleSummary>>({});
+  // Articles stored by scheduled runs and other users while the page is open
+  const live = useNewArticles();
+  const [fresh, setFresh] = useState<Set<string>>(new Set());
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const pollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    axios.get<SourcesResponse>('/api/sources')
+      .then(response => setSources(response.data.sources || []))
+      .catch(err => console.error('Error fetching sources:', err));
+    axios.get<CategoriesResponse>('/api/categories')
+      .then(response => setCategories(response.data.categories || []))
+      .catch(err => console.error('Error fetching categories:', err));
+
+    return stopFollowing;
+  }, []);
+
+  useEffect(() => {
+    const urls = articles.map(article => article.url).filter((url): url is string => !!url).slice(0, 100);
+    if (loading || urls.length === 0) return;
+
+    axios.get<BodiesResponse>('/api/bodies', { params: { url: urls }, paramsSerializer: { indexes: null } })
+      .then(response => setBodies(response.data.bodies || {}))
+      .catch(err => console.error('Error fetching article summaries:', err));
+  }, [articles, loading]);
+
+  const stopFollowing = () => {
+    eventSourceRef.current?.close();
+    eventSourceRef.current = null;
+    if (pollTimerRef.current) clearTimeout(pollTimerRef.current);
+    pollTimerRef.current = null;
+  };
+
+  // Leaves out the articles already listed, such as those of the user's own scrape
+  const listed = new Set(articles.map(articleKey));
+  const incoming = live.pending.map(toArticle).filter(article => !listed.has(articleKey(article)));
+
+  const showNew = () => {
+    const added = incoming.slice().reverse();
+    setFresh(new Set(added.map(articleKey)));
+    setArticles(current => added.concat(current));
+    live.clear();
+  };
+
+  const sourceName = (id: string) => sources.find(source => source.id === id)?.name || id;
+
+  // Renders partial results while the job runs, and the outcome once it's done
+  const applyJob = (job: ScrapeJob) => {
+    setProgress(job.sources);
+    if (job.status === 'running') {
+      setArticles(job.articles);
+      return;
+    }
+
+    stopFollowing();
+    setLoading(false);
+    // A failed scrape still carries the demo articles it fell back to
+    setArticles(job.articles);
+    if (job.status === 'succeeded') {
+      if (job.result?.supabaseInserted) {
+        setIngestSummary({
+          newArticles: job.result.newArticles || 0,
+          knownArticles: job.result.knownArticles || 0,
+          rejectedArticles: job.result.rejectedArticles || 0,
+        });
+      }
+    } else {
+      setError(describeError(job.result) || 'Failed to fetch news');
+    }
+  };
+
+  const pollJob = (id: number) => {
+    pollTimerRef.current = setTimeout(async () => {
+      try {
+        const response = await axios.get<JobResponse>(`/api/jobs/${id}`);
+        applyJob(response.data.job!);
+        if (response.data.job!.status === 'running') pollJob(id);
+      } catch (err: any) {
+        setError(err.response?.data?.error || 'Lost track of the scrape job');
+        setLoading(false);
+      }
+    }, POLL_INTERVAL_MS);
+  };
+
+  const followJob = (id: number) => {
+    if (typeof EventSource === 'undefined') {
+      pollJob(id);
+      return;
+    }
+
+    const events = new EventSource(`/api/jobs/${id}/events`);
+    eventSourceRef.current = events;
+    events.addEventListener('progress', (e) => applyJob(JSON.parse((e as MessageEvent).data)));
+    events.addEventListener('done', (e) => applyJob(JSON.parse((e as MessageEvent).data)));
+    events.addEventListener('failure', (e) => {
+      stopFollowing();
+      setError(JSON.parse((e as MessageEvent).data).error);
+      setLoading(false);
+    });
+    // The stream closes every ~25s and EventSource reconnects; only give up
+    // on it (and fall back to polling) if the browser closed it for good
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        stopFollowing();
+        pollJob(id);
+      }
+    };
+  };
 
   const fetchNews = async () => {
+    stopFollowing();
     setLoading(true);
     setError(null);
+    setIngestSummary(null);
+    setArticles([]);
+    setFresh(new Set());
+    setProgress([]);
     
     try {
-      const response = await axios.post<ScrapeResponse>('/api/scrape');
+      const response = await axios.post<JobResponse>(
+        '/api/jobs',
+        selectedSource ? { source: selectedSource } : {}
+      );
       
-      if (response.data.success && response.data.articles) {
-        setArticles(response.data.articles);
+      if (response.data.success && response.data.job) {
+        applyJob(response.data.job);
+        followJob(response.data.job.id);
       } else {
-        setError(response.data.error || 'Failed to fetch news');
+        setError(describeError(response.data) || 'Failed to fetch news');
+        setLoading(false);
       }
     } catch (err: any) {
-      setError(err.response?.data?.error || 'An error occurred while fetching news');
-    } finally {
+      setError(describeError(err.response?.data) || 'An error occurred while fetching news');
       setLoading(false);
     }
   };
 
-  const getCategoryBadgeClass = (category: Article['category']) => {
-    const baseClass = 'badge ';
-    switch (category) {
-      case 'AI':
-        return baseClass + 'badge-ai';
-      case 'Funding':
-        return baseClass + 'badge-funding';
-      case 'Product':
-        return baseClass + 'badge-product';
-      case 'Regulation':
-        return baseClass + 'badge-regulation';
-      default:
-        return baseClass + 'badge-other';
-    }
-  };
-
   return (
     <>
       <Head>
@@ -51,6 +200,9 @@ const NewsMonitor: React.FC = () => {
         <meta name="description" content="Real-time tech news monitoring powered by FireCrawl" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
         <link rel="icon" href="/favicon.ico" />
+        <link rel="alternate" type="application/rss+xml" title="FireCrawl News Monitor" href="/api/feeds/rss" />
+        <link rel="alternate" type="application/atom+xml" title="FireCrawl News Monitor" href="/api/feeds/atom" />
+        <link rel="alternate" type="application/feed+json" title="FireCrawl News Monitor" href="/api/feeds/json" />
       </Head>
 
       <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
@@ -61,17 +213,32 @@ const NewsMonitor: React.FC = () => {
               🔥 FireCrawl News Monitor
             </h1>
             <p className="text-xl text-gray-600 max-w-2xl mx-auto">
-              Stay updated with the latest tech news from TechCrunch, powered by FireCrawl's intelligent web scraping
+              Stay updated with the latest tech news from your favourite outlets, powered by FireCrawl's intelligent web scraping
             </p>
           </div>
 
           {/* Fetch Button */}
           <div className="text-center mb-12">
             <div className="flex justify-center gap-4 flex-wrap">
+              <select
+                value={selectedSource}
+                onChange={(e) => setSelectedSource(e.target.value)}
+                disabled={loading}
+                className="px-4 py-3 bg-white border-2 border-gray-200 rounded-lg text-gray-700 font-medium focus:outline-none focus:ring-2 focus:ring-orange-500"
+              >
+                <option value="">All enabled sources</option>
+                {sources.map(source => (
+                  <option key={source.id} value={source.id}>
+                    {source.name}{source.enabled ? '' : ' (disabled)'}
+                  </option>
+                ))}
+              </select>
+
               <button
                 onClick={fetchNews}
-                disabled={loading}
-                className={`btn-primary ${loading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                disabled={loading || !can('operator')}
+                title={can('operator') ? undefined : 'Only operators can start a scrape'}
+                className={`btn-primary ${loading || !can('operator') ? 'opacity-50 cursor-not-allowed' : ''}`}
               >
                 {loading ? (
                   <>
@@ -92,6 +259,26 @@ const NewsMonitor: React.FC = () => {
             </div>
           </div>
 
+          {/* Job Progress */}
+          {progress.length > 0 && (
+            <div className="mb-8 flex justify-center gap-3 flex-wrap">
+              {progress.map(p => (
+                <span
+                  key={p.source}
+                  title={p.result?.error}
+                  className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium ${
+                    p.status === 'pending' ? 'bg-gray-100 text-gray-600'
+                      : p.status === 'failed' ? 'bg-red-100 text-red-700'
+                      : 'bg-green-100 text-green-700'
+                  }`}
+                >
+                  {p.status === 'pending' ? '⏳' : p.status === 'failed' ? '⚠️' : '✅'} {sourceName(p.source)}
+                  {p.result && p.status === 'done' && ` · ${p.result.articleCount}`}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="mb-8 p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -113,33 +300,39 @@ const NewsMonitor: React.FC = () => {
             </div>
           )}
 
+          {/* Demo Data Notice */}
+          {articles.some(article => article.extractionMethod === 'mock') && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              Some sources returned no live headlines, so demo articles are shown in their place.
+              Demo articles are not saved to the database.
+            </div>
+          )}
+
+          {/* Ingest Summary */}
+          {ingestSummary && (
+            <p className="mb-6 text-center text-sm text-gray-600">
+              {ingestSummary.newArticles} new {ingestSummary.newArticles === 1 ? 'article' : 'articles'} saved
+              {' '}• {ingestSummary.knownArticles} already known
+              {ingestSummary.rejectedArticles > 0 && ` • ${ingestSummary.rejectedArticles} rejected by validation`}
+            </p>
+          )}
+
+          {/* A scrape in progress replaces the list, so new articles wait until it's done */}
+          {!loading && <NewArticlesBanner count={incoming.length} floating onShow={showNew} />}
+
           {/* Articles Grid */}
           {articles.length > 0 && (
             <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
+              {/* Keys count from the end, so showing new articles keeps the others' state */}
               {articles.map((article, index) => (
-                <div key={index} className="card">
-                  <div className="flex justify-between items-start mb-4">
-                    <span className={getCategoryBadgeClass(article.category)}>
-                      {article.category}
-                    </span>
-                    {article.company && (
-                      <span className="text-sm text-gray-500 font-medium">
-                        {article.company}
-                      </span>
-                    )}
-                  </div>
-                  
-                  <h3 className="text-lg font-semibold text-gray-900 mb-3 leading-tight">
-                    {article.headline}
-                  </h3>
-                  
-                  <div className="flex items-center text-sm text-gray-500">
-                    <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
-                    </svg>
-                    <span>Just now</span>
-                  </div>
-                </div>
+                <NewsCard
+                  key={articles.length - index}
+                  article={article}
+                  sourceName={sourceName(article.source)}
+                  categoryColor={categoryColor(article.category, categories)}
+                  body={article.url ? bodies[article.url] : undefined}
+                  highlighted={fresh.has(articleKey(article))}
+                />
               ))}
             </div>
           )}
@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import axios from 'axios';
+import type { AccountResponse } from './api/auth/me';
+
+const inputClass = 'mt-1 w-full border border-gray-300 rounded-lg px-3 py-2';
+
+const Login = () => {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await axios.post<AccountResponse>('/api/auth/login', { email, password });
+      // Only return to pages of this app
+      const next = typeof router.query.next === 'string' && router.query.next.startsWith('/') && !router.query.next.startsWith('//')
+        ? router.query.next
+        : '/';
+      router.replace(next);
+    } catch (err: any) {
+      setError(err.response?.data?.error || err.message);
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Sign in · FireCrawl News Monitor</title>
+      </Head>
+
+      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 flex items-center justify-center px-4">
+        <form onSubmit={signIn} className="bg-white rounded-xl shadow-lg p-8 w-full max-w-sm">
+          <h1 className="text-2xl font-bold text-gray-800 mb-1">🔥 Sign in</h1>
+          <p className="text-sm text-gray-500 mb-6">FireCrawl News Monitor</p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 rounded-lg p-3 mb-4 text-sm">{error}</div>
+          )}
+
+          <label className="block mb-3">
+            <span className="text-sm text-gray-700">Email</span>
+            <input type="email" autoComplete="username" value={email} onChange={e => setEmail(e.target.value)} className={inputClass} />
+          </label>
+          <label className="block mb-6">
+            <span className="text-sm text-gray-700">Password</span>
+            <input type="password" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} className={inputClass} />
+          </label>
+          <button
+            type="submit"
+            disabled={submitting || !email || !password}
+            className="w-full bg-indigo-600 text-white px-4 py-2 rounded-lg hover:bg-indigo-700 font-semibold disabled:opacity-50"
+          >
+            {submitting ? 'Signing in…' : 'Sign in'}
+          </button>
+        </form>
+      </div>
+    </>
+  );
+};
+
+export default Login;
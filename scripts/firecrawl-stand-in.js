@@ -0,0 +1,140 @@
+#!/usr/bin/env node
+/**
+ * Local stand-in for the FireCrawl API. Replays the recorded responses in
+ * fixtures/firecrawl so /api/scrape can be exercised offline:
+ *
+ *   npm run firecrawl:stand-in -- --scenario markdown-fallback
+ *   FIRECRAWL_BASE_URL=http://localhost:3002 npm run dev
+ *
+ * Each fixture file is one scenario with an `extract` and a `scrape`
+ * response ({ status, headers?, delayMs?, body }), and optionally an
+ * `article` response for scrapes of the articles it extracts (the article
+ * body stage). The active scenario can be
+ * switched at runtime with `POST /__scenario {"scenario": "<name>"}`, and
+ * FIRECRAWL_STAND_IN_ROUTES='{"theverge.com":"unauthorized"}' assigns a
+ * scenario per requested host.
+ */
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'firecrawl');
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--scenario') args.scenario = argv[++i];
+    if (argv[i] === '--port') args.port = Number(argv[++i]);
+  }
+  return args;
+}
+
+function listScenarios() {
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''));
+}
+
+function loadScenario(name) {
+  const file = path.join(FIXTURES_DIR, `${path.basename(name)}.json`);
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+}
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function requestedHost(endpoint, body) {
+  const url = endpoint === 'extract' ? (body.urls || [])[0] : body.url;
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+// Ignores the differences URL normalization removes
+function sameUrl(a, b) {
+  const strip = url => String(url).replace(/^https?:\/\/(www\.)?/, '').replace(/[?#].*$/, '').replace(/\/+$/, '');
+  return strip(a) === strip(b);
+}
+
+function isExtractedArticle(fixture, url) {
+  const data = (fixture.extract && fixture.extract.body && fixture.extract.body.data) || [];
+  return data.some(item => ((item.extract && item.extract.articles) || []).some(article => sameUrl(article.url, url)));
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const port = args.port || Number(process.env.PORT) || 3002;
+  const routes = JSON.parse(process.env.FIRECRAWL_STAND_IN_ROUTES || '{}');
+  let scenario = args.scenario || process.env.FIRECRAWL_STAND_IN_SCENARIO || 'ok';
+
+  const available = listScenarios();
+  if (!available.includes(scenario)) {
+    console.error(`Unknown scenario "${scenario}". Available: ${available.join(', ')}`);
+    process.exit(1);
+  }
+
+  const server = http.createServer(async (req, res) => {
+    let body;
+    try {
+      body = await readBody(req);
+    } catch {
+      return send(res, 400, { success: false, error: 'Invalid JSON body' });
+    }
+
+    if (req.method === 'POST' && req.url === '/__scenario') {
+      if (!listScenarios().includes(body.scenario)) {
+        return send(res, 400, { success: false, error: `Unknown scenario: ${body.scenario}` });
+      }
+      scenario = body.scenario;
+      console.log(`Switched to scenario "${scenario}"`);
+      return send(res, 200, { success: true, scenario });
+    }
+
+    const match = req.method === 'POST' && /^\/v1\/(extract|scrape)$/.exec(req.url || '');
+    if (!match) {
+      return send(res, 404, { success: false, error: `No route for ${req.method} ${req.url}` });
+    }
+
+    if (!/^Bearer \S+/.test(req.headers.authorization || '')) {
+      return send(res, 401, { success: false, error: 'Unauthorized: Missing token' });
+    }
+
+    const endpoint = match[1];
+    const host = requestedHost(endpoint, body);
+    const name = (host && routes[host]) || scenario;
+    const fixture = loadScenario(name);
+    const response = endpoint === 'scrape' && fixture.article && isExtractedArticle(fixture, body.url)
+      ? fixture.article
+      : fixture[endpoint];
+
+    console.log(`${endpoint} ${host || '?'} -> ${name} (${response.status})`);
+
+    setTimeout(() => send(res, response.status, response.body, response.headers), response.delayMs || 0);
+  });
+
+  server.listen(port, () => {
+    console.log(`FireCrawl stand-in listening on http://localhost:${port} (scenario "${scenario}")`);
+    console.log(`Scenarios: ${available.join(', ')}`);
+  });
+}
+
+main();
@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+/**
+ * Sends mail through lib/mail.ts to the SMTP stand-in, started with
+ * credentials, and checks the outcome of each case:
+ *
+ *   npm run smtp:check
+ *
+ * lib/mail.ts only uses Node's own modules, so it is compiled on the fly
+ * with the project's TypeScript. Exits with 1 when a case fails.
+ */
+const { spawn } = require('child_process');
+const fs = require('fs');
+const Module = require('module');
+const os = require('os');
+const path = require('path');
+const ts = require('typescript');
+
+const PORT = 2525;
+const USER = 'digest';
+const PASSWORD = 'secret';
+
+function loadMail() {
+  const file = path.join(__dirname, '..', 'lib', 'mail.ts');
+  const { outputText } = ts.transpileModule(fs.readFileSync(file, 'utf8'), {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2019, esModuleInterop: true },
+  });
+  const mod = new Module(file);
+  mod.paths = Module._nodeModulePaths(path.dirname(file));
+  mod._compile(outputText, file);
+  return mod.exports;
+}
+
+function startStandIn(dir) {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [
+      path.join(__dirname, 'smtp-stand-in.js'),
+      '--port', String(PORT),
+      '--dir', dir,
+      '--user', USER,
+      '--password', PASSWORD,
+    ]);
+    child.stdout.once('data', () => resolve(child));
+    child.once('error', reject);
+    child.once('exit', code => reject(new Error(`SMTP stand-in exited with ${code}`)));
+  });
+}
+
+async function main() {
+  const { createSmtpTransport } = loadMail();
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'smtp-check-'));
+  const standIn = await startStandIn(dir);
+
+  const config = { host: 'localhost', port: PORT, secure: false, timeoutMs: 5000 };
+  const message = {
+    from: 'FireCrawl News Monitor <news-monitor@localhost>',
+    to: ['reader@example.com'],
+    subject: 'SMTP check ✓',
+    text: 'Plain text',
+    html: '<p>HTML</p>',
+  };
+
+  const cases = [
+    { name: 'signs in with SMTP_USER and SMTP_PASSWORD', config: { ...config, user: USER, password: PASSWORD }, expect: null },
+    { name: 'reports wrong credentials', config: { ...config, user: USER, password: 'wrong' }, expect: /535/ },
+    { name: 'reports a missing sign-in', config, expect: /530/ },
+  ];
+
+  let failed = 0;
+  for (const check of cases) {
+    let error = null;
+    try {
+      await createSmtpTransport(check.config).send(message);
+    } catch (err) {
+      error = err;
+    }
+
+    const ok = check.expect ? !!error && check.expect.test(error.message) : !error;
+    if (!ok) failed++;
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${check.name}${error ? ` (${error.message})` : ''}`);
+  }
+
+  const saved = fs.readdirSync(dir).length;
+  if (saved !== 1) {
+    failed++;
+    console.log(`FAIL expected 1 saved message, found ${saved}`);
+  }
+
+  standIn.removeAllListeners('exit');
+  standIn.kill();
+  fs.rmSync(dir, { recursive: true, force: true });
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,144 @@
+#!/usr/bin/env node
+/**
+ * Local SMTP stand-in that catches digest emails instead of delivering
+ * them, so digests can be sent without a mail server:
+ *
+ *   npm run smtp:stand-in -- --port 1025
+ *   SMTP_HOST=localhost SMTP_PORT=1025 npm run dev
+ *
+ * Every accepted message is saved as an .eml file in --dir (default
+ * .data/mail), which any mail client can open. Any AUTH PLAIN credentials
+ * are accepted, unless --user and --password are given: then only those
+ * are, and mail is refused until the client has signed in, to check
+ * SMTP_USER and SMTP_PASSWORD. With --reject, recipients are refused with
+ * a 550, to try out failed deliveries.
+ */
+const net = require('net');
+const fs = require('fs');
+const path = require('path');
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--port') args.port = Number(argv[++i]);
+    if (argv[i] === '--dir') args.dir = argv[++i];
+    if (argv[i] === '--reject') args.reject = true;
+    if (argv[i] === '--user') args.user = argv[++i];
+    if (argv[i] === '--password') args.password = argv[++i];
+  }
+  return args;
+}
+
+// Subject of a saved message, with RFC 2047 encoded words decoded
+function subjectOf(message) {
+  const match = /^Subject: (.*)$/m.exec(message);
+  if (!match) return '(no subject)';
+  return match[1].replace(/=\?UTF-8\?B\?([^?]+)\?=/gi, (_, encoded) => Buffer.from(encoded, 'base64').toString('utf8'));
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const port = args.port || Number(process.env.PORT) || 1025;
+  const dir = path.resolve(args.dir || path.join('.data', 'mail'));
+  fs.mkdirSync(dir, { recursive: true });
+  let saved = 0;
+
+  const server = net.createServer(socket => {
+    const reply = line => socket.write(`${line}\r\n`);
+    let envelope = { from: null, to: [] };
+    let data = null;
+    let buffer = '';
+    let authenticated = !args.user;
+
+    reply('220 localhost SMTP stand-in ready');
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+
+      let newline;
+      while ((newline = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+
+        // Between DATA and a line holding a single dot, lines are the message
+        if (data !== null) {
+          if (line !== '.') {
+            data.push(line.replace(/^\.\./, '.'));
+            continue;
+          }
+
+          const message = data.join('\r\n');
+          data = null;
+          const file = path.join(dir, `${new Date().toISOString().replace(/[:.]/g, '-')}-${++saved}.eml`);
+          fs.writeFileSync(file, message);
+          console.log(`${envelope.from} -> ${envelope.to.join(', ')}: "${subjectOf(message)}" (${path.relative(process.cwd(), file)})`);
+          envelope = { from: null, to: [] };
+          reply('250 OK: message queued');
+          continue;
+        }
+
+        const command = line.split(' ')[0].toUpperCase();
+
+        if (command === 'EHLO') {
+          reply('250-localhost');
+          reply('250-8BITMIME');
+          reply('250 AUTH PLAIN');
+        } else if (command === 'HELO') {
+          reply('250 localhost');
+        } else if (command === 'AUTH') {
+          // AUTH PLAIN <base64 of "\0user\0password">
+          const [, mechanism = '', initial = ''] = line.split(' ');
+          const [, user, password] = Buffer.from(initial, 'base64').toString('utf8').split('\0');
+          if (mechanism.toUpperCase() !== 'PLAIN') {
+            reply('504 Only AUTH PLAIN is supported');
+          } else if (args.user && (user !== args.user || password !== (args.password || ''))) {
+            reply('535 Authentication credentials invalid');
+          } else {
+            authenticated = true;
+            reply('235 Authentication successful');
+          }
+        } else if (command === 'MAIL' && !authenticated) {
+          reply('530 Authentication required');
+        } else if (command === 'MAIL') {
+          envelope = { from: (/<([^>]*)>/.exec(line) || [])[1] || '', to: [] };
+          reply('250 OK');
+        } else if (command === 'RCPT') {
+          if (args.reject) {
+            reply('550 Mailbox unavailable');
+          } else {
+            envelope.to.push((/<([^>]*)>/.exec(line) || [])[1] || '');
+            reply('250 OK');
+          }
+        } else if (command === 'DATA') {
+          if (envelope.to.length === 0) {
+            reply('503 No valid recipients');
+          } else {
+            data = [];
+            reply('354 End data with <CR><LF>.<CR><LF>');
+          }
+        } else if (command === 'RSET') {
+          envelope = { from: null, to: [] };
+          reply('250 OK');
+        } else if (command === 'NOOP') {
+          reply('250 OK');
+        } else if (command === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+          return;
+        } else {
+          reply('502 Command not implemented');
+        }
+      }
+    });
+
+    socket.on('error', () => socket.destroy());
+  });
+
+  server.listen(port, () => {
+    console.log(`SMTP stand-in listening on localhost:${port}, saving messages to ${path.relative(process.cwd(), dir) || dir}`);
+    if (args.reject) console.log('Rejecting all recipients');
+    if (args.user) console.log(`Requiring AUTH PLAIN as ${args.user}`);
+  });
+}
+
+main();
@@ -0,0 +1,13 @@
+-- Base table as used by /api/scrape and the dashboard
+create table if not exists news_articles (
+  id bigint generated by default as identity primary key,
+  title text not null,
+  url text,
+  topic text,
+  published_date timestamptz,
+  created_at timestamptz not null default now()
+);
+
+-- Source registry id (see config/sources.json)
+alter table news_articles add column if not exists source text;
+create index if not exists news_articles_source_idx on news_articles (source);
@@ -0,0 +1,9 @@
+-- Normalized article URL ("url:…") or headline hash ("headline:…") used for
+-- idempotent upserts from /api/scrape
+alter table news_articles add column if not exists dedupe_key text;
+
+-- Rows written before dedupe existed keep their own key so they don't collide
+update news_articles set dedupe_key = 'legacy:' || id where dedupe_key is null;
+
+alter table news_articles alter column dedupe_key set not null;
+create unique index if not exists news_articles_dedupe_key_idx on news_articles (dedupe_key);
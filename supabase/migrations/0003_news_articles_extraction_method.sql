@@ -0,0 +1,5 @@
+-- How each article was obtained: 'extract' or 'markdown'. Mock data is never stored.
+alter table news_articles add column if not exists extraction_method text;
+alter table news_articles drop constraint if exists news_articles_extraction_method_check;
+alter table news_articles add constraint news_articles_extraction_method_check
+  check (extraction_method in ('extract', 'markdown'));
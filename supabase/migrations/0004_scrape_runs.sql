@@ -0,0 +1,15 @@
+-- One row per source per scrape, written by /api/scrape and /api/cron/scrape
+create table if not exists scrape_runs (
+  id bigint generated by default as identity primary key,
+  trigger text not null check (trigger in ('manual', 'cron')),
+  source text not null,
+  started_at timestamptz not null,
+  finished_at timestamptz not null,
+  article_count integer not null default 0,
+  new_articles integer not null default 0,
+  known_articles integer not null default 0,
+  extraction_method text,
+  error text
+);
+
+create index if not exists scrape_runs_started_at_idx on scrape_runs (started_at desc);
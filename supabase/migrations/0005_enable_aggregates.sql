@@ -0,0 +1,4 @@
+-- ArticleStore.aggregate() relies on PostgREST aggregate functions
+-- (select=topic,count()), which are off by default
+alter role authenticator set pgrst.db_aggregates_enabled = 'true';
+notify pgrst, 'reload config';
@@ -0,0 +1,2 @@
+-- Machine-readable failure reason (auth, rate_limited, timeout, upstream, circuit_open, db, ...)
+alter table scrape_runs add column if not exists error_code text;
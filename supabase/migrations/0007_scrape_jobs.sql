@@ -0,0 +1,11 @@
+-- Asynchronous scrape jobs started through POST /api/jobs
+create table if not exists scrape_jobs (
+  id bigint generated by default as identity primary key,
+  status text not null check (status in ('running', 'succeeded', 'failed')),
+  sources jsonb not null default '[]',
+  articles jsonb not null default '[]',
+  result jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  finished_at timestamptz
+);
@@ -0,0 +1,14 @@
+-- Extracted items that failed validation, kept with their raw payload
+create table if not exists quarantined_articles (
+  id bigint generated by default as identity primary key,
+  source text not null,
+  extraction_method text not null check (extraction_method in ('extract', 'markdown', 'mock')),
+  reason text not null,
+  detail text not null,
+  raw jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists quarantined_articles_created_at_idx on quarantined_articles (created_at desc);
+
+alter table scrape_runs add column if not exists rejected_articles integer not null default 0;
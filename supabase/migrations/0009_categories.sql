@@ -0,0 +1,11 @@
+-- Category taxonomy edited on /admin/categories. While empty, the defaults
+-- in config/categories.json are used.
+create table if not exists categories (
+  id bigint generated by default as identity primary key,
+  name text not null unique,
+  color text not null,
+  description text not null default '',
+  rules jsonb not null default '[]',
+  position integer not null default 0,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,18 @@
+-- Company dictionary and the many-to-many link to articles. The companies
+-- table is seeded from config/companies.json on first use.
+create table if not exists companies (
+  id bigint generated by default as identity primary key,
+  name text not null unique,
+  aliases jsonb not null default '[]',
+  created_at timestamptz not null default now()
+);
+
+create table if not exists article_companies (
+  id bigint generated by default as identity primary key,
+  article_id bigint not null references news_articles (id) on delete cascade,
+  company_id bigint not null references companies (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  unique (article_id, company_id)
+);
+
+create index if not exists article_companies_company_id_idx on article_companies (company_id);
@@ -0,0 +1,38 @@
+-- Outgoing webhooks, the watchlists that feed them and the delivery log
+create table if not exists webhooks (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  url text not null,
+  format text not null check (format in ('slack', 'generic')),
+  secret text,
+  enabled boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists watchlists (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  include jsonb not null default '{"keywords": [], "companies": [], "categories": []}',
+  exclude jsonb not null default '{"keywords": [], "companies": [], "categories": []}',
+  webhook_ids jsonb not null default '[]',
+  enabled boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists webhook_deliveries (
+  id bigint generated by default as identity primary key,
+  webhook_id bigint not null,
+  watchlist_id bigint not null,
+  status text not null check (status in ('pending', 'delivered', 'failed')),
+  payload jsonb not null,
+  attempts integer not null default 0,
+  response_status integer,
+  error text,
+  next_attempt_at timestamptz,
+  delivered_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists webhook_deliveries_created_at_idx on webhook_deliveries (created_at desc);
+create index if not exists webhook_deliveries_pending_idx on webhook_deliveries (next_attempt_at) where status = 'pending';
@@ -0,0 +1,9 @@
+-- Keyset pagination for /api/articles: (sort date, id) descending, with
+-- optional topic filter and headline search
+create index if not exists news_articles_published_date_id_idx on news_articles (published_date desc, id desc);
+create index if not exists news_articles_created_at_id_idx on news_articles (created_at desc, id desc);
+create index if not exists news_articles_topic_published_date_idx on news_articles (topic, published_date desc);
+
+-- Headline search uses ilike '%word%', which needs a trigram index
+create extension if not exists pg_trgm;
+create index if not exists news_articles_title_trgm_idx on news_articles using gin (title gin_trgm_ops);
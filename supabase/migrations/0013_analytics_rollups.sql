@@ -0,0 +1,23 @@
+-- Pre-aggregated counts behind /api/analytics, kept up to date on ingest.
+-- Rebuild them with POST /api/analytics/rollups.
+create table if not exists topic_rollups (
+  id bigint generated by default as identity primary key,
+  key text not null unique,
+  bucket timestamptz not null,
+  topic text not null,
+  count integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists topic_rollups_bucket_idx on topic_rollups (bucket);
+
+create table if not exists word_rollups (
+  id bigint generated by default as identity primary key,
+  key text not null unique,
+  day date not null,
+  word text not null,
+  count integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists word_rollups_day_idx on word_rollups (day);
@@ -0,0 +1,12 @@
+-- Articles per company and UTC hour, for the company ranking in
+-- /api/analytics. Fill it for existing articles with POST /api/analytics/rollups.
+create table if not exists company_rollups (
+  id bigint generated by default as identity primary key,
+  key text not null unique,
+  bucket timestamptz not null,
+  company text not null,
+  count integer not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists company_rollups_bucket_idx on company_rollups (bucket);
@@ -0,0 +1,10 @@
+-- Story clusters: near-duplicate headlines from different outlets share the
+-- id of the cluster's first article. Existing articles start as their own
+-- story; POST /api/stories/recluster groups them.
+alter table news_articles add column if not exists cluster_id bigint;
+update news_articles set cluster_id = id where cluster_id is null;
+create index if not exists news_articles_cluster_id_idx on news_articles (cluster_id);
+
+-- Distinct stories per topic and hour, next to the article count. Fill it
+-- for existing articles with POST /api/analytics/rollups.
+alter table topic_rollups add column if not exists stories integer not null default 0;
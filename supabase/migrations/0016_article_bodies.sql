@@ -0,0 +1,17 @@
+-- Article pages fetched after ingest (FETCH_ARTICLE_BODIES=true), one row
+-- per normalized URL, with a local extractive summary
+create table if not exists article_bodies (
+  id bigint generated by default as identity primary key,
+  url text not null unique,
+  status text not null check (status in ('pending', 'fetched', 'failed')),
+  markdown text,
+  summary text,
+  word_count integer,
+  reading_minutes integer,
+  attempts integer not null default 0,
+  error text,
+  fetched_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists article_bodies_pending_idx on article_bodies (id) where status = 'pending';
@@ -0,0 +1,12 @@
+-- Lexicon-based sentiment per article (see lib/sentiment.ts), summed in the
+-- rollups so /api/analytics can average it per topic and company.
+-- Score the articles stored before this with POST /api/analytics/rescore.
+alter table news_articles add column if not exists sentiment real;
+
+alter table topic_rollups
+  add column if not exists sentiment_sum real not null default 0,
+  add column if not exists sentiment_count integer not null default 0;
+
+alter table company_rollups
+  add column if not exists sentiment_sum real not null default 0,
+  add column if not exists sentiment_count integer not null default 0;
@@ -0,0 +1,21 @@
+-- Accounts that sign in to the app, and API keys for programmatic callers
+create table if not exists users (
+  id bigint generated by default as identity primary key,
+  email text not null unique,
+  password_hash text not null,
+  role text not null check (role in ('viewer', 'operator', 'admin')),
+  disabled boolean not null default false,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists api_keys (
+  id bigint generated by default as identity primary key,
+  name text not null,
+  prefix text not null,
+  key_hash text not null unique,
+  role text not null check (role in ('viewer', 'operator', 'admin')),
+  rate_limit integer check (rate_limit > 0),
+  last_used_at timestamptz,
+  revoked_at timestamptz,
+  created_at timestamptz not null default now()
+);
@@ -0,0 +1,17 @@
+-- Ledger of FireCrawl calls and the credits they used, for budgets and reporting
+create table if not exists firecrawl_usage (
+  id bigint generated by default as identity primary key,
+  endpoint text not null check (endpoint in ('extract', 'scrape')),
+  url text not null,
+  source text,
+  scrape_run_id bigint,
+  trigger text not null check (trigger in ('manual', 'cron', 'bodies')),
+  requests integer not null,
+  credits real not null,
+  estimated boolean not null default false,
+  success boolean not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists firecrawl_usage_created_at_idx on firecrawl_usage (created_at);
+create index if not exists firecrawl_usage_scrape_run_id_idx on firecrawl_usage (scrape_run_id);
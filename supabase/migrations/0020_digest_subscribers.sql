@@ -0,0 +1,12 @@
+-- People who get the daily or weekly email digest, and what it covers
+create table if not exists digest_subscribers (
+  id bigint generated by default as identity primary key,
+  email text not null,
+  period text not null check (period in ('daily', 'weekly')),
+  categories jsonb not null default '[]',
+  companies jsonb not null default '[]',
+  enabled boolean not null default true,
+  last_sent_at timestamptz,
+  last_error text,
+  created_at timestamptz not null default now()
+);
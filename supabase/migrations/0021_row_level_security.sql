@@ -0,0 +1,10 @@
+-- Server-only tables: password hashes, API key hashes, webhook secrets,
+-- subscriber addresses and the credit ledger. Row level security without
+-- any policy denies the anon and authenticated roles, so a public anon key
+-- can't read or write them through PostgREST. The app's service role key
+-- (SUPABASE_KEY) bypasses row level security.
+alter table users enable row level security;
+alter table api_keys enable row level security;
+alter table webhooks enable row level security;
+alter table firecrawl_usage enable row level security;
+alter table digest_subscribers enable row level security;
@@ -0,0 +1,3 @@
+-- Articles listed without a link used to be stored with their source's
+-- homepage as the URL. Those rows are keyed by headline, so clear it there.
+update news_articles set url = null where dedupe_key like 'headline:%';
@@ -0,0 +1,3 @@
+-- Steps after storing the articles (company links, stories, rollups, page
+-- queue) that failed without failing the run
+alter table scrape_runs add column if not exists warnings text[];
@@ -0,0 +1,8 @@
+-- Companies created from placeholders the extraction model returned instead
+-- of a name. Their article links go with them (on delete cascade).
+delete from companies
+where trim(name) = ''
+   or lower(regexp_replace(trim(name), '[.!]+$', '')) in (
+     'n/a', 'na', 'none', 'null', 'nil', 'unknown', 'not mentioned', 'not specified',
+     'not applicable', 'no company', 'various', 'multiple'
+   );